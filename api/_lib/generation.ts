@@ -0,0 +1,174 @@
+// The generation run shared by both question endpoints: plan the material into
+// batches, fill the per-type quota batch by batch, top up the types the model
+// under-produced and report what came of it. The endpoints differ only in how
+// one batch is asked for and handed on, which each passes in as `generate`.
+
+import { type ChatMessage, TIME_BUDGET_MS } from './llm/index.js';
+import {
+  type GenerateConfig,
+  type GenerationBatch,
+  type Question,
+  type SourceCiter,
+  type TypeQuota,
+  planGeneration,
+  planTopUp,
+  scopeRun,
+  createTypeQuota,
+  createDeduper,
+  buildSystemPrompt,
+  buildUserPrompt,
+} from './questions.js';
+import type { DroppedQuestion, ValidQuestion } from './schema.js';
+import { type VerificationSummary, summarizeVerification } from './verify.js';
+import { type PlannedSection, type SectionCoverage, summarizeCoverage, createSourceCiter } from '../../src/lib/sections.js';
+
+// Only start a top-up round for missing types with at least this much time left
+const MIN_TOP_UP_MS = 15000;
+
+/** A request the material can't satisfy — reported to the client as a 400 */
+export class GenerationRequestError extends Error {
+  status = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'GenerationRequestError';
+  }
+}
+
+// --- Planning ---
+export interface GenerationPlan {
+  planned: PlannedSection[];
+  /** The batches this request runs — the whole plan, or just config.batch */
+  batches: GenerationBatch[];
+  quota: TypeQuota;
+  cite: SourceCiter;
+}
+
+/**
+ * Spread questions across every section of the material; each call covers a
+ * run of consecutive sections within the free models' text budget. The client
+ * may ask for a single batch of the plan (see config.batch).
+ */
+export function planRun(extractedText: string, config: GenerateConfig): GenerationPlan {
+  const { planned, batches: plan } = planGeneration(extractedText, config.questionCount, config.sectionWeights);
+  const { batches, targets } = scopeRun(config, plan);
+  if (planned.length === 0) {
+    throw new GenerationRequestError('None of the selected topics were found in the material');
+  }
+  if (config.batch !== undefined && batches.length === 0) {
+    throw new GenerationRequestError(`Batch ${config.batch} is out of range`);
+  }
+
+  console.log(`Text: ${extractedText.length} chars -> ${planned.length} sections, ${plan.length} batch(es)${config.batch !== undefined ? `, running batch ${config.batch + 1}` : ''}`);
+  return { planned, batches, quota: createTypeQuota(targets), cite: createSourceCiter(extractedText, planned) };
+}
+
+// --- Running the batches ---
+/** One model call of a run */
+export interface BatchCall {
+  messages: ChatMessage[];
+  /** Questions asked for */
+  count: number;
+  /** "Batch 2/4" or "Top-up", for the logs */
+  label: string;
+  /** 0-based position among the regular batches */
+  batch: number;
+  totalBatches: number;
+  /** Set on top-up calls: how many questions the whole top-up round is after */
+  topUp?: number;
+  /** Dedup and per-type quota in one: false for a repeat or an extra of a type that's already full */
+  keep: (question: ValidQuestion) => boolean;
+}
+
+export interface RunOptions {
+  signal: AbortSignal;
+  startedAt: number;
+  /** Text of every question kept so far — later calls are told not to repeat them */
+  generated: () => string[];
+  /** Ask the model for one batch and hand on what keep() lets through; resolves with the items dropped as invalid */
+  generate: (call: BatchCall) => Promise<DroppedQuestion[]>;
+  /** Pause between regular batches, to stay clear of rate limits */
+  pauseMs?: number;
+}
+
+/**
+ * Run every batch of the plan, then one more pass for any type the model
+ * under-produced while there's time left. Throws if nothing was kept at all.
+ */
+export async function runBatches(plan: GenerationPlan, config: GenerateConfig, options: RunOptions): Promise<DroppedQuestion[]> {
+  const { batches, quota } = plan;
+  const { signal, startedAt, generated, generate, pauseMs = 0 } = options;
+  const isUnique = createDeduper(config.previousQuestions);
+  const keep = (question: ValidQuestion) => isUnique(question) && quota.take(question.type);
+  const dropped: DroppedQuestion[] = [];
+
+  const run = async ({ sections, count }: GenerationBatch, call: Pick<BatchCall, 'label' | 'batch' | 'topUp'>) => {
+    const typeCounts = quota.forBatch(count);
+    const batchCount = Object.values(typeCounts).reduce((sum, n) => sum + n, 0);
+    if (batchCount === 0) return;
+
+    console.log(`${call.label}: generating ${batchCount} questions from ${sections.length} sections...`);
+
+    const messages: ChatMessage[] = [
+      { role: 'system', content: buildSystemPrompt(batchCount, config, typeCounts) },
+      { role: 'user', content: buildUserPrompt(
+        sections,
+        batchCount,
+        [...(config.previousQuestions || []), ...generated()]
+      )}
+    ];
+    dropped.push(...await generate({ ...call, messages, count: batchCount, totalBatches: batches.length, keep }));
+  };
+
+  for (let batch = 0; batch < batches.length; batch++) {
+    // Only pause between batches (not before the first)
+    if (batch > 0 && pauseMs > 0) {
+      await new Promise(r => setTimeout(r, pauseMs));
+    }
+    signal.throwIfAborted();
+    await run(batches[batch], { label: `Batch ${batch + 1}/${batches.length}`, batch });
+  }
+
+  const missing = quota.missing();
+  const missingCount = Object.values(missing).reduce((sum, n) => sum + n, 0);
+  if (missingCount > 0 && generated().length > 0 && !signal.aborted && Date.now() - startedAt < TIME_BUDGET_MS - MIN_TOP_UP_MS) {
+    console.log(`Topping up: ${Object.entries(missing).map(([t, n]) => `${n} ${t}`).join(', ')}`);
+    try {
+      for (const batch of planTopUp(batches, missingCount)) {
+        await run(batch, { label: 'Top-up', batch: batches.length, topUp: missingCount });
+      }
+    } catch (error) {
+      console.log(`Top-up failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (generated().length === 0) {
+    throw new Error('No questions were generated. The AI model may be unavailable. Please try again.');
+  }
+  return dropped;
+}
+
+// --- Reporting ---
+/** What both endpoints report alongside the questions */
+export interface GenerationMetadata {
+  generatedCount: number;
+  model: string;
+  dropped: { count: number; reasons: DroppedQuestion[] };
+  coverage: SectionCoverage[];
+  verification?: VerificationSummary;
+}
+
+export function buildMetadata(
+  plan: GenerationPlan,
+  questions: Question[],
+  run: { model: string; dropped: DroppedQuestion[]; verifierModel?: string },
+  config: GenerateConfig
+): GenerationMetadata {
+  return {
+    generatedCount: questions.length,
+    model: run.model,
+    dropped: { count: run.dropped.length, reasons: run.dropped },
+    coverage: summarizeCoverage(plan.planned, questions),
+    ...(config.verifyAnswers ? { verification: summarizeVerification(questions, run.verifierModel || '') } : {}),
+  };
+}
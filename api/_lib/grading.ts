@@ -0,0 +1,83 @@
+// Rubric-based grading for essay answers. The model scores each criterion
+// separately so the student sees where marks were gained and lost.
+
+import { z } from 'zod';
+import { type ChatMessage, type LLMProvider, completeWithFallback } from './llm/index.js';
+import { tryRepairJSON } from './questions.js';
+import type { EssayGrade, RubricCriterion } from '../../src/types/questions.js';
+
+export interface GradeRequest {
+  question: string;
+  /** Model answer written alongside the question */
+  modelAnswer: string;
+  rubric: RubricCriterion[];
+  answer: string;
+}
+
+// The grader's reply, read leniently — a criterion it garbled scores 0 below
+const criterionResult = z.object({
+  n: z.coerce.number().optional().catch(undefined),
+  awarded: z.unknown(),
+  feedback: z.unknown(),
+});
+const gradeReply = z.object({
+  criteria: z.array(criterionResult.nullable().catch(null)).catch([]),
+  feedback: z.unknown(),
+}).catch({ criteria: [], feedback: undefined });
+
+function buildGradingMessages({ question, modelAnswer, rubric, answer }: GradeRequest): ChatMessage[] {
+  const criteria = rubric.map((c, i) => ({ n: i + 1, criterion: c.criterion, points: c.points, ...(c.description ? { description: c.description } : {}) }));
+
+  return [
+    { role: 'system', content: `You are a fair university examiner grading a student's essay against a rubric. Output ONLY valid JSON — no markdown, no backticks, no extra text.
+
+Return {"criteria":[{"n":1,"awarded":2,"feedback":"..."}],"feedback":"..."} with one entry per rubric criterion, in the same order.
+
+RULES:
+- "awarded" is a whole number from 0 to that criterion's points.
+- Judge the student's reasoning and accuracy, not their wording. The model answer is a guide, not the only acceptable answer.
+- Each criterion's "feedback" is one or two sentences saying what earned marks and what was missing.
+- The overall "feedback" is one or two sentences on how to improve the answer.
+- Blank, off-topic or copied-question answers get 0 on every criterion.` },
+    { role: 'user', content: `QUESTION:\n${question}\n\nMODEL ANSWER:\n${modelAnswer}\n\nRUBRIC:\n${JSON.stringify(criteria)}\n\nSTUDENT ANSWER:\n"""\n${answer.slice(0, 8000)}\n"""` },
+  ];
+}
+
+/**
+ * Grade one essay answer. Awarded points are clamped to each criterion's
+ * maximum, and criteria the model skipped score 0 with a note rather than
+ * failing the whole grade.
+ */
+export async function gradeEssay(provider: LLMProvider, request: GradeRequest): Promise<{ grade: EssayGrade; model: string }> {
+  const { content, model } = await completeWithFallback(provider, buildGradingMessages(request), {
+    json: true,
+    task: 'grade-essay',
+    temperature: 0,
+    maxAttempts: 2,
+    backoffMs: [0, 3000],
+  });
+
+  const parsed = gradeReply.parse(tryRepairJSON(content));
+  const byNumber = new Map(parsed.criteria.map((r, i) => [r?.n || i + 1, r]));
+
+  const criteria = request.rubric.map((c, i) => {
+    const r = byNumber.get(i + 1);
+    const awarded = Math.round(Number(r?.awarded));
+    return {
+      criterion: c.criterion,
+      points: c.points,
+      awarded: Number.isFinite(awarded) ? Math.min(Math.max(awarded, 0), c.points) : 0,
+      feedback: r?.feedback ? String(r.feedback) : 'Not assessed.',
+    };
+  });
+
+  return {
+    grade: {
+      criteria,
+      score: criteria.reduce((sum, c) => sum + c.awarded, 0),
+      maxScore: criteria.reduce((sum, c) => sum + c.points, 0),
+      feedback: parsed.feedback ? String(parsed.feedback) : '',
+    },
+    model,
+  };
+}
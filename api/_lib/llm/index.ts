@@ -0,0 +1,161 @@
+import { type ChatMessage, type Completion, type CompletionOptions, type LLMProvider, ProviderError } from './types.js';
+import { createOpenRouterProvider } from './openrouter.js';
+import { createOpenAICompatibleProvider } from './openaiCompatible.js';
+import { createMockProvider } from './mock.js';
+
+export * from './types.js';
+
+// Stop starting new attempts once this much of the 60s function budget is gone
+export const TIME_BUDGET_MS = 50000;
+
+/**
+ * Pick the provider from the environment:
+ *   LLM_PROVIDER=openrouter (default)  — needs OPENROUTER_API_KEY
+ *   LLM_PROVIDER=openai-compatible     — LLM_BASE_URL, LLM_MODELS, optional LLM_API_KEY
+ *   LLM_PROVIDER=mock                  — offline fixtures, no key needed
+ */
+export function getProvider(): LLMProvider {
+  const kind = (process.env.LLM_PROVIDER || 'openrouter').toLowerCase();
+
+  if (kind === 'mock') return createMockProvider();
+
+  if (kind === 'openai-compatible' || kind === 'ollama') {
+    const models = (process.env.LLM_MODELS || process.env.LLM_MODEL || '')
+      .split(',').map(m => m.trim()).filter(Boolean);
+    if (models.length === 0) {
+      throw new Error('Server configuration error: LLM_MODELS not set');
+    }
+    return createOpenAICompatibleProvider({
+      name: kind,
+      baseUrl: process.env.LLM_BASE_URL || 'http://localhost:11434/v1',
+      apiKey: process.env.LLM_API_KEY,
+      models,
+    });
+  }
+
+  const apiKey = process.env.OPENROUTER_API_KEY;
+  if (!apiKey) {
+    throw new Error('Server configuration error: API key not set');
+  }
+  return createOpenRouterProvider(apiKey);
+}
+
+export interface FallbackOptions extends CompletionOptions {
+  /** Date.now() when the request started — used to respect the function budget */
+  startedAt?: number;
+  /** Attempts per model before moving down the chain */
+  maxAttempts?: number;
+  /** Wait before attempt n (n > 0) or before switching model */
+  backoffMs?: number[];
+  /** Move this model to the end of the chain — e.g. so a check runs on a different model */
+  avoidModel?: string;
+}
+
+function modelChain(provider: LLMProvider, avoidModel?: string): string[] {
+  // Responses can name the model without the ":free" variant suffix
+  const avoid = avoidModel && provider.models.find(m => m === avoidModel || m.replace(/:free$/, '') === avoidModel);
+  if (!avoid || provider.models.length < 2) return provider.models;
+  return [...provider.models.filter(m => m !== avoid), avoid];
+}
+
+// Sleep between attempts, cut short if the request is aborted
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    // Drop the listener once the wait is over, so retries don't pile them up on the request's signal
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// --- Call the provider with automatic retry + model fallback ---
+export async function completeWithFallback(
+  provider: LLMProvider,
+  messages: ChatMessage[],
+  options: FallbackOptions = {}
+): Promise<Completion> {
+  const { startedAt = Date.now(), maxAttempts = 3, backoffMs = [5000, 10000, 20000], avoidModel, ...completionOptions } = options;
+  const models = modelChain(provider, avoidModel);
+
+  for (let modelIdx = 0; modelIdx < models.length; modelIdx++) {
+    const model = models[modelIdx];
+
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      if (attempt > 0 || modelIdx > 0) {
+        const waitMs = backoffMs[Math.min(attempt, backoffMs.length - 1)];
+        // Never sleep past the function budget — fail cleanly instead of being killed
+        if (Date.now() - startedAt + waitMs > TIME_BUDGET_MS) {
+          throw new Error('All models are currently busy. Please wait 30 seconds and try again.');
+        }
+        if (waitMs > 0) {
+          const label = modelIdx > 0 ? `Trying model ${modelIdx + 1}/${models.length}` : `Retry ${attempt + 1}`;
+          console.log(`${label} (${model}), waiting ${waitMs / 1000}s...`);
+          await wait(waitMs, completionOptions.signal);
+        }
+      }
+
+      try {
+        const completion = await provider.complete(model, messages, completionOptions);
+        console.log(`Response from ${completion.model} via ${provider.name} (${completion.content.length} chars)`);
+        return completion;
+      } catch (error) {
+        if (!(error instanceof ProviderError) || error.kind === 'fatal') throw error;
+        console.log(`${error.message} (attempt ${attempt + 1})`);
+        // Missing model, or out of retries on this one — move down the chain
+        if (error.kind === 'unavailable' || attempt === maxAttempts - 1) break;
+      }
+    }
+  }
+
+  throw new Error('All models are currently busy. Please wait 30 seconds and try again.');
+}
+
+/**
+ * Streaming variant of completeWithFallback. Walks the same fallback chain
+ * until a model starts answering, then yields content deltas as they arrive.
+ *
+ * Fallback only happens before the first delta — once text has been yielded
+ * the caller owns it, so a mid-stream failure is thrown rather than retried.
+ */
+export async function* streamWithFallback(
+  provider: LLMProvider,
+  messages: ChatMessage[],
+  options: FallbackOptions & { onModel?: (model: string) => void } = {}
+): AsyncGenerator<string> {
+  const { startedAt = Date.now(), backoffMs = [3000], onModel, maxAttempts: _maxAttempts, avoidModel, ...completionOptions } = options;
+  const models = modelChain(provider, avoidModel);
+
+  for (let modelIdx = 0; modelIdx < models.length; modelIdx++) {
+    const model = models[modelIdx];
+
+    if (modelIdx > 0) {
+      const waitMs = backoffMs[0];
+      if (Date.now() - startedAt + waitMs > TIME_BUDGET_MS) break;
+      console.log(`Trying model ${modelIdx + 1}/${models.length} (${model}), waiting ${waitMs / 1000}s...`);
+      await wait(waitMs, completionOptions.signal);
+    }
+
+    let yielded = 0;
+    try {
+      onModel?.(model);
+      for await (const delta of provider.stream(model, messages, completionOptions)) {
+        yielded += delta.length;
+        yield delta;
+      }
+      console.log(`Streamed ${yielded} chars from ${model} via ${provider.name}`);
+      return;
+    } catch (error) {
+      if (yielded > 0 || !(error instanceof ProviderError) || error.kind === 'fatal') throw error;
+      console.log(`${error.message}, trying next...`);
+    }
+  }
+
+  throw new Error('All models are currently busy. Please wait 30 seconds and try again.');
+}
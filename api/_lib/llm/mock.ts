@@ -0,0 +1,321 @@
+import type { ChatMessage, CompletionOptions, LLMProvider } from './types.js';
+
+/**
+ * Deterministic offline provider (LLM_PROVIDER=mock).
+ *
+ * Generation requests get fixture questions built from sentences of the
+ * uploaded material, so the whole generate → practice → history flow works
+ * without a network or API key. The same input always produces the same quiz.
+ */
+
+// Used when the material has no usable sentences
+const FIXTURE_QUESTIONS = [
+  {
+    type: 'multiple-choice',
+    question: 'Which study technique spaces reviews of the same material over increasing intervals?',
+    options: ['Spaced repetition', 'Cramming', 'Highlighting', 'Re-reading'],
+    correctAnswer: 0,
+    explanation: 'Spaced repetition schedules reviews at growing intervals to strengthen recall.',
+    topic: 'Study techniques',
+  },
+  {
+    type: 'true-false',
+    question: 'Retrieval practice is generally more effective than passive re-reading.',
+    options: ['True', 'False'],
+    correctAnswer: 0,
+    explanation: 'Actively recalling information strengthens memory more than reviewing it.',
+    topic: 'Study techniques',
+  },
+  {
+    type: 'fill-blank',
+    question: 'Explaining a concept in simple terms to find gaps in understanding is called the ____ technique.',
+    options: [],
+    correctAnswer: 'Feynman',
+    explanation: 'The Feynman technique exposes gaps by forcing a plain-language explanation.',
+    topic: 'Study techniques',
+  },
+  {
+    type: 'short-answer',
+    question: 'Why does interleaving different problem types help long-term learning?',
+    options: [],
+    correctAnswer: 'It forces you to choose the right strategy for each problem, which builds discrimination between concepts.',
+    explanation: 'Interleaving trains recognising which method applies, not just executing one.',
+    topic: 'Study techniques',
+  },
+];
+
+const QUESTION_TYPES = ['multiple-choice', 'multi-select', 'true-false', 'fill-blank', 'short-answer', 'numeric', 'essay', 'matching', 'ordering', 'cloze'];
+
+function textOf(messages: ChatMessage[], role: ChatMessage['role']): string {
+  return messages.filter(m => m.role === role).map(m => m.content).join('\n');
+}
+
+function extractSentences(material: string): string[] {
+  const seen = new Set<string>();
+  return material
+    .replace(/\[(Page|Slide|Notes) \d+\]/g, ' ')
+    .replace(/^=== .* ===$/gm, ' ')
+    .split(/(?<=[.!?])\s+/)
+    .map(s => s.replace(/\s+/g, ' ').trim())
+    .filter(s => s.length >= 40 && s.length <= 300 && /^[A-Z]/.test(s))
+    .filter(s => !seen.has(s) && seen.add(s));
+}
+
+// The longest word is usually the most content-bearing one to blank out
+function keyWord(sentence: string): string {
+  const words: string[] = sentence.match(/[A-Za-z][A-Za-z-]{4,}/g) || [];
+  return words.reduce((best, w) => (w.length > best.length ? w : best), '');
+}
+
+// A question as a model would return it, before validation
+type RawQuestion = Record<string, unknown>;
+
+function questionsFrom(material: string, count: number, types: string[], avoid: string, typeOffset = 0, templates = false): RawQuestion[] {
+  const sentences = extractSentences(material);
+  const vocabulary = Array.from(new Set(sentences.map(keyWord).filter(Boolean)));
+  const questions: RawQuestion[] = [];
+
+  for (let i = 0; i < sentences.length && questions.length < count; i++) {
+    const sentence = sentences[i];
+    const answer = keyWord(sentence);
+    if (!answer) continue;
+
+    const blanked = sentence.replace(answer, '____');
+    const type = types[(typeOffset + questions.length) % types.length];
+    const topic = answer.charAt(0).toUpperCase() + answer.slice(1).toLowerCase();
+    let question: RawQuestion & { question: string };
+
+    if (type === 'multiple-choice') {
+      const distractors = vocabulary.filter(w => w !== answer).slice(i % 3, i % 3 + 3);
+      while (distractors.length < 3) distractors.push(['Process', 'Structure', 'Function'][distractors.length]);
+      question = {
+        type,
+        question: `Which term completes this statement from the material: "${blanked}"`,
+        options: [answer, ...distractors],
+        correctAnswer: 0,
+      };
+    } else if (type === 'multi-select') {
+      // Every word of the sentence that's also a key word elsewhere is a correct option
+      const inSentence = vocabulary.filter(w => sentence.includes(w)).slice(0, 3);
+      const others = vocabulary.filter(w => !sentence.includes(w)).slice(i % 3, i % 3 + 5 - inSentence.length);
+      if (others.length === 0) continue;
+      question = {
+        type,
+        question: `Which of these terms appear in this statement from the material: "${sentence}" Select all that apply.`,
+        options: [...inSentence, ...others],
+        correctAnswer: inSentence.map((_, n) => n),
+      };
+    } else if (type === 'true-false') {
+      question = { type, question: `True or false: ${sentence}`, options: ['True', 'False'], correctAnswer: 0 };
+    } else if (type === 'fill-blank') {
+      question = { type, question: blanked, options: [], correctAnswer: answer };
+    } else if (type === 'numeric' && templates) {
+      // Something to calculate with fresh values each attempt: reading time for the sentence
+      const words = sentence.split(/\s+/).length;
+      question = {
+        type,
+        question: `This statement from the material has ${words} words: "${sentence}" Reading at {w} words per minute, how many seconds does it take to read it {k} times?`,
+        unit: 's',
+        tolerance: 0.02,
+        toleranceType: 'relative',
+        template: {
+          variables: { w: { min: 120, max: 300, step: 20 }, k: { min: 2, max: 6 } },
+          formula: `${words} * k / w * 60`,
+          solution: `${words} words × {k} readings = {${words} * k} words; {${words} * k} ÷ {w} words per minute × 60 = {${words} * k / w * 60} s`,
+        },
+      };
+    } else if (type === 'numeric') {
+      // Material rarely has a number we can rely on — count its words instead
+      question = {
+        type,
+        question: `How many words are in this statement from the material: "${sentence}"`,
+        value: sentence.split(/\s+/).length,
+        unit: '',
+        tolerance: 0,
+        toleranceType: 'absolute',
+      };
+    } else if (type === 'matching' || type === 'ordering') {
+      // Built from this sentence and the next few, so they need some material left
+      const keys = new Set<string>();
+      const group = sentences.slice(i, i + 4).filter(s => keyWord(s) && !keys.has(keyWord(s)) && keys.add(keyWord(s)));
+      if (group.length < 3) continue;
+      question = type === 'matching'
+        ? {
+            type,
+            question: `Match each term from the material on ${answer.toLowerCase()} to the statement it completes.`,
+            pairs: group.map(s => ({ left: keyWord(s), right: s.replace(keyWord(s), '____') })),
+          }
+        : {
+            type,
+            question: `Put these statements about ${answer.toLowerCase()} in the order the material presents them.`,
+            steps: group,
+          };
+    } else if (type === 'cloze') {
+      // The next few sentences as one passage, each with its key word blanked
+      const keys = new Set<string>();
+      const group = sentences.slice(i, i + 4).filter(s => keyWord(s) && !keys.has(keyWord(s)) && keys.add(keyWord(s)));
+      if (group.length < 2) continue;
+      question = {
+        type,
+        question: group.map((s, n) => s.replace(keyWord(s), `{{${n + 1}}}`)).join(' '),
+        blanks: group.map(s => ({ answers: [keyWord(s)] })),
+      };
+    } else if (type === 'essay') {
+      question = {
+        type,
+        question: `Discuss the role of ${answer.toLowerCase()} as described in the material, and explain why it matters.`,
+        options: [],
+        correctAnswer: sentence,
+        rubric: [
+          { criterion: `Explains ${answer.toLowerCase()}`, points: 4, description: sentence },
+          { criterion: 'Explains why it matters', points: 3, description: 'Connects the idea to its consequences.' },
+          { criterion: 'Clear structure', points: 3, description: 'Argument is organised and easy to follow.' },
+        ],
+      };
+    } else {
+      question = {
+        type,
+        question: `In your own words, explain the point the material makes about ${answer.toLowerCase()}.`,
+        options: [],
+        correctAnswer: sentence,
+      };
+    }
+
+    // Previous runs on the same material move on to later sentences
+    if (avoid.includes(question.question.slice(0, 150))) continue;
+
+    const hints = [
+      `Think about what the material says about ${topic.toLowerCase()}.`,
+      `The answer starts with "${answer.slice(0, 2)}".`,
+      `The key sentence reads: "${blanked}"`,
+    ];
+    questions.push({ ...question, explanation: `From the material: "${sentence}"`, topic, excerpt: sentence, hints });
+  }
+
+  return questions;
+}
+
+function buildQuestions(system: string, user: string): RawQuestion[] {
+  const count = Number(system.match(/exactly (\d+) questions/)?.[1] || 10);
+  const requestedTypes = QUESTION_TYPES.filter(t => system.includes(`- ${t}:`));
+  const types = requestedTypes.length ? requestedTypes : ['multiple-choice'];
+  const avoid = user.split('DO NOT repeat these questions:')[1] || '';
+  const templates = system.includes('"template"');
+
+  // Sectioned material: [S3] label — N questions, then the text in """ quotes
+  const sections = Array.from(user.matchAll(/\[(S\d+)\][^\n]* — (\d+) questions?\n"""\n([\s\S]*?)\n"""/g));
+  const questions: RawQuestion[] = [];
+  if (sections.length) {
+    for (const [, id, n, text] of sections) {
+      // Keep rotating through the types across sections, not per section
+      const found = questionsFrom(text, Number(n), types, avoid, questions.length, templates);
+      questions.push(...found.map(q => ({ ...q, section: id })));
+    }
+  } else {
+    questions.push(...questionsFrom(user.match(/"""\n([\s\S]*?)\n"""/)?.[1] || '', count, types, avoid, 0, templates));
+  }
+
+  if (questions.length === 0) {
+    return Array.from({ length: Math.min(count, FIXTURE_QUESTIONS.length) }, (_, i) => FIXTURE_QUESTIONS[i]);
+  }
+
+  // Hand out categories in the proportions the prompt asked for
+  const categories = Array.from(system.matchAll(/^- ([a-z]+): (\d+) questions?$/gm))
+    .flatMap(([, name, n]) => Array(Number(n)).fill(name));
+  const withHints = system.includes('"hints"');
+  return questions.slice(0, count).map((q, i) => ({
+    ...(withHints ? q : { ...q, hints: undefined }),
+    ...(categories.length ? { category: categories[i % categories.length] } : {}),
+  }));
+}
+
+// Mock questions blank a word out of the excerpt sentence, so the blank can be
+// recovered by lining the two up. Anything else is left unanswered.
+function answerBlind(item: { n: number; type: string; question: string; options?: string[]; excerpt?: string }): Record<string, unknown> {
+  const n = item.n;
+  const excerpt: string = item.excerpt || '';
+  if (!excerpt) return { n };
+  if (item.type === 'true-false') return { n, answer: 0, note: 'The statement matches the material.' };
+  if (item.type === 'short-answer') return { n, answer: excerpt };
+  if (item.type === 'numeric') return { n, answer: String(excerpt.split(/\s+/).length) };
+  if (item.type === 'multi-select') {
+    return { n, answer: (item.options || []).map((o: string, i: number) => (excerpt.includes(o) ? i : -1)).filter((i: number) => i >= 0) };
+  }
+
+  const statement: string = item.question.match(/"(.*____.*)"/)?.[1] || item.question;
+  const [before, after = ''] = statement.split('____');
+  if (!excerpt.startsWith(before) || !excerpt.endsWith(after)) return { n };
+  const word = excerpt.slice(before.length, excerpt.length - after.length);
+
+  if (item.type === 'multiple-choice') {
+    const index = (item.options || []).indexOf(word);
+    return index >= 0 ? { n, answer: index } : { n, ambiguous: true, note: `None of the options is "${word}".` };
+  }
+  return { n, answer: word };
+}
+
+// Scores each criterion by how many of its description's longer words the answer uses
+function gradeByOverlap(user: string): Record<string, unknown> {
+  const rubric: { n: number; criterion: string; points: number; description?: string }[] = JSON.parse(user.match(/RUBRIC:\n(\[[\s\S]*?\])\n/)?.[1] || '[]');
+  const answer = (user.match(/STUDENT ANSWER:\n"""\n([\s\S]*)\n"""/)?.[1] || '').toLowerCase();
+  const words = answer.split(/\W+/).filter(w => w.length > 3).length;
+
+  const criteria = rubric.map(c => {
+    const keys: string[] = String(c.description || c.criterion).toLowerCase().match(/[a-z]{5,}/g) || [];
+    const hit = keys.length ? keys.filter(k => answer.includes(k)).length / keys.length : 0;
+    const share = Math.max(hit, Math.min(words / 80, 1) * 0.5);
+    return { n: c.n, awarded: Math.round(c.points * share), feedback: hit > 0.5 ? 'Covers the key points.' : 'Misses some of the key points from the material.' };
+  });
+  return { criteria, feedback: 'Graded offline by the mock provider from word overlap with the rubric.' };
+}
+
+function reply(messages: ChatMessage[], options: CompletionOptions): string {
+  const system = textOf(messages, 'system');
+  const user = textOf(messages, 'user');
+
+  if (options.task === 'repair-questions') {
+    // No model to fix anything — hand the items back so validation drops them
+    const items = user.match(/ITEMS:\n(\[[\s\S]*\])/)?.[1];
+    return JSON.stringify({ questions: items ? JSON.parse(items) : [] });
+  }
+
+  if (options.task === 'grade-essay') {
+    return JSON.stringify(gradeByOverlap(user));
+  }
+
+  if (options.task === 'verify-answers') {
+    const items = user.match(/QUESTIONS:\n(\[[\s\S]*\])/)?.[1];
+    return JSON.stringify({ answers: items ? JSON.parse(items).map(answerBlind) : [] });
+  }
+
+  if (options.json) {
+    return JSON.stringify({ questions: buildQuestions(system, user) });
+  }
+
+  const lastUser = messages.filter(m => m.role === 'user').pop()?.content || '';
+  return `### Mock response\n\nYou asked: *${lastUser.slice(0, 200)}*\n\n` +
+    `This reply comes from the offline mock provider (\`LLM_PROVIDER=mock\`). ` +
+    `Set \`LLM_PROVIDER=openrouter\` or point \`LLM_BASE_URL\` at a local model for real answers.`;
+}
+
+export function createMockProvider(): LLMProvider {
+  return {
+    name: 'mock',
+    models: ['mock/fixtures'],
+
+    async complete(model, messages, options) {
+      options.signal?.throwIfAborted();
+      return { content: reply(messages, options), model };
+    },
+
+    async *stream(model, messages, options) {
+      const content = reply(messages, options);
+      // Small chunks with a short delay so streaming UIs have something to show
+      for (let i = 0; i < content.length; i += 64) {
+        await new Promise(r => setTimeout(r, 10));
+        options.signal?.throwIfAborted();
+        yield content.slice(i, i + 64);
+      }
+    },
+  };
+}
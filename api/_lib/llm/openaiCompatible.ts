@@ -0,0 +1,140 @@
+import { type ChatMessage, type CompletionOptions, type LLMProvider, ProviderError } from './types.js';
+
+export interface OpenAICompatibleConfig {
+  name: string;
+  /** e.g. https://openrouter.ai/api/v1 or http://localhost:11434/v1 */
+  baseUrl: string;
+  apiKey?: string;
+  models: string[];
+  headers?: Record<string, string>;
+  /** Extra fields merged into every request body */
+  extraBody?: Record<string, unknown>;
+}
+
+// The parts of an OpenAI-style response body (or stream chunk) read here
+interface APIError {
+  message?: string;
+  code?: number;
+}
+
+interface ResponseBody {
+  error?: APIError;
+  model?: string;
+  choices?: { message?: { content?: string }; delta?: { content?: string } }[];
+}
+
+/**
+ * Provider for any server that speaks the OpenAI /chat/completions protocol —
+ * OpenRouter, Ollama, llama.cpp's server, vLLM, LM Studio, etc.
+ */
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): LLMProvider {
+  const url = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const requestInit = (model: string, messages: ChatMessage[], options: CompletionOptions, stream: boolean): RequestInit => ({
+    method: 'POST',
+    signal: options.signal,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}),
+      ...config.headers,
+    },
+    body: JSON.stringify({
+      model,
+      messages,
+      temperature: options.temperature ?? 0.7,
+      max_tokens: options.maxTokens ?? 8192,
+      ...(options.json ? { response_format: { type: 'json_object' } } : {}),
+      ...(stream ? { stream: true } : {}),
+      ...config.extraBody,
+    })
+  });
+
+  const toError = async (response: Response, model: string): Promise<ProviderError> => {
+    if (response.status === 429) {
+      return new ProviderError('rate_limited', `Rate limited on ${model}`, 429);
+    }
+    const errorData: ResponseBody = await response.json().catch(() => ({}));
+    const msg = errorData.error?.message || response.statusText;
+    // Model not found or unavailable — skip to next model
+    if (response.status === 404 || msg.includes('No endpoints')) {
+      return new ProviderError('unavailable', `Model ${model} not available`, response.status);
+    }
+    console.error(`API error (${response.status}):`, msg);
+    return new ProviderError('fatal', msg, response.status);
+  };
+
+  const isRateLimit = (error: APIError) => error.message?.includes('rate') || error.code === 429;
+
+  return {
+    name: config.name,
+    models: config.models,
+
+    async complete(model, messages, options) {
+      const response = await fetch(url, requestInit(model, messages, options, false));
+      if (!response.ok) throw await toError(response, model);
+
+      const completion: ResponseBody = await response.json();
+      if (completion.error) {
+        if (isRateLimit(completion.error)) throw new ProviderError('rate_limited', completion.error.message || 'Rate limited', 429);
+        console.error(`${config.name} error:`, completion.error);
+        throw new ProviderError('fatal', completion.error.message || 'API returned an error');
+      }
+
+      const content = completion.choices?.[0]?.message?.content;
+      if (!content) throw new ProviderError('empty', `Empty response from ${model}`);
+
+      return { content, model: completion.model || model };
+    },
+
+    async *stream(model, messages, options) {
+      const response = await fetch(url, requestInit(model, messages, options, true));
+      if (!response.ok || !response.body) throw await toError(response, model);
+
+      // Server-Sent Events: "data: {json}" lines, ": comment" keep-alives,
+      // and a final "data: [DONE]"
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let yielded = 0;
+
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+
+          let newline: number;
+          while ((newline = buffer.indexOf('\n')) >= 0) {
+            const line = buffer.slice(0, newline).trim();
+            buffer = buffer.slice(newline + 1);
+            if (!line.startsWith('data:')) continue;
+
+            const payload = line.slice(5).trim();
+            if (payload === '[DONE]') continue;
+
+            let chunk: ResponseBody;
+            try { chunk = JSON.parse(payload); } catch { continue; }
+
+            if (chunk.error) {
+              // Before any text, a rate limit is still recoverable by the fallback loop
+              if (yielded === 0 && isRateLimit(chunk.error)) {
+                throw new ProviderError('rate_limited', chunk.error.message || 'Rate limited', 429);
+              }
+              throw new Error(chunk.error.message || 'API returned an error');
+            }
+
+            const delta = chunk.choices?.[0]?.delta?.content;
+            if (delta) {
+              yielded += delta.length;
+              yield delta;
+            }
+          }
+        }
+      } finally {
+        await reader.cancel().catch(() => {});
+      }
+
+      if (yielded === 0) throw new ProviderError('empty', `Empty stream from ${model}`);
+    },
+  };
+}
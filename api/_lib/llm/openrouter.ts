@@ -0,0 +1,27 @@
+import type { LLMProvider } from './types.js';
+import { createOpenAICompatibleProvider } from './openaiCompatible.js';
+
+// Fallback chain: if one model is rate-limited, try the next
+// Updated Feb 2026 — only models verified available on OpenRouter
+export const OPENROUTER_MODELS = [
+  'openrouter/free',                                    // Smart router — auto-picks best available free model
+  'meta-llama/llama-3.3-70b-instruct:free',             // Llama 3.3 70B
+  'mistralai/mistral-small-3.1-24b-instruct:free',      // Mistral Small 3.1 24B
+  'google/gemma-3-27b-it:free',                         // Gemma 3 27B
+  'nousresearch/hermes-3-llama-3.1-405b:free',          // Hermes 3 405B
+  'qwen/qwen3-next-80b-a3b-instruct:free',              // Qwen3 80B
+];
+
+export function createOpenRouterProvider(apiKey: string, models: string[] = OPENROUTER_MODELS): LLMProvider {
+  return createOpenAICompatibleProvider({
+    name: 'openrouter',
+    baseUrl: 'https://openrouter.ai/api/v1',
+    apiKey,
+    models,
+    headers: {
+      'HTTP-Referer': 'https://studywiz.app',
+      'X-Title': 'StudyWiz'
+    },
+    extraBody: { provider: { require_parameters: false } },
+  });
+}
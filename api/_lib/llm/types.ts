@@ -0,0 +1,54 @@
+// Provider-agnostic types for talking to a chat-completion model.
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionOptions {
+  temperature?: number;
+  maxTokens?: number;
+  /** Ask the model for a JSON object response (response_format: json_object) */
+  json?: boolean;
+  /** What the call is for, e.g. 'repair-questions'. Only the mock provider reads it. */
+  task?: string;
+  /** Aborts the request — and any retries still to come — once the client has gone */
+  signal?: AbortSignal;
+}
+
+export interface Completion {
+  content: string;
+  model: string;
+}
+
+/**
+ * One backend that can run chat completions. Each call is a single attempt
+ * against a single model — retry and fallback across `models` is handled
+ * generically in ./index.ts so every provider behaves the same way.
+ */
+export interface LLMProvider {
+  readonly name: string;
+  /** Fallback chain, tried in order */
+  readonly models: string[];
+  complete(model: string, messages: ChatMessage[], options: CompletionOptions): Promise<Completion>;
+  /** Yields content deltas as they arrive */
+  stream(model: string, messages: ChatMessage[], options: CompletionOptions): AsyncGenerator<string>;
+}
+
+/**
+ * Thrown by providers to tell the fallback loop what to do next:
+ *  - rate_limited: back off and retry, then move to the next model
+ *  - unavailable:  model missing on this backend — skip straight to the next one
+ *  - empty:        model answered with nothing — retry
+ *  - fatal:        bad key, bad request, etc. — stop and surface to the user
+ */
+export class ProviderError extends Error {
+  constructor(
+    public kind: 'rate_limited' | 'unavailable' | 'empty' | 'fatal',
+    message: string,
+    public status?: number
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
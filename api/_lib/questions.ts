@@ -0,0 +1,549 @@
+// Prompting, parsing and post-processing shared by the question generation endpoints.
+
+import { type ChatMessage, type LLMProvider, completeWithFallback } from './llm/index.js';
+import { type InvalidQuestion, type ValidQuestion, type DroppedQuestion, type ValidationRules, validateQuestions, questionItems, toDropped } from './schema.js';
+import { type ClozeBlank, type MatchingPair, type QuestionCategory, type RubricCriterion, defaultGenerationConfig } from '../../src/types/questions.js';
+import { allocateByWeight, allocateCategories, buildCategoryInstructions } from '../../src/lib/questionGenerator.js';
+import { type NumericKey, formatNumericKey } from '../../src/lib/numericAnswer.js';
+import { type MathTemplate, evaluate } from '../../src/lib/mathTemplate.js';
+import { type PlannedSection, type QuestionSource, type SectionWeights, planMaterial, allocateQuestions, planBatches } from '../../src/lib/sections.js';
+import { createNearDuplicateFilter } from '../../src/lib/nearDuplicate.js';
+
+export interface GenerateRequest {
+  extractedText: string;
+  config: {
+    questionTypes: string[];
+    questionCount: number;
+    /** Questions wanted per type — scaled to questionCount if they don't add up to it. Even split when omitted */
+    typeCounts?: Record<string, number>;
+    difficulty: string;
+    previousTopics?: string[];
+    previousQuestions?: string[];
+    /** Run the blind answer-key check (see ./verify.ts) before returning questions */
+    verifyAnswers?: boolean;
+    /** Share of questions per category — defaults to defaultGenerationConfig */
+    categoryWeights?: Partial<Record<QuestionCategory, number>>;
+    avoidSimpleRecall?: boolean;
+    /** Generate only this batch of the plan — the client runs large quizzes a few batches at a time */
+    batch?: number;
+    /** Topics picked by the student, as weights by section id — 0 leaves a section out */
+    sectionWeights?: SectionWeights;
+    /** Ask for up to three progressive hints per question */
+    includeHints?: boolean;
+    /** Material has formulas — numeric questions may come back as templates with variables */
+    mathTemplates?: boolean;
+  };
+}
+
+export type GenerateConfig = GenerateRequest['config'];
+
+export function validationRules(config: GenerateConfig): ValidationRules {
+  return { avoidSimpleRecall: config.avoidSimpleRecall ?? defaultGenerationConfig.avoidSimpleRecall };
+}
+
+export interface Question {
+  id: string;
+  type: string;
+  question: string;
+  options: string[];
+  /** Option index for MC/TF, indices for multi-select, text otherwise */
+  correctAnswer: number | string | number[];
+  explanation?: string;
+  topic?: string;
+  /** Id of the material section the question was written from */
+  section?: string;
+  source?: QuestionSource;
+  /** Outcome of the answer-key check, when it was requested */
+  verified?: 'verified' | 'disputed' | 'ambiguous' | 'unchecked';
+  verificationNote?: string;
+  category?: QuestionCategory;
+  /** Essay scoring guide — correctAnswer holds the model answer */
+  rubric?: RubricCriterion[];
+  /** Revealed one at a time during practice, vaguest first */
+  hints?: string[];
+  /** Matching: left[i] belongs with right[i]; the client shuffles the right column */
+  pairs?: MatchingPair[];
+  /** Ordering: steps in their correct sequence; the client shuffles them */
+  steps?: string[];
+  /** Cloze: accepted answers for each {{n}} marker in the question text */
+  blanks?: ClozeBlank[];
+  /** Numeric: canonical value, tolerance and unit the answer is graded against */
+  numeric?: NumericKey;
+  /** Numeric: {placeholders} in the question are redrawn on every attempt and numeric.value recomputed */
+  template?: MathTemplate;
+}
+
+// --- Section planning ---
+export interface GenerationBatch {
+  sections: PlannedSection[];
+  count: number;
+}
+
+/**
+ * Split the material into sections, give each a share of the questions
+ * proportional to its size (and the student's topic weights) and group them
+ * into model calls. Replaces the old start/middle/end condensing, which never
+ * asked about the rest of the text.
+ */
+export function planGeneration(extractedText: string, questionCount: number, weights?: SectionWeights): { planned: PlannedSection[]; batches: GenerationBatch[] } {
+  const { planned, batches } = planMaterial(extractedText, questionCount, weights);
+  return { planned, batches: batches.map(toGenerationBatch) };
+}
+
+const toGenerationBatch = (sections: PlannedSection[]): GenerationBatch => ({
+  sections,
+  count: sections.reduce((sum, s) => sum + s.count, 0),
+});
+
+/**
+ * Re-plan `count` questions over the sections a run already covered, for a
+ * top-up round after the regular batches came up short.
+ */
+export function planTopUp(batches: GenerationBatch[], count: number): GenerationBatch[] {
+  return planBatches(allocateQuestions(batches.flatMap(b => b.sections), count)).map(toGenerationBatch);
+}
+
+// --- Type distribution ---
+/** How many questions of each requested type the whole run should produce */
+export function targetTypeCounts(config: GenerateConfig): Record<string, number> {
+  const weights = Object.fromEntries(config.questionTypes.map(t => [t, config.typeCounts ? config.typeCounts[t] ?? 0 : 1]));
+  const counts = allocateByWeight(weights, config.questionCount) as Record<string, number>;
+  return Object.keys(counts).length ? counts : allocateByWeight(Object.fromEntries(config.questionTypes.map(t => [t, 1])), config.questionCount) as Record<string, number>;
+}
+
+export interface TypeQuota {
+  /** Count a question in if its type still has room; false means drop it */
+  take(type: string): boolean;
+  /** Types still short of their target, with how many are missing */
+  missing(): Record<string, number>;
+  /** Split a batch of `count` questions across the types still missing */
+  forBatch(count: number): Record<string, number>;
+}
+
+/**
+ * Track questions per type against the targets. Extras of a type that's
+ * already full are turned away; shortfalls are asked for again in a top-up
+ * round once the regular batches are done.
+ */
+export function createTypeQuota(targets: Record<string, number>): TypeQuota {
+  const produced: Record<string, number> = {};
+  const missing = () => Object.fromEntries(
+    Object.entries(targets)
+      .map(([type, n]) => [type, n - (produced[type] || 0)] as const)
+      .filter(([, n]) => n > 0)
+  );
+  return {
+    take(type) {
+      if ((produced[type] || 0) >= (targets[type] || 0)) return false;
+      produced[type] = (produced[type] || 0) + 1;
+      return true;
+    },
+    missing,
+    forBatch(count) {
+      const left = missing();
+      const total = Object.values(left).reduce((sum, n) => sum + n, 0);
+      return allocateByWeight(left, Math.min(count, total)) as Record<string, number>;
+    },
+  };
+}
+
+/**
+ * The batches this request should run and the questions per type they
+ * should produce: the whole plan, or just config.batch with its share of the
+ * type targets (split across batches in plan order).
+ */
+export function scopeRun(config: GenerateConfig, batches: GenerationBatch[]): { batches: GenerationBatch[]; targets: Record<string, number> } {
+  const targets = targetTypeCounts(config);
+  if (config.batch === undefined) return { batches, targets };
+
+  const quota = createTypeQuota(targets);
+  const shares = batches.map(b => {
+    const share = quota.forBatch(b.count);
+    Object.entries(share).forEach(([type, n]) => { for (let i = 0; i < n; i++) quota.take(type); });
+    return share;
+  });
+  const batch = batches[config.batch];
+  return batch ? { batches: [batch], targets: shares[config.batch] } : { batches: [], targets: {} };
+}
+
+export function buildSystemPrompt(questionCount: number, config: GenerateConfig, typeCounts?: Record<string, number>): string {
+  const { questionTypes, difficulty } = config;
+  const categories = buildCategoryInstructions(
+    allocateCategories(config.categoryWeights ?? defaultGenerationConfig.categoryWeights, questionCount),
+    validationRules(config).avoidSimpleRecall ?? false
+  );
+  const includeHints = config.includeHints ?? defaultGenerationConfig.includeHints;
+  const mathTemplates = config.mathTemplates ?? false;
+  const typeDistribution = typeCounts
+    ? Object.entries(typeCounts).filter(([, n]) => n > 0).map(([type, n]) => `- ${type}: exactly ${n} question${n === 1 ? '' : 's'}`).join('\n')
+    : questionTypes.map(type => {
+        const count = Math.ceil(questionCount / questionTypes.length);
+        return `- ${type}: approximately ${count} questions`;
+      }).join('\n');
+
+  return `You are an expert exam creator. Output ONLY valid JSON — no markdown, no backticks, no extra text.
+
+RULES:
+1. Create exactly ${questionCount} questions. Each MUST test a DIFFERENT concept.
+2. Question types:\n${typeDistribution}
+3. Difficulty: ${difficulty}
+4. For multiple-choice: use 4 distinct options (without letter prefixes) and vary correct answer positions.
+5. For true-false: options are exactly ["True","False"].
+   For multi-select ("select all that apply"): 4-6 distinct options, correctAnswer is an array of every correct 0-based index, with at least one correct and one incorrect option.
+6. Every question needs non-empty question text and a correct answer.
+7. Keep explanations brief (1 sentence).
+8. The material is split into sections like [S3]. Write the number of questions listed for each section, from that section only, and set "section" to its id.
+9. Set "excerpt" to a short verbatim quote (under 200 characters) from the section that supports the correct answer.
+10. Question text must be a complete sentence ending in "?" or ".".
+11. For essay: correctAnswer is a model answer of one or two paragraphs, and "rubric" lists 3-5 criteria, each {"criterion":"...","points":1-10,"description":"what earns full marks"}.
+12. For numeric: set "value" (a number), "unit" (standard symbol such as "m/s^2", or "" if unitless) and "tolerance" with "toleranceType" ("absolute" or "relative") for how far off an answer may be. Omit correctAnswer.
+13. For matching: "pairs" lists 3-6 {"left":"term","right":"its match"} in matching order. For ordering: "steps" lists 3-8 steps of a process or timeline in the correct order. Both omit correctAnswer.
+14. For cloze: "question" is a paragraph of 2-5 sentences quoted from the section with 2-6 key terms replaced by {{1}}, {{2}}, … in reading order; "blanks" lists {"answers":["the removed term","accepted synonym",...]} for each marker in the same order. Omit correctAnswer.${includeHints ? `
+15. Set "hints" to up to 3 hints that each give away more: the first a gentle nudge, the last nearly the answer. Never state the answer itself.` : ''}${mathTemplates && questionTypes.includes('numeric') ? `
+${includeHints ? 16 : 15}. The material has calculations, so write numeric questions that apply a formula as templates instead of using a fixed "value": put variables in the question as {name}, e.g. "A ball is thrown upward at {v} m/s. How high does it rise?", and add "template": {"variables":{"v":{"min":5,"max":30,"step":1}},"formula":"v^2 / (2 * 9.81)","solution":"h = {v}^2 / (2 × 9.81) = {v^2 / (2 * 9.81)} m"}. The formula uses + - * / ^, parentheses, sqrt, sin/cos/tan (radians), ln, log, exp, abs, pi and e. The solution is a worked solution where {expression} is replaced by its value. Pick ranges that keep every answer physically sensible.` : ''}
+
+${categories}
+
+JSON FORMAT:
+{"questions":[{"id":"q1","type":"multiple-choice","question":"...","options":["option text","option text","option text","option text"],"correctAnswer":0,"explanation":"...","topic":"...","section":"S1","excerpt":"...","category":"analytical"${includeHints ? ',"hints":["...","...","..."]' : ''}}]}
+
+Types: "multiple-choice" | "multi-select" | "true-false" | "fill-blank" | "short-answer" | "numeric" | "essay" | "matching" | "ordering" | "cloze"
+correctAnswer: number (0-based index) for MC/TF, array of indices for multi-select, string for fill-blank/short-answer/essay.`;
+}
+
+export function buildUserPrompt(
+  sections: PlannedSection[],
+  questionCount: number,
+  previousQuestions?: string[]
+): string {
+  const avoidSection = previousQuestions?.length
+    ? `\nDO NOT repeat these questions:\n${previousQuestions.slice(-30).join('\n')}\n`
+    : '';
+
+  const material = sections
+    .map(s => `[${s.id}] ${s.label} — ${s.count} question${s.count === 1 ? '' : 's'}\n"""\n${s.text}\n"""`)
+    .join('\n\n');
+
+  return `STUDY MATERIAL:\n${material}\n${avoidSection}
+Generate ${questionCount} unique questions from the sections above, following each section's count. Each must test a different concept.`;
+}
+
+export function tryRepairJSON(jsonString: string): unknown {
+  try { return JSON.parse(jsonString); } catch { /* not plain JSON — repair below */ }
+
+  let repaired = jsonString.trim();
+
+  // Strip markdown code fences (```json ... ``` or ``` ... ```)
+  repaired = repaired.replace(/^```(?:json)?\s*/i, '').replace(/\s*```\s*$/i, '');
+  try { return JSON.parse(repaired); } catch { /* keep repairing */ }
+
+  // Extract JSON block from markdown if wrapped in text
+  const fenceMatch = jsonString.match(/```(?:json)?\s*([\s\S]*?)\s*```/i);
+  if (fenceMatch) {
+    try { return JSON.parse(fenceMatch[1]); } catch { /* keep repairing */ }
+  }
+
+  // Find the JSON object that contains "questions"
+  const qStart = repaired.indexOf('{"questions"');
+  if (qStart >= 0) {
+    repaired = repaired.substring(qStart);
+  } else {
+    // Find first { character
+    const braceStart = repaired.indexOf('{');
+    if (braceStart >= 0) repaired = repaired.substring(braceStart);
+  }
+
+  // Trim any trailing text after the JSON
+  const lastBrace = repaired.lastIndexOf('}');
+  if (lastBrace >= 0 && lastBrace < repaired.length - 1) {
+    repaired = repaired.substring(0, lastBrace + 1);
+  }
+
+  try { return JSON.parse(repaired); } catch { /* keep repairing */ }
+
+  // Try to truncate at last complete question object and close
+  const lastComplete = repaired.lastIndexOf('},');
+  if (lastComplete > 0) {
+    const truncated = repaired.substring(0, lastComplete + 1) + ']}';
+    try { return JSON.parse(truncated); } catch { /* keep repairing */ }
+  }
+
+  // Brute force: close unclosed brackets/braces
+  let braces = 0, brackets = 0, inStr = false, esc = false;
+  for (const c of repaired) {
+    if (esc) { esc = false; continue; }
+    if (c === '\\') { esc = true; continue; }
+    if (c === '"') { inStr = !inStr; continue; }
+    if (inStr) continue;
+    if (c === '{') braces++; if (c === '}') braces--;
+    if (c === '[') brackets++; if (c === ']') brackets--;
+  }
+  if (inStr) repaired += '"';
+  while (brackets > 0) { repaired += ']'; brackets--; }
+  while (braces > 0) { repaired += '}'; braces--; }
+
+  try { return JSON.parse(repaired); } catch (e) {
+    console.error('JSON repair failed. First 500 chars:', repaired.substring(0, 500));
+    console.error('Last 200 chars:', repaired.substring(repaired.length - 200));
+    throw new Error('Failed to parse AI response as JSON');
+  }
+}
+
+// --- Deduplication ---
+function normalizeQ(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9\s]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Returns a predicate that accepts each question at most once, rejecting exact
+ * repeats and near-duplicates (MinHash, see src/lib/nearDuplicate.ts) of
+ * anything it has already accepted or of `previous` — questions the student
+ * got from earlier quizzes on the same material. Stateful so the streaming
+ * endpoint can filter questions one at a time as they arrive.
+ */
+export function createDeduper(previous: string[] = []): (q: { question?: string }) => boolean {
+  const seen = new Set<string>();
+  const isFresh = createNearDuplicateFilter(previous);
+  return (q) => {
+    const text = q.question || '';
+    const norm = normalizeQ(text).replace(/\s/g, '').slice(0, 120);
+    if (!norm || seen.has(norm) || !isFresh(text)) return false;
+    seen.add(norm);
+    return true;
+  };
+}
+
+// --- Shuffle MC options and normalize ---
+export type SourceCiter = (sectionId?: string, excerpt?: string) => QuestionSource | undefined;
+
+// Every field any question type can have, so one function can read them all
+// without first narrowing by type. Without strictNullChecks zod infers nested
+// fields as optional, so the schema-checked ones are cast back below.
+type FieldsOf<T> = { [K in T extends unknown ? keyof T : never]?: T extends unknown ? (K extends keyof T ? T[K] : never) : never };
+
+export function normalizeQuestion(valid: ValidQuestion, i: number, cite?: SourceCiter): Question {
+  const q: FieldsOf<ValidQuestion> = valid;
+  const type = valid.type;
+  const options = Array.isArray(q.options)
+    ? q.options.map(o => String(o).replace(/^[A-Da-d][.)]\s*/, '').trim())
+    : [];
+  let correctAnswer: Question['correctAnswer'] = q.correctAnswer ?? 0;
+
+  const shuffles = (type === 'multiple-choice' && typeof correctAnswer === 'number') ||
+    (type === 'multi-select' && Array.isArray(correctAnswer));
+  if (shuffles && options.length >= 2) {
+    const indices = options.map((_, idx) => idx);
+    for (let j = options.length - 1; j > 0; j--) {
+      const k = Math.floor(Math.random() * (j + 1));
+      [options[j], options[k]] = [options[k], options[j]];
+      [indices[j], indices[k]] = [indices[k], indices[j]];
+    }
+    correctAnswer = Array.isArray(q.correctAnswer)
+      ? q.correctAnswer.map(c => indices.indexOf(c)).sort((a, b) => a - b)
+      : indices.indexOf(q.correctAnswer as number);
+  }
+
+  // Matching and ordering keep their key in pairs/steps — spell it out for display
+  if (type === 'matching' && Array.isArray(q.pairs)) {
+    correctAnswer = q.pairs.map((p: MatchingPair) => `${p.left} → ${p.right}`).join('; ');
+  } else if (type === 'ordering' && Array.isArray(q.steps)) {
+    correctAnswer = q.steps.join(' → ');
+  } else if (type === 'cloze' && Array.isArray(q.blanks)) {
+    correctAnswer = q.blanks.map((b: ClozeBlank, n: number) => `${n + 1}. ${b.answers[0]}`).join('; ');
+  }
+
+  // A template has no fixed value — keep the answer at the low end of every
+  // range as a placeholder and show the formula as the key
+  const template: MathTemplate | undefined = type === 'numeric' && q.template ? q.template as MathTemplate : undefined;
+  const value = template
+    ? evaluate(template.formula, Object.fromEntries(Object.entries(template.variables).map(([name, v]) => [name, v.min])))
+    : q.value;
+  const numeric: NumericKey | undefined = type === 'numeric' && typeof value === 'number'
+    ? {
+        value,
+        ...(q.tolerance !== undefined ? { tolerance: q.tolerance, toleranceType: q.toleranceType ?? 'absolute' } : {}),
+        ...(q.unit ? { unit: q.unit } : {}),
+      }
+    : undefined;
+  if (numeric) correctAnswer = template ? `${template.formula}${numeric.unit ? ` ${numeric.unit}` : ''}` : formatNumericKey(numeric);
+
+  const question: Question = {
+    id: `q${Date.now()}_${i}`,
+    type,
+    question: q.question || '',
+    options,
+    correctAnswer,
+    explanation: q.explanation || '',
+    topic: q.topic || '',
+    ...(q.section ? { section: String(q.section) } : {}),
+    ...(q.category ? { category: q.category as QuestionCategory } : {}),
+    ...(type === 'essay' && Array.isArray(q.rubric) ? { rubric: q.rubric as RubricCriterion[] } : {}),
+    ...(Array.isArray(q.hints) && q.hints.length ? { hints: q.hints } : {}),
+    ...(type === 'matching' && Array.isArray(q.pairs) ? { pairs: q.pairs as MatchingPair[] } : {}),
+    ...(type === 'ordering' && Array.isArray(q.steps) ? { steps: q.steps } : {}),
+    ...(type === 'cloze' && Array.isArray(q.blanks) ? { blanks: q.blanks as ClozeBlank[] } : {}),
+    ...(numeric ? { numeric } : {}),
+    ...(template ? { template } : {}),
+  };
+  const source = cite?.(question.section, q.excerpt);
+  if (source) question.source = source;
+  return question;
+}
+
+/**
+ * Incremental parser for a streamed {"questions":[...]} response.
+ *
+ * Feed it raw model output as it arrives; each call returns the question
+ * objects that became complete since the last call. Tracks string/escape
+ * state so braces inside question text don't confuse the depth count.
+ */
+export class QuestionStreamParser {
+  private text = '';
+  private pos = 0;
+  private inArray = false;
+  private depth = 0;
+  private objStart = -1;
+  private inStr = false;
+  private esc = false;
+  emitted = 0;
+
+  push(chunk: string): unknown[] {
+    this.text += chunk;
+    const out: unknown[] = [];
+
+    if (!this.inArray) {
+      const key = this.text.indexOf('"questions"');
+      if (key < 0) return out;
+      const bracket = this.text.indexOf('[', key);
+      if (bracket < 0) return out;
+      this.inArray = true;
+      this.pos = bracket + 1;
+    }
+
+    for (; this.pos < this.text.length; this.pos++) {
+      const c = this.text[this.pos];
+      if (this.esc) { this.esc = false; continue; }
+      if (this.inStr) {
+        if (c === '\\') this.esc = true;
+        else if (c === '"') this.inStr = false;
+        continue;
+      }
+      if (c === '"') { this.inStr = true; continue; }
+      if (c === '{') {
+        if (this.depth === 0) this.objStart = this.pos;
+        this.depth++;
+      } else if (c === '}') {
+        this.depth--;
+        if (this.depth === 0 && this.objStart >= 0) {
+          try {
+            out.push(JSON.parse(this.text.slice(this.objStart, this.pos + 1)));
+          } catch {
+            console.log('Skipping unparseable streamed question');
+          }
+          this.objStart = -1;
+        }
+      }
+    }
+
+    this.emitted += out.length;
+    return out;
+  }
+
+  /** Everything received so far — used for a final repair pass */
+  get raw(): string {
+    return this.text;
+  }
+}
+
+// --- Validation + targeted re-ask ---
+function buildRepairMessages(invalid: InvalidQuestion[], config: GenerateConfig): ChatMessage[] {
+  const { questionTypes } = config;
+  const problems = invalid.map((q, i) => `${i + 1}. ${q.issues.join('; ')}`).join('\n');
+  return [
+    { role: 'system', content: `You are correcting quiz questions that failed validation. Output ONLY valid JSON — no markdown, no backticks, no extra text.
+
+Return {"questions":[...]} with exactly one corrected question per input item, in the same order.
+Keep each question's topic, intent, "section", "excerpt", "category" and "hints"; fix only the listed problems.
+
+RULES:
+- Allowed types: ${questionTypes.map(t => `"${t}"`).join(' | ')}
+- multiple-choice: 4 distinct options, correctAnswer is the 0-based index of the correct option
+- multi-select: 4-6 distinct options, correctAnswer is an array of the 0-based indices of every correct option (at least one, not all)
+- true-false: options are exactly ["True","False"], correctAnswer is 0 or 1
+- fill-blank / short-answer: correctAnswer is a non-empty string
+- essay: correctAnswer is a model answer and "rubric" is 2-6 criteria of {"criterion","points" (whole number 1-10),"description"}
+- numeric: "value" is a number, "unit" a standard symbol or "", optional "tolerance" (non-negative) with "toleranceType" "absolute" | "relative"
+- numeric templates: instead of "value", "template" is {"variables":{"name":{"min","max","step"}},"formula","solution"}; the question uses every variable as {name}, and the formula uses only those variables, numbers, + - * / ^, parentheses and sqrt/sin/cos/tan/ln/log/exp/abs/pi/e
+- matching: "pairs" is 3-6 distinct {"left","right"} items; ordering: "steps" is 3-8 distinct steps in the correct order
+- cloze: the question text holds markers {{1}} … {{n}} in order, and "blanks" has one {"answers":[...]} per marker (2-8 blanks, 1-6 accepted answers each)
+- question text must be a complete, non-empty question ending in "?" or "."${validationRules(config).avoidSimpleRecall ? `
+- no simple recall questions ("What is…", "Define…", "List…") — ask about causes, implications or applications instead` : ''}` },
+    { role: 'user', content: `PROBLEMS:\n${problems}\n\nITEMS:\n${JSON.stringify(invalid.map(q => q.item))}` },
+  ];
+}
+
+/**
+ * Validate raw items against the strict schema and send the invalid ones back
+ * to the model once for a targeted correction. Anything still invalid after
+ * that — or if the correction call itself fails — is dropped and reported.
+ */
+export async function validateWithReask(
+  provider: LLMProvider,
+  items: unknown[],
+  config: GenerateConfig,
+  startedAt: number,
+  signal?: AbortSignal
+): Promise<{ valid: ValidQuestion[]; dropped: DroppedQuestion[] }> {
+  const rules = validationRules(config);
+  const first = validateQuestions(items, config.questionTypes, rules);
+  if (first.invalid.length === 0) return { valid: first.valid, dropped: [] };
+
+  console.log(`Validation: ${first.invalid.length}/${items.length} invalid, asking model to correct them`);
+
+  try {
+    const { content } = await completeWithFallback(provider, buildRepairMessages(first.invalid, config), {
+      json: true,
+      task: 'repair-questions',
+      startedAt,
+      signal,
+      maxAttempts: 1,
+      backoffMs: [0],
+    });
+    // Extra items the model adds were never asked for and would overrun the requested counts
+    const corrected = questionItems(tryRepairJSON(content)).slice(0, first.invalid.length);
+    const second = validateQuestions(corrected, config.questionTypes, rules);
+
+    // Items the model didn't return at all are dropped with their original reasons
+    const missing = first.invalid.slice(corrected.length);
+    const dropped = [...toDropped(second.invalid), ...toDropped(missing)];
+    console.log(`Re-ask: ${second.valid.length} corrected, ${dropped.length} dropped`);
+    return { valid: [...first.valid, ...second.valid], dropped };
+  } catch (error) {
+    console.log(`Re-ask failed (${error instanceof Error ? error.message : String(error)}), dropping ${first.invalid.length} invalid items`);
+    return { valid: first.valid, dropped: toDropped(first.invalid) };
+  }
+}
+
+// --- Error mapping ---
+export function describeGenerationError(error: unknown): { status: number; message: string } {
+  // Provider errors carry the HTTP status of the failed call
+  const { status } = (error ?? {}) as { status?: number };
+  const message = error instanceof Error ? error.message : '';
+  // A request that can't be planned says why as it is
+  if (status === 400) {
+    return { status, message };
+  }
+  if (status === 401 || message.includes('API key')) {
+    return { status: 401, message: 'Invalid API Key. Please check server configuration.' };
+  }
+  if (status === 413 || message.includes('too long')) {
+    return { status: 413, message: 'Text too long. Try a smaller document or fewer questions.' };
+  }
+  if (message.includes('rate') || message.includes('limit')) {
+    return { status: 429, message: 'Rate limit exceeded. Please wait a moment and try again.' };
+  }
+  if (message.includes('busy')) {
+    return { status: 503, message };
+  }
+  return { status: 500, message: `${message || 'Failed to generate questions'}. Please try again.` };
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { questionItems, toDropped, validateQuestions } from './schema.js';
+
+const ALL_TYPES: string[] = [];
+
+const multipleChoice = (overrides: Record<string, unknown> = {}) => ({
+  type: 'multiple-choice',
+  question: 'Why does the light-dependent stage need water?',
+  options: ['To supply electrons', 'To cool the leaf', 'To store glucose', 'To absorb red light'],
+  correctAnswer: 0,
+  explanation: 'Water is split to replace electrons lost from photosystem II.',
+  ...overrides,
+});
+
+const issuesOf = (item: unknown, types = ALL_TYPES) => validateQuestions([item], types).invalid[0]?.issues ?? [];
+
+describe('validateQuestions', () => {
+  it('accepts a well-formed multiple-choice question', () => {
+    const { valid, invalid } = validateQuestions([multipleChoice()], ALL_TYPES);
+    expect(invalid).toEqual([]);
+    expect(valid).toHaveLength(1);
+  });
+
+  it('coerces quoted indices before validating', () => {
+    const { valid } = validateQuestions([multipleChoice({ correctAnswer: '2' })], ALL_TYPES);
+    expect(valid[0].correctAnswer).toBe(2);
+
+    const { valid: multi } = validateQuestions([multipleChoice({
+      type: 'multi-select',
+      correctAnswer: '0,2',
+    })], ALL_TYPES);
+    expect(multi[0].correctAnswer).toEqual([0, 2]);
+  });
+
+  it('rejects an out-of-range answer index', () => {
+    expect(issuesOf(multipleChoice({ correctAnswer: 4 }))).toContain('correctAnswer 4 is out of range for 4 options');
+  });
+
+  it('rejects duplicate options and short stems', () => {
+    expect(issuesOf(multipleChoice({ options: ['A', 'a', 'B', 'C'] }))).toContain('options contain duplicates');
+    expect(issuesOf(multipleChoice({ question: 'Why?' }))).toContain('question is too short');
+  });
+
+  it('turns away types that were not requested', () => {
+    expect(issuesOf(multipleChoice(), ['essay'])).toEqual(['type "multiple-choice" was not requested']);
+  });
+
+  it('names an unknown type', () => {
+    expect(issuesOf(multipleChoice({ type: 'riddle' }))).toEqual(['unknown question type "riddle"']);
+  });
+
+  it('drops whatever correctAnswer the model sent for types with a derived key', () => {
+    const { valid } = validateQuestions([{
+      type: 'ordering',
+      question: 'Put the stages of mitosis in order.',
+      steps: ['Prophase', 'Metaphase', 'Anaphase', 'Telophase'],
+      correctAnswer: 'Prophase first',
+    }], ALL_TYPES);
+    expect(valid).toHaveLength(1);
+    expect(valid[0].correctAnswer).toBeUndefined();
+  });
+
+  it('needs one cloze marker per blank, in order', () => {
+    const cloze = {
+      type: 'cloze',
+      question: 'Glucose is made in the {{1}} during the {{2}} cycle.',
+      blanks: ['chloroplast', ['Calvin', 'Calvin-Benson']],
+    };
+    expect(validateQuestions([cloze], ALL_TYPES).valid).toHaveLength(1);
+    expect(issuesOf({ ...cloze, question: 'Glucose is made in the {{2}} during the {{1}} cycle.' })[0])
+      .toMatch(/passage needs the markers \{\{1\}\} to \{\{2\}\} in order/);
+  });
+
+  it('needs a value or a template for numeric questions', () => {
+    const numeric = { type: 'numeric', question: 'How far does a car at 20 m/s travel in 3 s?', unit: 'm' };
+    expect(issuesOf(numeric)).toContain('numeric needs a "value"');
+    expect(validateQuestions([{ ...numeric, value: '60' }], ALL_TYPES).valid[0]).toMatchObject({ value: 60 });
+    expect(issuesOf({ ...numeric, value: 60, unit: 'furlongs/fortnight' })[0]).toMatch(/is not recognised/);
+  });
+
+  it('applies the recall rule only to open-stem types', () => {
+    const rules = { avoidSimpleRecall: true };
+    const recall = multipleChoice({ question: 'What is photosynthesis?' });
+    expect(validateQuestions([recall], ALL_TYPES, rules).invalid).toHaveLength(1);
+
+    const statement = {
+      type: 'true-false',
+      question: 'Photosynthesis releases oxygen as a by-product.',
+      options: ['True', 'False'],
+      correctAnswer: 0,
+    };
+    expect(validateQuestions([statement], ALL_TYPES, rules).valid).toHaveLength(1);
+  });
+});
+
+describe('questionItems', () => {
+  it('reads the {"questions": [...]} envelope and nothing else', () => {
+    expect(questionItems({ questions: [1, 2] })).toEqual([1, 2]);
+    expect(questionItems([1, 2])).toEqual([]);
+    expect(questionItems({ questions: 'none' })).toEqual([]);
+    expect(questionItems(null)).toEqual([]);
+  });
+});
+
+describe('toDropped', () => {
+  it('keeps the start of the question and every reason', () => {
+    const [dropped] = toDropped([{ item: { question: 'x'.repeat(200) }, issues: ['a', 'b'] }]);
+    expect(dropped.question).toHaveLength(120);
+    expect(dropped.reason).toBe('a; b');
+    expect(toDropped([{ item: 'junk', issues: [] }])[0].question).toBe('(empty question)');
+  });
+});
@@ -0,0 +1,330 @@
+import { z } from 'zod';
+import { type QuestionCategory, questionCategories } from '../../src/types/questions.js';
+import { validateQuestion } from '../../src/lib/questionGenerator.js';
+import { parseUnit } from '../../src/lib/numericAnswer.js';
+import { type MathTemplate, checkTemplate } from '../../src/lib/mathTemplate.js';
+import { clozeMarkers } from '../../src/lib/cloze.js';
+
+// Strict per-type schemas for model output. tryRepairJSON only fixes syntax;
+// these catch answers that are well-formed JSON but unusable in practice.
+
+const text = (field: string) => z.string({ required_error: `${field} is missing`, invalid_type_error: `${field} must be text` })
+  .trim()
+  .min(1, `${field} is empty`);
+
+const base = {
+  question: text('question').refine(q => q.length >= 10, 'question is too short'),
+  explanation: z.string().optional(),
+  topic: z.string().optional(),
+  section: z.string().optional(),
+  excerpt: z.string().optional(),
+  category: z.enum(questionCategories as [string, ...string[]]).optional(),
+  hints: z.array(z.string()).optional(),
+};
+
+const choiceIndex = z.number({ required_error: 'correctAnswer is missing', invalid_type_error: 'correctAnswer must be an option index' })
+  .int('correctAnswer must be a whole number');
+
+// Types whose key lives in other fields: normalizeQuestion works correctAnswer
+// out from those, so whatever the model put here is dropped
+const derivedAnswer = z.unknown().transform((): undefined => undefined);
+
+const distinct = (items: string[]) =>
+  new Set(items.map(i => i.toLowerCase())).size === items.length;
+
+type RawItem = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawItem =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+const isDigits = (value: unknown): value is string => typeof value === 'string' && /^\d+$/.test(value.trim());
+const toNumber = (value: unknown) =>
+  typeof value === 'string' && value.trim() && Number.isFinite(Number(value)) ? Number(value) : value;
+
+const multipleChoice = z.object({
+  ...base,
+  type: z.literal('multiple-choice'),
+  options: z.array(text('option')).min(3, 'multiple-choice needs at least 3 options').max(6, 'multiple-choice has too many options')
+    .refine(distinct, 'options contain duplicates'),
+  correctAnswer: choiceIndex,
+});
+
+const multiSelect = z.object({
+  ...base,
+  type: z.literal('multi-select'),
+  options: z.array(text('option')).min(4, 'multi-select needs at least 4 options').max(6, 'multi-select has too many options')
+    .refine(distinct, 'options contain duplicates'),
+  correctAnswer: z.array(choiceIndex, { required_error: 'correctAnswer is missing', invalid_type_error: 'correctAnswer must be a list of option indices' })
+    .min(1, 'multi-select needs at least one correct option')
+    .refine(indices => new Set(indices).size === indices.length, 'correctAnswer lists an option twice'),
+});
+
+const trueFalse = z.object({
+  ...base,
+  type: z.literal('true-false'),
+  options: z.array(text('option')).length(2, 'true-false needs exactly 2 options'),
+  correctAnswer: choiceIndex.min(0, 'correctAnswer must be 0 or 1').max(1, 'correctAnswer must be 0 or 1'),
+});
+
+const fillBlank = z.object({
+  ...base,
+  type: z.literal('fill-blank'),
+  options: z.array(z.string()).optional(),
+  correctAnswer: text('correctAnswer'),
+});
+
+const shortAnswer = z.object({
+  ...base,
+  type: z.literal('short-answer'),
+  options: z.array(z.string()).optional(),
+  correctAnswer: text('correctAnswer'),
+});
+
+const rubricCriterion = z.object({
+  criterion: text('rubric criterion'),
+  points: z.number({ required_error: 'rubric points are missing', invalid_type_error: 'rubric points must be a number' })
+    .int('rubric points must be whole numbers')
+    .min(1, 'rubric points must be at least 1')
+    .max(10, 'rubric points must be at most 10'),
+  description: z.string().optional(),
+});
+
+// correctAnswer holds the model answer; the rubric is what submissions are graded against
+const essay = z.object({
+  ...base,
+  type: z.literal('essay'),
+  options: z.array(z.string()).optional(),
+  correctAnswer: text('correctAnswer'),
+  rubric: z.array(rubricCriterion, { required_error: 'essay needs a rubric', invalid_type_error: 'rubric must be a list of criteria' })
+    .min(2, 'rubric needs at least 2 criteria')
+    .max(6, 'rubric has too many criteria'),
+});
+
+const templateVariable = z.object({
+  min: z.number({ required_error: 'template variable needs "min"', invalid_type_error: 'variable min must be a number' }),
+  max: z.number({ required_error: 'template variable needs "max"', invalid_type_error: 'variable max must be a number' }),
+  step: z.number({ invalid_type_error: 'variable step must be a number' }).positive('variable step must be positive').optional(),
+});
+
+// correctAnswer is filled in from value and unit by normalizeQuestion. A
+// template replaces value: the client draws the variables and works it out.
+const numeric = z.object({
+  ...base,
+  type: z.literal('numeric'),
+  options: z.array(z.string()).optional(),
+  correctAnswer: derivedAnswer,
+  value: z.number({ invalid_type_error: 'value must be a number' }).finite('value must be a finite number').optional(),
+  tolerance: z.number({ invalid_type_error: 'tolerance must be a number' }).nonnegative('tolerance must not be negative').optional(),
+  toleranceType: z.enum(['absolute', 'relative'], { invalid_type_error: 'toleranceType must be "absolute" or "relative"' }).optional(),
+  unit: z.string().trim().optional()
+    .refine(unit => !unit || parseUnit(unit) !== null, unit => ({ message: `unit "${unit}" is not recognised — use standard symbols like m/s^2, kJ/mol or mL` })),
+  template: z.object({
+    variables: z.record(templateVariable, { required_error: 'template needs "variables"', invalid_type_error: 'template variables must be an object of {min, max, step}' }),
+    formula: text('template formula'),
+    solution: z.string().optional(),
+  }, { invalid_type_error: 'template must be an object' }).optional(),
+});
+
+// correctAnswer is filled in from the pairs/steps by normalizeQuestion
+const matching = z.object({
+  ...base,
+  type: z.literal('matching'),
+  options: z.array(z.string()).optional(),
+  correctAnswer: derivedAnswer,
+  pairs: z.array(z.object({ left: text('pair left'), right: text('pair right') }), { required_error: 'matching needs "pairs"', invalid_type_error: 'pairs must be a list of {left, right}' })
+    .min(3, 'matching needs at least 3 pairs')
+    .max(6, 'matching has too many pairs')
+    .refine(pairs => distinct(pairs.map(p => p.left)) && distinct(pairs.map(p => p.right)), 'pairs contain duplicates'),
+});
+
+const ordering = z.object({
+  ...base,
+  type: z.literal('ordering'),
+  options: z.array(z.string()).optional(),
+  correctAnswer: derivedAnswer,
+  steps: z.array(text('step'), { required_error: 'ordering needs "steps"', invalid_type_error: 'steps must be a list' })
+    .min(3, 'ordering needs at least 3 steps')
+    .max(8, 'ordering has too many steps')
+    .refine(distinct, 'steps contain duplicates'),
+});
+
+// correctAnswer is filled in from the blanks by normalizeQuestion
+const cloze = z.object({
+  ...base,
+  type: z.literal('cloze'),
+  options: z.array(z.string()).optional(),
+  correctAnswer: derivedAnswer,
+  blanks: z.array(z.object({
+    answers: z.array(text('blank answer'), { required_error: 'blank needs "answers"', invalid_type_error: 'blank answers must be a list' })
+      .min(1, 'blank has no accepted answers')
+      .max(6, 'blank has too many accepted answers'),
+  }), { required_error: 'cloze needs "blanks"', invalid_type_error: 'blanks must be a list of {answers}' })
+    .min(2, 'cloze needs at least 2 blanks')
+    .max(8, 'cloze has too many blanks'),
+});
+
+export const questionSchema = z.discriminatedUnion('type', [
+  multipleChoice,
+  multiSelect,
+  trueFalse,
+  fillBlank,
+  shortAnswer,
+  essay,
+  numeric,
+  matching,
+  ordering,
+  cloze,
+], {
+  errorMap: (issue, ctx) => issue.code === z.ZodIssueCode.invalid_union_discriminator
+    ? { message: `unknown question type "${isObject(ctx.data) ? String(ctx.data.type ?? '') : ''}"` }
+    : { message: ctx.defaultError },
+}).superRefine((q, ctx) => {
+  // Cross-field checks the per-type objects can't express on their own
+  if (q.type === 'multiple-choice' && (q.correctAnswer < 0 || q.correctAnswer >= q.options.length)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['correctAnswer'], message: `correctAnswer ${q.correctAnswer} is out of range for ${q.options.length} options` });
+  }
+  if (q.type === 'multi-select') {
+    if (q.correctAnswer.some(i => i < 0 || i >= q.options.length)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['correctAnswer'], message: `correctAnswer [${q.correctAnswer}] is out of range for ${q.options.length} options` });
+    } else if (q.correctAnswer.length === q.options.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['correctAnswer'], message: 'multi-select needs at least one incorrect option' });
+    }
+  }
+  if (q.type === 'cloze') {
+    // Markers must be {{1}} … {{n}}, each once and in order, one per blank
+    const markers = clozeMarkers(q.question);
+    if (markers.length !== q.blanks.length || markers.some((m, i) => m !== i + 1)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['question'], message: `passage needs the markers {{1}} to {{${q.blanks.length}}} in order, one per blank (found ${markers.length ? markers.map(m => `{{${m}}}`).join(' ') : 'none'})` });
+    }
+  }
+  if (q.type === 'numeric') {
+    if (q.template) {
+      for (const problem of checkTemplate(q.question, q.template as MathTemplate)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['template'], message: problem });
+      }
+    } else if (q.value === undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: 'numeric needs a "value"' });
+    }
+  }
+});
+
+export type ValidQuestion = z.infer<typeof questionSchema>;
+
+export interface InvalidQuestion {
+  item: unknown;
+  issues: string[];
+}
+
+export interface DroppedQuestion {
+  question: string;
+  reason: string;
+}
+
+/**
+ * Models often quote numbers ("correctAnswer": "2"). Coerce those before
+ * validating so only genuinely wrong items are sent back for correction.
+ */
+function coerce(item: unknown): unknown {
+  if (!isObject(item)) return item;
+  const out: RawItem = { ...item };
+  if (typeof out.type === 'string') out.type = out.type.trim().toLowerCase();
+  if (typeof out.section === 'number') out.section = String(out.section);
+  // A missing or made-up category isn't worth a re-ask — just leave it untagged
+  if (typeof out.category === 'string') out.category = out.category.trim().toLowerCase();
+  if (!questionCategories.includes(out.category as QuestionCategory)) delete out.category;
+  // Same for hints: keep up to three usable ones rather than re-asking
+  if (Array.isArray(out.hints)) {
+    out.hints = out.hints.filter((h: unknown): h is string => typeof h === 'string' && !!h.trim()).map(h => h.trim()).slice(0, 3);
+  } else {
+    delete out.hints;
+  }
+  if ((out.type === 'multiple-choice' || out.type === 'true-false') && isDigits(out.correctAnswer)) {
+    out.correctAnswer = Number(out.correctAnswer.trim());
+  }
+  if (out.type === 'numeric') {
+    for (const field of ['value', 'tolerance']) {
+      if (field in out) out[field] = toNumber(out[field]);
+    }
+    if (isObject(out.template) && isObject(out.template.variables)) {
+      const variables = Object.fromEntries(Object.entries(out.template.variables).map(([name, v]) => [
+        name,
+        isObject(v) ? Object.fromEntries(Object.entries(v).map(([k, n]) => [k, toNumber(n)])) : v,
+      ]));
+      out.template = { ...out.template, variables };
+    }
+  }
+  // Multi-select answers arrive as 2, "2", "0,2" or ["0","2"]
+  if (out.type === 'multi-select' && !Array.isArray(out.correctAnswer)) {
+    out.correctAnswer = typeof out.correctAnswer === 'string' ? out.correctAnswer.split(',') : [out.correctAnswer];
+  }
+  if (out.type === 'multi-select' && Array.isArray(out.correctAnswer)) {
+    out.correctAnswer = out.correctAnswer.map((i: unknown) => isDigits(i) ? Number(i.trim()) : i);
+  }
+  // Cloze blanks arrive as "term", ["term", "synonym"] or {"answers": "term"}
+  if (out.type === 'cloze' && Array.isArray(out.blanks)) {
+    out.blanks = out.blanks.map((b: unknown) => {
+      const answers = isObject(b) ? b.answers : b;
+      return { answers: typeof answers === 'string' ? [answers] : answers };
+    });
+  }
+  if (Array.isArray(out.rubric)) {
+    out.rubric = out.rubric.map((c: unknown) => isObject(c) && isDigits(c.points)
+      ? { ...c, points: Number(c.points.trim()) }
+      : c);
+  }
+  return out;
+}
+
+// The {"questions":[...]} envelope that generation and correction calls answer with
+const questionsPayload = z.object({ questions: z.array(z.unknown()) });
+
+/** Question items from a parsed model response, or none if it isn't the expected shape */
+export function questionItems(parsed: unknown): unknown[] {
+  const result = questionsPayload.safeParse(parsed);
+  return result.success ? result.data.questions : [];
+}
+
+export interface ValidationRules {
+  /** Reject "What is…"/"Define…" style recall questions (see validateQuestion) */
+  avoidSimpleRecall?: boolean;
+}
+
+// Types whose stem is a question on its own. True/false stems are statements,
+// fill-blank and cloze stems end in a blank, and matching and ordering stems
+// are short instructions — validateQuestion's wording rules don't fit those.
+const OPEN_STEM_TYPES = ['multiple-choice', 'multi-select', 'short-answer', 'essay'];
+
+/**
+ * Split raw model items into schema-valid questions and invalid ones with
+ * human-readable reasons. Types the user didn't ask for count as invalid.
+ */
+export function validateQuestions(items: unknown[], allowedTypes: string[], rules: ValidationRules = {}): { valid: ValidQuestion[]; invalid: InvalidQuestion[] } {
+  const valid: ValidQuestion[] = [];
+  const invalid: InvalidQuestion[] = [];
+
+  for (const raw of items) {
+    const item = coerce(raw);
+    const result = questionSchema.safeParse(item);
+    if (!result.success) {
+      invalid.push({ item: raw, issues: result.error.issues.map(i => i.message) });
+    } else if (allowedTypes.length && !allowedTypes.includes(result.data.type as string)) {
+      invalid.push({ item: raw, issues: [`type "${result.data.type}" was not requested`] });
+    } else if (
+      rules.avoidSimpleRecall &&
+      OPEN_STEM_TYPES.includes(result.data.type as string) &&
+      !validateQuestion({ content: result.data.question })
+    ) {
+      invalid.push({ item: raw, issues: ['question is simple recall or not a complete sentence — rewrite it to test understanding'] });
+    } else {
+      valid.push(result.data);
+    }
+  }
+
+  return { valid, invalid };
+}
+
+export function toDropped(invalid: InvalidQuestion[]): DroppedQuestion[] {
+  return invalid.map(({ item, issues }) => ({
+    question: String((isObject(item) && item.question) || '(empty question)').slice(0, 120),
+    reason: issues.join('; '),
+  }));
+}
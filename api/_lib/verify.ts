@@ -0,0 +1,179 @@
+// Answer-key verification: a second model answers each question without
+// seeing the key, and questions where it disagrees are flagged.
+
+import { z } from 'zod';
+import { type ChatMessage, type LLMProvider, TIME_BUDGET_MS, completeWithFallback } from './llm/index.js';
+import { type Question, tryRepairJSON } from './questions.js';
+import { gradeNumericAnswer } from '../../src/lib/numericAnswer.js';
+
+export type VerificationStatus = NonNullable<Question['verified']>;
+
+export interface VerificationSummary {
+  model: string;
+  verified: number;
+  disputed: number;
+  ambiguous: number;
+  unchecked: number;
+}
+
+// Leave this much of the function budget for the verification call itself
+const MIN_REMAINING_MS = 8000;
+
+const UNCHECKABLE_TYPES = ['essay', 'matching', 'ordering', 'cloze'];
+
+// The checker's reply. It's read leniently: a malformed entry just leaves its
+// question unchecked instead of failing the whole check
+const verdict = z.object({
+  n: z.coerce.number().optional().catch(undefined),
+  answer: z.unknown(),
+  ambiguous: z.boolean().optional().catch(undefined),
+  note: z.string().optional().catch(undefined),
+});
+const verifyReply = z.object({ answers: z.array(verdict.nullable().catch(null)) }).catch({ answers: [] });
+
+// Templates get fresh values on every attempt, so there's no fixed answer to check
+const isUncheckable = (q: Question) => UNCHECKABLE_TYPES.includes(q.type) || !!q.template;
+
+function buildVerifyMessages(questions: Question[]): ChatMessage[] {
+  const items = questions.map((q, i) => ({
+    n: i + 1,
+    type: q.type,
+    question: q.question,
+    ...(q.options.length ? { options: q.options } : {}),
+    ...(q.source?.excerpt ? { excerpt: q.source.excerpt } : {}),
+  }));
+
+  return [
+    { role: 'system', content: `You are checking quiz questions by answering them yourself. Output ONLY valid JSON — no markdown, no backticks, no extra text.
+
+Return {"answers":[{"n":1,"answer":...,"ambiguous":false,"note":"..."}]} with one entry per question, in the same order.
+
+RULES:
+- Use the excerpt (when given) and your own knowledge.
+- multiple-choice / true-false: "answer" is the 0-based index of the correct option.
+- multi-select: "answer" is an array of the 0-based indices of every correct option.
+- fill-blank: "answer" is the missing word or phrase.
+- numeric: "answer" is the number followed by its unit, e.g. "9.8 m/s^2".
+- short-answer: "answer" is a one-sentence answer.
+- Set "ambiguous": true if no option is correct, more than one is, or the question can't be answered as written.
+- "note" is at most one short sentence explaining your answer.` },
+    { role: 'user', content: `QUESTIONS:\n${JSON.stringify(items)}` },
+  ];
+}
+
+const norm = (s: string) => s.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim();
+
+function agrees(q: Question, answer: unknown): boolean {
+  if (q.type === 'multi-select') {
+    const given = (Array.isArray(answer) ? answer : [answer]).map(Number).sort((a, b) => a - b);
+    const key = [...(q.correctAnswer as number[])].sort((a, b) => a - b);
+    return given.length === key.length && given.every((i, n) => i === key[n]);
+  }
+  if (q.type === 'multiple-choice' || q.type === 'true-false') {
+    return Number(answer) === q.correctAnswer;
+  }
+  if (q.type === 'numeric' && q.numeric) {
+    return gradeNumericAnswer(String(answer ?? ''), q.numeric).status === 'correct';
+  }
+
+  const given = norm(String(answer ?? ''));
+  const key = norm(String(q.correctAnswer));
+  if (!given || !key) return false;
+  if (given === key || given.includes(key) || key.includes(given)) return true;
+  if (q.type === 'fill-blank') return false;
+
+  // Short answers are phrased freely — agree if most of the key's content words appear
+  const keyWords = key.split(' ').filter(w => w.length > 3);
+  const givenWords = new Set(given.split(' '));
+  if (keyWords.length === 0) return false;
+  return keyWords.filter(w => givenWords.has(w)).length / keyWords.length >= 0.5;
+}
+
+function describeAnswer(q: Question, answer: unknown): string {
+  if (q.type === 'multi-select' && Array.isArray(answer)) {
+    return answer.map(i => `"${q.options[Number(i)] ?? i}"`).join(', ');
+  }
+  if ((q.type === 'multiple-choice' || q.type === 'true-false') && q.options[Number(answer)] !== undefined) {
+    return `"${q.options[Number(answer)]}"`;
+  }
+  return `"${String(answer ?? '').slice(0, 120)}"`;
+}
+
+/**
+ * Answer every question blind on a model other than the one that wrote them
+ * (when the chain has more than one) and record a `verified` status on each.
+ * Disagreements are flagged, not removed — the note tells the student what
+ * the second check thought. If there's no time left or the call fails the
+ * questions come back marked 'unchecked'. Essays, matching, ordering, cloze
+ * and templated numeric questions have no single key to check and pass
+ * through untouched.
+ */
+export async function verifyAnswerKeys(
+  provider: LLMProvider,
+  questions: Question[],
+  options: { startedAt: number; generatedBy?: string; signal?: AbortSignal }
+): Promise<{ questions: Question[]; model: string }> {
+  if (questions.some(isUncheckable)) {
+    const rest = await verifyAnswerKeys(provider, questions.filter(q => !isUncheckable(q)), options);
+    const checked = new Map(rest.questions.map(q => [q.id, q]));
+    return { questions: questions.map(q => checked.get(q.id) ?? q), model: rest.model };
+  }
+
+  const unchecked = () => ({
+    questions: questions.map(q => ({ ...q, verified: 'unchecked' as const })),
+    model: '',
+  });
+
+  if (questions.length === 0) return { questions, model: '' };
+  if (Date.now() - options.startedAt > TIME_BUDGET_MS - MIN_REMAINING_MS) {
+    console.log(`Verification skipped for ${questions.length} questions: out of time`);
+    return unchecked();
+  }
+
+  try {
+    const { content, model } = await completeWithFallback(provider, buildVerifyMessages(questions), {
+      json: true,
+      task: 'verify-answers',
+      temperature: 0,
+      startedAt: options.startedAt,
+      maxAttempts: 1,
+      backoffMs: [0],
+      avoidModel: options.generatedBy,
+      signal: options.signal,
+    });
+
+    const { answers } = verifyReply.parse(tryRepairJSON(content));
+    const byNumber = new Map(answers.map((a, i) => [a?.n || i + 1, a]));
+
+    const checked = questions.map((q, i): Question => {
+      const a = byNumber.get(i + 1);
+      if (a?.ambiguous === true) {
+        return { ...q, verified: 'ambiguous', verificationNote: a.note || 'A second check found this question ambiguous.' };
+      }
+      if (!a || a.answer === undefined || a.answer === null) return { ...q, verified: 'unchecked' };
+      if (!agrees(q, a.answer)) {
+        const note = `A second check answered ${describeAnswer(q, a.answer)}${a.note ? ` — ${a.note}` : ''}`;
+        return { ...q, verified: 'disputed', verificationNote: note };
+      }
+      return { ...q, verified: 'verified' };
+    });
+
+    const flagged = checked.filter(q => q.verified === 'disputed' || q.verified === 'ambiguous').length;
+    console.log(`Verification (${model}): ${checked.length - flagged} agreed, ${flagged} flagged`);
+    return { questions: checked, model };
+  } catch (error) {
+    console.log(`Verification failed (${error instanceof Error ? error.message : String(error)}), leaving ${questions.length} questions unchecked`);
+    return unchecked();
+  }
+}
+
+export function summarizeVerification(questions: Question[], model: string): VerificationSummary {
+  const count = (status: VerificationStatus) => questions.filter(q => q.verified === status).length;
+  return {
+    model,
+    verified: count('verified'),
+    disputed: count('disputed'),
+    ambiguous: count('ambiguous'),
+    unchecked: count('unchecked'),
+  };
+}
@@ -1,14 +1,5 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-
-// Fallback chain — verified available free models (Feb 2026)
-const MODELS = [
-  'openrouter/free',
-  'meta-llama/llama-3.3-70b-instruct:free',
-  'mistralai/mistral-small-3.1-24b-instruct:free',
-  'google/gemma-3-27b-it:free',
-  'nousresearch/hermes-3-llama-3.1-405b:free',
-  'qwen/qwen3-next-80b-a3b-instruct:free',
-];
+import { type ChatMessage, type LLMProvider, getProvider, completeWithFallback } from './_lib/llm/index.js';
 
 interface ChatRequest {
   message: string;
@@ -67,14 +58,15 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(400).json({ error: 'Message is required' });
     }
 
-    // Get API key from environment variable
-    const apiKey = process.env.OPENROUTER_API_KEY;
-    if (!apiKey) {
-      return res.status(500).json({ error: 'Server configuration error: API key not set' });
+    let provider: LLMProvider;
+    try {
+      provider = getProvider();
+    } catch (error: any) {
+      return res.status(500).json({ error: error.message });
     }
 
     // Build messages array with history
-    const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
+    const messages: ChatMessage[] = [
       { role: 'system', content: buildSystemPrompt(context || '') }
     ];
 
@@ -89,73 +81,12 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     // Add current message
     messages.push({ role: 'user', content: message });
 
-    // Try models in order until one works
-    let responseText = '';
-    let usedModel = '';
-
-    for (let i = 0; i < MODELS.length; i++) {
-      const model = MODELS[i];
-      try {
-        if (i > 0) console.log(`Trying fallback model ${i + 1}/${MODELS.length}: ${model}`);
-
-        const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${apiKey}`,
-            'Content-Type': 'application/json',
-            'HTTP-Referer': 'https://studywiz.app',
-            'X-Title': 'StudyWiz'
-          },
-          body: JSON.stringify({
-            model,
-            messages,
-            temperature: 0.7,
-            max_tokens: 4096
-          })
-        });
-
-        if (response.status === 429) {
-          console.log(`Rate limited on ${model}, trying next...`);
-          continue;
-        }
-
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          const msg = errorData.error?.message || response.statusText;
-          if (response.status === 404 || msg.includes('No endpoints')) {
-            console.log(`Model ${model} not available, trying next...`);
-            continue;
-          }
-          throw { status: response.status, message: msg };
-        }
-
-        const completion = await response.json();
-        if (completion.error) {
-          if (completion.error.message?.includes('rate') || completion.error.code === 429) {
-            continue;
-          }
-          throw new Error(completion.error.message || 'API returned an error');
-        }
-
-        const content = completion.choices?.[0]?.message?.content;
-        if (!content) {
-          console.log(`Empty response from ${model}, trying next...`);
-          continue;
-        }
-
-        responseText = content;
-        usedModel = completion.model || model;
-        break;
-      } catch (error: any) {
-        if (error.status) throw error; // non-retryable
-        console.log(`Error on ${model}: ${error.message}`);
-        if (i === MODELS.length - 1) throw error;
-      }
-    }
-
-    if (!responseText) {
-      throw new Error('All models are currently busy. Please try again in a moment.');
-    }
+    // Try models in order until one works — chat is interactive, so no backoff between them
+    const { content: responseText, model: usedModel } = await completeWithFallback(provider, messages, {
+      maxTokens: 4096,
+      maxAttempts: 1,
+      backoffMs: [0],
+    });
 
     return res.status(200).json({
       response: responseText,
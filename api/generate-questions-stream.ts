@@ -0,0 +1,171 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { type LLMProvider, getProvider, streamWithFallback } from './_lib/llm/index.js';
+import {
+  type GenerateRequest,
+  type Question,
+  tryRepairJSON,
+  validateWithReask,
+  normalizeQuestion,
+  describeGenerationError,
+  validationRules,
+  QuestionStreamParser,
+} from './_lib/questions.js';
+import { planRun, runBatches, buildMetadata } from './_lib/generation.js';
+import { type DroppedQuestion, type InvalidQuestion, type ValidQuestion, validateQuestions, questionItems } from './_lib/schema.js';
+import { verifyAnswerKeys } from './_lib/verify.js';
+
+// Questions per answer-key check while streaming — small enough that the
+// first ones still arrive quickly
+const VERIFY_GROUP_SIZE = 5;
+
+/**
+ * Streaming variant of /api/generate-questions.
+ *
+ * Responds with NDJSON — one event per line — so the client can render each
+ * question as soon as it has been parsed out of the model output:
+ *   {"type":"status","message":"..."}
+ *   {"type":"question","question":{...}}
+ *   {"type":"done","metadata":{"generatedCount":N,"model":"...","dropped":{...},"coverage":[...],"verification":{...}}}
+ *   {"type":"error","error":"..."}
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') return res.status(200).end();
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  const { extractedText, config } = (req.body || {}) as GenerateRequest;
+
+  if (!extractedText || !config) {
+    return res.status(400).json({ error: 'Missing required fields' });
+  }
+  if (extractedText.length < 50) {
+    return res.status(400).json({ error: 'Extracted text is too short. Please upload more content.' });
+  }
+
+  let provider: LLMProvider;
+  try {
+    provider = getProvider();
+  } catch (error) {
+    return res.status(500).json({ error: error instanceof Error ? error.message : String(error) });
+  }
+
+  // From here on everything is reported in-band, so the status is always 200
+  res.statusCode = 200;
+  res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('X-Accel-Buffering', 'no');
+
+  const send = (event: Record<string, unknown>) => {
+    res.write(JSON.stringify(event) + '\n');
+  };
+
+  // The client cancelled or went away — stop calling the model on its behalf
+  const abort = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) abort.abort();
+  });
+  const { signal } = abort;
+
+  try {
+    const startedAt = Date.now();
+
+    // Same section plan as the non-streaming endpoint, and the same single-batch option
+    const plan = planRun(extractedText, config);
+    const sent: Question[] = [];
+    let usedModel = '';
+    let verifierModel = '';
+
+    const deliver = (question: Question) => {
+      sent.push(question);
+      send({ type: 'question', question });
+    };
+
+    // With verification on, questions are held back in small groups so the
+    // answer-key check runs before the student sees them
+    const pending: Question[] = [];
+    const flush = async () => {
+      if (pending.length === 0) return;
+      const checked = await verifyAnswerKeys(provider, pending.splice(0), { startedAt, generatedBy: usedModel, signal });
+      verifierModel = checked.model || verifierModel;
+      checked.questions.forEach(deliver);
+    };
+
+    const dropped = await runBatches(plan, config, {
+      signal,
+      startedAt,
+      generated: () => sent.map(q => q.question),
+      generate: async ({ messages, batch, totalBatches, topUp, keep }) => {
+        send({
+          type: 'status',
+          message: topUp
+            ? `Topping up ${topUp} more question${topUp === 1 ? '' : 's'}...`
+            : `Generating questions${totalBatches > 1 ? ` (batch ${batch + 1}/${totalBatches})` : ''}...`,
+        });
+
+        const emit = (raw: ValidQuestion) => {
+          // Duplicates and extras of a type that's already full are left out
+          if (!keep(raw)) return;
+          const question = normalizeQuestion(raw, sent.length + pending.length, plan.cite);
+          if (config.verifyAnswers) pending.push(question);
+          else deliver(question);
+        };
+
+        // Valid items go out immediately; invalid ones wait for one correction pass
+        const invalid: InvalidQuestion[] = [];
+        const rules = validationRules(config);
+        const accept = (raw: unknown) => {
+          const checked = validateQuestions([raw], config.questionTypes, rules);
+          checked.valid.forEach(emit);
+          invalid.push(...checked.invalid);
+        };
+
+        const parser = new QuestionStreamParser();
+        for await (const delta of streamWithFallback(provider, messages, {
+          json: true,
+          startedAt,
+          signal,
+          onModel: m => { usedModel = m; },
+        })) {
+          parser.push(delta).forEach(accept);
+          if (pending.length >= VERIFY_GROUP_SIZE) await flush();
+        }
+
+        // Salvage anything the incremental parser couldn't see — e.g. a truncated
+        // final object or output that didn't follow the {"questions":[...]} shape
+        try {
+          questionItems(tryRepairJSON(parser.raw)).slice(parser.emitted).forEach(accept);
+        } catch {
+          // Nothing more to recover from this batch
+        }
+
+        let dropped: DroppedQuestion[] = [];
+        if (invalid.length > 0) {
+          send({ type: 'status', message: `Correcting ${invalid.length} invalid question${invalid.length === 1 ? '' : 's'}...` });
+          const checked = await validateWithReask(provider, invalid.map(q => q.item), config, startedAt, signal);
+          checked.valid.forEach(emit);
+          dropped = checked.dropped;
+        }
+
+        if (pending.length > 0) {
+          send({ type: 'status', message: 'Double-checking answer keys...' });
+          await flush();
+        }
+        return dropped;
+      },
+    });
+
+    send({ type: 'done', metadata: buildMetadata(plan, sent, { model: usedModel, dropped, verifierModel }, config) });
+  } catch (error) {
+    if (signal.aborted) {
+      console.log('Generation cancelled by the client');
+    } else {
+      console.error('Streaming generation error:', error);
+      send({ type: 'error', error: describeGenerationError(error).message });
+    }
+  }
+
+  res.end();
+}
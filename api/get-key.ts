@@ -1,16 +0,0 @@
-import type { VercelRequest, VercelResponse } from '@vercel/node';
-
-export default function handler(req: VercelRequest, res: VercelResponse) {
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-
-  if (req.method === 'OPTIONS') return res.status(200).end();
-
-  const key = process.env.OPENROUTER_API_KEY;
-  if (!key) {
-    return res.status(500).json({ error: 'OPENROUTER_API_KEY not configured' });
-  }
-
-  return res.status(200).json({ key });
-}
@@ -0,0 +1,48 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { type LLMProvider, getProvider } from './_lib/llm/index.js';
+import { type GradeRequest, gradeEssay } from './_lib/grading.js';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // CORS Headers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') return res.status(200).end();
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    const { question, modelAnswer, rubric, answer } = (req.body || {}) as GradeRequest;
+
+    if (!question || !Array.isArray(rubric) || rubric.length === 0) {
+      return res.status(400).json({ error: 'Question and rubric are required' });
+    }
+    if (!answer?.trim()) {
+      return res.status(400).json({ error: 'Answer is required' });
+    }
+
+    let provider: LLMProvider;
+    try {
+      provider = getProvider();
+    } catch (error) {
+      return res.status(500).json({ error: error instanceof Error ? error.message : String(error) });
+    }
+
+    const { grade, model } = await gradeEssay(provider, { question, modelAnswer: modelAnswer || '', rubric, answer });
+    console.log(`Essay graded by ${model}: ${grade.score}/${grade.maxScore}`);
+
+    return res.status(200).json({ grade, model });
+
+  } catch (error) {
+    console.error('Grading Error:', error);
+    const message = error instanceof Error ? error.message : '';
+
+    if (message.includes('rate') || message.includes('limit') || message.includes('busy')) {
+      return res.status(429).json({ error: 'The grader is busy. Please wait a moment and try again.' });
+    }
+
+    return res.status(500).json({
+      error: message || 'Failed to grade answer. Please try again.'
+    });
+  }
+}
@@ -0,0 +1,111 @@
+import { useState, useEffect } from "react";
+import { Database, FileText, ScanText, ListChecks, Trash2, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { type CacheEntry, type CacheKind, listCached, deleteCached, clearCache } from "@/lib/contentCache";
+
+interface CacheSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const KIND_LABELS: Record<CacheKind, { label: string; icon: typeof FileText }> = {
+  extraction: { label: "Extracted text", icon: FileText },
+  "pdf-pages": { label: "Scanned pages", icon: ScanText },
+  questions: { label: "Question set", icon: ListChecks },
+};
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Lists what's cached in IndexedDB, with per-entry delete and clear-all
+export const CacheSettingsDialog = ({ open, onOpenChange }: CacheSettingsDialogProps) => {
+  const [entries, setEntries] = useState<Omit<CacheEntry, "value">[] | null>(null);
+
+  const refresh = () => listCached().then(setEntries);
+
+  useEffect(() => {
+    if (open) refresh();
+  }, [open]);
+
+  const handleDelete = async (key: string) => {
+    await deleteCached(key);
+    refresh();
+  };
+
+  const handleClear = async () => {
+    await clearCache();
+    refresh();
+  };
+
+  const totalBytes = entries?.reduce((sum, e) => sum + e.bytes, 0) ?? 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Database className="w-5 h-5 text-primary" />
+            Cache
+          </DialogTitle>
+          <DialogDescription>
+            Extracted text and generated questions are kept on this device, so the same file or the same
+            settings load instantly next time. Clear an entry to make it run again.
+          </DialogDescription>
+        </DialogHeader>
+
+        {entries === null ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">Nothing cached yet.</p>
+        ) : (
+          <div className="space-y-2 max-h-80 overflow-y-auto pr-1">
+            {entries.map((entry) => {
+              const { label, icon: Icon } = KIND_LABELS[entry.kind];
+              return (
+                <div key={entry.key} className="flex items-center gap-3 p-3 rounded-xl bg-secondary/30 border border-border/50">
+                  <Icon className="w-4 h-4 text-muted-foreground shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-foreground truncate">{entry.label}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {label} · {formatBytes(entry.bytes)} · {new Date(entry.cachedAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="shrink-0"
+                    onClick={() => handleDelete(entry.key)}
+                    aria-label={`Remove ${entry.label} from cache`}
+                  >
+                    <Trash2 className="w-4 h-4 text-muted-foreground" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between pt-2">
+          <span className="text-xs text-muted-foreground">
+            {entries?.length ?? 0} {entries?.length === 1 ? "entry" : "entries"} · {formatBytes(totalBytes)}
+          </span>
+          <Button variant="outline" size="sm" onClick={handleClear} disabled={!entries?.length}>
+            <Trash2 className="w-4 h-4 mr-2" />Clear cache
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { CheckCircle2, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { MathText } from "./MathRenderer";
+import { cn } from "@/lib/utils";
+import { scoreCloze, splitCloze } from "@/lib/cloze";
+import type { ClozeBlank } from "@/types/questions";
+
+interface ClozeQuestionProps {
+  /** Passage with {{1}}, {{2}}, … where the blanks go */
+  passage: string;
+  blanks: ClozeBlank[];
+  /** The student's submitted answers, one per blank — locks the question and shows results */
+  submitted?: string[];
+  onSubmit?: (answers: string[]) => void;
+  /** Answers to start from, e.g. a draft the student is coming back to */
+  initial?: string[];
+  /** Called on every keystroke — for answers that are submitted elsewhere, as in an exam */
+  onChange?: (answers: string[]) => void;
+  disabled?: boolean;
+}
+
+// A paragraph with an inline input for each blank, marked per blank once submitted
+export const ClozeQuestion = ({ passage, blanks, submitted, onSubmit, initial, onChange, disabled = false }: ClozeQuestionProps) => {
+  const [answers, setAnswers] = useState<string[]>(() => initial ?? blanks.map(() => ""));
+
+  const locked = submitted !== undefined || disabled;
+  const shown = submitted ?? answers;
+  const results = submitted ? scoreCloze(blanks, submitted).correct : null;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-foreground leading-loose">
+        {splitCloze(passage).map((part, i) => {
+          if (typeof part === "string") return <MathText key={i} text={part} />;
+          const blank = blanks[part];
+          if (!blank) return null;
+          const isRight = results?.[part];
+          return (
+            <span key={i} className="inline-flex flex-col align-top mx-1">
+              <input
+                type="text"
+                value={shown[part] ?? ""}
+                onChange={(e) => {
+                  const next = answers.map((a, n) => (n === part ? e.target.value : a));
+                  setAnswers(next);
+                  onChange?.(next);
+                }}
+                onKeyDown={(e) => e.key === "Enter" && !locked && answers.every(a => a.trim()) && onSubmit?.(answers)}
+                disabled={locked}
+                aria-label={`Blank ${part + 1}`}
+                placeholder={String(part + 1)}
+                size={Math.max(8, blank.answers[0].length + 2)}
+                className={cn(
+                  "px-2 py-0.5 text-sm rounded-md border bg-background text-foreground outline-none focus:border-primary",
+                  !results && "border-border/60",
+                  results && (isRight ? "border-green-500 bg-green-500/10" : "border-red-500 bg-red-500/10")
+                )}
+              />
+              {results && !isRight && (
+                <span className="text-xs text-green-400 leading-snug">{blank.answers[0]}</span>
+              )}
+            </span>
+          );
+        })}
+      </p>
+
+      {results ? (
+        <p className="flex items-center gap-2 text-sm text-muted-foreground">
+          {results.every(Boolean)
+            ? <CheckCircle2 className="w-4 h-4 text-green-500" />
+            : <XCircle className="w-4 h-4 text-red-500" />}
+          {results.filter(Boolean).length} of {blanks.length} blanks correct
+        </p>
+      ) : onSubmit && (
+        <Button
+          onClick={() => onSubmit(answers)}
+          disabled={disabled || answers.some(a => !a.trim())}
+          className="rounded-xl bg-primary hover:bg-primary/90"
+        >
+          Submit Answers
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import { Layers } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { SectionCoverage } from "@/lib/sections";
+
+interface CoverageSummaryProps {
+  coverage: SectionCoverage[];
+}
+
+// Which sections of the material the quiz actually asks about
+export const CoverageSummary = ({ coverage }: CoverageSummaryProps) => {
+  if (coverage.length === 0) return null;
+
+  const tested = coverage.filter(s => s.generated > 0);
+  const totalChars = coverage.reduce((sum, s) => sum + s.chars, 0) || 1;
+  const testedChars = tested.reduce((sum, s) => sum + s.chars, 0);
+  const maxGenerated = Math.max(1, ...coverage.map(s => s.generated));
+
+  return (
+    <div className="bg-card/50 border border-border/50 rounded-2xl p-6 mb-8 w-full max-w-md">
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="font-semibold text-foreground flex items-center gap-2">
+          <Layers className="w-4 h-4 text-primary" />
+          Coverage
+        </h3>
+        <span className="text-sm text-foreground font-medium">
+          {tested.length}/{coverage.length} sections
+        </span>
+      </div>
+      <p className="text-xs text-muted-foreground mb-4">
+        Questions come from {Math.round((testedChars / totalChars) * 100)}% of your material
+      </p>
+
+      <ul className="space-y-2 max-h-56 overflow-y-auto pr-1">
+        {coverage.map((s, i) => (
+          <li key={`${s.id}-${i}`} className="text-xs">
+            <div className="flex justify-between gap-3">
+              <span
+                className={cn("truncate", s.generated > 0 ? "text-foreground" : "text-muted-foreground")}
+                title={s.label}
+              >
+                {s.label}
+              </span>
+              <span className={cn("shrink-0", s.generated > 0 ? "text-foreground font-medium" : "text-muted-foreground")}>
+                {s.generated > 0 ? s.generated : "not tested"}
+              </span>
+            </div>
+            <div className="mt-1 h-1 rounded-full bg-muted overflow-hidden">
+              <div
+                className="h-full rounded-full bg-primary"
+                style={{ width: `${(s.generated / maxGenerated) * 100}%` }}
+              />
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
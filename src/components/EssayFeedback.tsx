@@ -0,0 +1,45 @@
+import { cn } from "@/lib/utils";
+import type { EssayGrade } from "@/types/questions";
+
+interface EssayFeedbackProps {
+  grade: EssayGrade;
+  className?: string;
+}
+
+const scoreColor = (awarded: number, points: number) => {
+  const share = points > 0 ? awarded / points : 0;
+  if (share >= 0.8) return "text-green-500";
+  if (share >= 0.5) return "text-yellow-500";
+  return "text-red-500";
+};
+
+export const EssayFeedback = ({ grade, className }: EssayFeedbackProps) => {
+  return (
+    <div className={cn("p-4 rounded-xl border border-border/50 bg-secondary/30 space-y-3", className)}>
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium text-foreground">Rubric score</p>
+        <span className={cn("text-sm font-semibold", scoreColor(grade.score, grade.maxScore))}>
+          {grade.score}/{grade.maxScore} points
+        </span>
+      </div>
+
+      <ul className="space-y-2">
+        {grade.criteria.map((c, i) => (
+          <li key={i} className="text-sm">
+            <div className="flex items-start justify-between gap-3">
+              <span className="text-foreground">{c.criterion}</span>
+              <span className={cn("shrink-0 font-medium", scoreColor(c.awarded, c.points))}>
+                {c.awarded}/{c.points}
+              </span>
+            </div>
+            <p className="text-xs text-muted-foreground mt-0.5">{c.feedback}</p>
+          </li>
+        ))}
+      </ul>
+
+      {grade.feedback && (
+        <p className="text-xs text-muted-foreground pt-2 border-t border-border/50">{grade.feedback}</p>
+      )}
+    </div>
+  );
+};
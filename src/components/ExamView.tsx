@@ -0,0 +1,351 @@
+import { useEffect, useRef, useState } from "react";
+import { Check, ChevronLeft, ChevronRight, Clock, Flag, Loader2, Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { Question } from "./GeneratorPanel";
+import { MathText } from "./MathRenderer";
+import { MatchingQuestion } from "./MatchingQuestion";
+import { OrderingQuestion } from "./OrderingQuestion";
+import { ClozeQuestion } from "./ClozeQuestion";
+import { cn } from "@/lib/utils";
+import { formatDuration } from "@/lib/quizHistory";
+import type { MultiSelectScoring } from "@/lib/multiSelect";
+
+/** An answer as it stands before the exam is submitted — only the fields its question type uses */
+export interface ExamDraft {
+  selectedOption?: number; // MC/TF
+  selectedOptions?: number[]; // multi-select
+  text?: string; // fill-blank/short-answer/essay/numeric
+  arrangement?: (number | null)[]; // matching/ordering
+  blankAnswers?: string[]; // cloze
+}
+
+interface ExamViewProps {
+  questions: Question[];
+  /** Minutes allowed for the whole exam */
+  timeLimit: number;
+  questionText: (question: Question) => string;
+  multiSelectScoring: MultiSelectScoring;
+  /** Marks the drafts; called once, by the student or when time runs out */
+  onSubmit: (drafts: Record<number, ExamDraft>, secondsTaken: number) => Promise<void>;
+}
+
+// The timer turns red for the last minute
+const FINAL_SECONDS = 60;
+
+const hasAnswer = (draft: ExamDraft | undefined) =>
+  !!draft && (
+    draft.selectedOption !== undefined ||
+    !!draft.selectedOptions?.length ||
+    !!draft.text?.trim() ||
+    !!draft.arrangement?.some(a => a !== null) ||
+    !!draft.blankAnswers?.some(a => a.trim())
+  );
+
+// Timed run through the whole quiz: move freely between questions, flag any to
+// come back to, and see no marks until the exam is submitted
+export const ExamView = ({ questions, timeLimit, questionText, multiSelectScoring, onSubmit }: ExamViewProps) => {
+  const [startedAt] = useState(() => Date.now());
+  const [now, setNow] = useState(startedAt);
+  const [current, setCurrent] = useState(0);
+  const [drafts, setDrafts] = useState<Record<number, ExamDraft>>({});
+  const [flagged, setFlagged] = useState<Set<number>>(new Set());
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const submitted = useRef(false);
+
+  const remaining = Math.max(0, Math.ceil((startedAt + timeLimit * 60000 - now) / 1000));
+  const question = questions[current];
+  const draft = drafts[current] ?? {};
+  const answeredCount = questions.filter((_, i) => hasAnswer(drafts[i])).length;
+  const locked = isSubmitting || remaining === 0;
+
+  const submit = async () => {
+    if (submitted.current) return;
+    submitted.current = true;
+    setIsSubmitting(true);
+    setIsConfirming(false);
+    await onSubmit(drafts, Math.min(timeLimit * 60, Math.round((Date.now() - startedAt) / 1000)));
+  };
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Out of time — hand in whatever is there
+  useEffect(() => {
+    if (remaining === 0) submit();
+  });
+
+  const updateDraft = (change: ExamDraft) => {
+    setDrafts(prev => ({ ...prev, [current]: { ...prev[current], ...change } }));
+  };
+
+  const toggleOption = (index: number) => {
+    const ticked = draft.selectedOptions ?? [];
+    updateDraft({
+      selectedOptions: ticked.includes(index) ? ticked.filter(i => i !== index) : [...ticked, index].sort((a, b) => a - b),
+    });
+  };
+
+  const toggleFlag = () => {
+    setFlagged(prev => {
+      const next = new Set(prev);
+      if (next.has(current)) next.delete(current);
+      else next.add(current);
+      return next;
+    });
+  };
+
+  const goTo = (index: number) => {
+    setCurrent(index);
+    setIsConfirming(false);
+  };
+
+  const unanswered = questions.length - answeredCount;
+
+  return (
+    <div className="max-w-2xl mx-auto py-8 px-4">
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <span className="text-sm text-muted-foreground">
+          Question {current + 1} of {questions.length} · {answeredCount} answered
+        </span>
+        <div className="flex items-center gap-3">
+          <span
+            className={cn(
+              "flex items-center gap-1.5 px-3 py-1 rounded-full text-sm font-medium tabular-nums",
+              remaining <= FINAL_SECONDS ? "bg-red-500/10 text-red-500" : "bg-secondary text-foreground"
+            )}
+            aria-label="Time remaining"
+          >
+            <Clock className="w-4 h-4" />
+            {formatDuration(remaining)}
+          </span>
+          <Button
+            onClick={() => (unanswered > 0 || flagged.size > 0 ? setIsConfirming(true) : submit())}
+            disabled={isSubmitting}
+            size="sm"
+            className="rounded-xl bg-primary hover:bg-primary/90"
+          >
+            <Send className="w-4 h-4 mr-2" />
+            Submit Exam
+          </Button>
+        </div>
+      </div>
+
+      {isSubmitting ? (
+        <div className="flex items-center justify-center gap-2 p-4 mb-4 rounded-xl bg-primary/5 border border-primary/40 text-sm text-foreground">
+          <Loader2 className="w-4 h-4 animate-spin text-primary" />
+          {remaining === 0 ? "Time's up — marking your answers..." : "Marking your answers..."}
+        </div>
+      ) : isConfirming && (
+        <div className="flex flex-wrap items-center justify-between gap-3 p-4 mb-4 rounded-xl border border-amber-500/30 bg-amber-500/10">
+          <p className="text-sm text-foreground">
+            {[
+              unanswered > 0 && `${unanswered} question${unanswered === 1 ? "" : "s"} unanswered`,
+              flagged.size > 0 && `${flagged.size} flagged for review`,
+            ].filter(Boolean).join(" and ")}. Submit anyway?
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" className="rounded-xl" onClick={() => setIsConfirming(false)}>
+              Keep Working
+            </Button>
+            <Button size="sm" className="rounded-xl bg-primary hover:bg-primary/90" onClick={submit}>
+              Submit
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Navigator — answered, flagged and current at a glance */}
+      <div className="grid grid-cols-10 gap-1.5 mb-2">
+        {questions.map((q, i) => (
+          <button
+            key={q.id}
+            onClick={() => goTo(i)}
+            aria-label={`Question ${i + 1}${flagged.has(i) ? ", flagged" : ""}${hasAnswer(drafts[i]) ? ", answered" : ""}`}
+            className={cn(
+              "relative h-8 rounded-lg text-xs font-medium transition-all",
+              hasAnswer(drafts[i]) ? "bg-primary/20 text-primary" : "bg-secondary text-muted-foreground hover:text-foreground",
+              i === current && "ring-2 ring-primary"
+            )}
+          >
+            {i + 1}
+            {flagged.has(i) && <Flag className="absolute -top-1 -right-1 w-3 h-3 text-amber-500 fill-amber-500" />}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground mb-6">
+        {flagged.size > 0 ? `${flagged.size} flagged · ` : ""}Answers can be changed until you submit
+      </p>
+
+      <div className="bg-card/50 border border-border/50 rounded-2xl p-6 mb-6">
+        <div className="flex items-center gap-2 mb-4">
+          <span className="px-2 py-1 text-xs font-medium rounded-full bg-primary/20 text-primary capitalize">
+            {question.type.replace("-", " ")}
+          </span>
+          {question.topic && (
+            <span className="px-2 py-1 text-xs font-medium rounded-full bg-secondary text-muted-foreground">
+              {question.topic}
+            </span>
+          )}
+          <button
+            onClick={toggleFlag}
+            className={cn(
+              "ml-auto text-xs flex items-center gap-1",
+              flagged.has(current) ? "text-amber-500" : "text-muted-foreground hover:text-foreground"
+            )}
+          >
+            <Flag className={cn("w-3 h-3", flagged.has(current) && "fill-amber-500")} />
+            {flagged.has(current) ? "Flagged" : "Flag for review"}
+          </button>
+        </div>
+        <h2 className="text-xl font-semibold text-foreground mb-6">
+          <MathText text={questionText(question)} />
+        </h2>
+
+        {/* Multiple Choice & True/False */}
+        {(question.type === "multiple-choice" || question.type === "true-false") && (
+          <div className="space-y-3">
+            {question.options.map((option, index) => (
+              <button
+                key={index}
+                onClick={() => updateDraft({ selectedOption: index })}
+                disabled={locked}
+                className={cn(
+                  "w-full p-4 text-left rounded-xl border transition-all duration-200",
+                  draft.selectedOption === index
+                    ? "border-primary bg-primary/10"
+                    : "border-border/50 hover:border-primary hover:bg-primary/5"
+                )}
+              >
+                <span className="font-medium">{String.fromCharCode(65 + index)}.</span>{" "}
+                <MathText text={option} />
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Multi-select */}
+        {question.type === "multi-select" && (
+          <div className="space-y-3">
+            <p className="text-xs text-muted-foreground">
+              Select all that apply · {multiSelectScoring === "all-or-nothing" ? "all or nothing" : "right minus wrong"}
+            </p>
+            {question.options.map((option, index) => {
+              const ticked = draft.selectedOptions?.includes(index) ?? false;
+              return (
+                <button
+                  key={index}
+                  onClick={() => toggleOption(index)}
+                  disabled={locked}
+                  className={cn(
+                    "w-full flex items-center gap-3 p-4 text-left rounded-xl border transition-all duration-200",
+                    ticked ? "border-primary bg-primary/10" : "border-border/50 hover:border-primary hover:bg-primary/5"
+                  )}
+                >
+                  <span className={cn(
+                    "w-5 h-5 shrink-0 rounded border flex items-center justify-center",
+                    ticked ? "bg-primary border-primary text-primary-foreground" : "border-muted-foreground/50"
+                  )}>
+                    {ticked && <Check className="w-3.5 h-3.5" />}
+                  </span>
+                  <span className="flex-1"><MathText text={option} /></span>
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Fill in the Blank & Numeric */}
+        {(question.type === "fill-blank" || question.type === "numeric") && (
+          <Input
+            type="text"
+            inputMode={question.type === "numeric" ? "decimal" : undefined}
+            placeholder={question.type === "numeric" && question.numeric?.unit
+              ? `Value and unit, e.g. 9.8 ${question.numeric.unit}`
+              : "Type your answer..."}
+            value={draft.text ?? ""}
+            onChange={(e) => updateDraft({ text: e.target.value })}
+            disabled={locked}
+            className="w-full p-4 rounded-xl"
+          />
+        )}
+
+        {/* Short Answer & Essay */}
+        {(question.type === "short-answer" || question.type === "essay") && (
+          <div className="space-y-2">
+            <textarea
+              placeholder={question.type === "essay" ? "Write your answer..." : "Type your answer..."}
+              value={draft.text ?? ""}
+              onChange={(e) => updateDraft({ text: e.target.value })}
+              disabled={locked}
+              className={cn(
+                "w-full p-4 rounded-xl bg-background border border-border/50 focus:outline-none focus:ring-2 focus:ring-primary",
+                question.type === "essay" ? "min-h-[280px] resize-y" : "min-h-[120px] resize-none"
+              )}
+            />
+            {question.type === "essay" && (
+              <span className="text-xs text-muted-foreground">
+                {(draft.text ?? "").trim().split(/\s+/).filter(Boolean).length} words
+              </span>
+            )}
+          </div>
+        )}
+
+        {/* Matching */}
+        {question.type === "matching" && question.pairs && (
+          <MatchingQuestion
+            key={question.id}
+            questionId={question.id}
+            pairs={question.pairs}
+            initial={draft.arrangement}
+            onChange={(arrangement) => updateDraft({ arrangement })}
+            disabled={locked}
+          />
+        )}
+
+        {/* Ordering */}
+        {question.type === "ordering" && question.steps && (
+          <OrderingQuestion
+            key={question.id}
+            questionId={question.id}
+            steps={question.steps}
+            initial={draft.arrangement as number[] | undefined}
+            onChange={(arrangement) => updateDraft({ arrangement })}
+            disabled={locked}
+          />
+        )}
+
+        {/* Cloze */}
+        {question.type === "cloze" && question.blanks && (
+          <ClozeQuestion
+            key={question.id}
+            passage={question.question}
+            blanks={question.blanks}
+            initial={draft.blankAnswers}
+            onChange={(blankAnswers) => updateDraft({ blankAnswers })}
+            disabled={locked}
+          />
+        )}
+      </div>
+
+      <div className="flex justify-between">
+        <Button onClick={() => goTo(current - 1)} disabled={current === 0} variant="outline" className="rounded-xl">
+          <ChevronLeft className="w-4 h-4 mr-2" />
+          Previous
+        </Button>
+        <Button
+          onClick={() => goTo(current + 1)}
+          disabled={current === questions.length - 1}
+          variant="outline"
+          className="rounded-xl"
+        >
+          Next
+          <ChevronRight className="w-4 h-4 ml-2" />
+        </Button>
+      </div>
+    </div>
+  );
+};
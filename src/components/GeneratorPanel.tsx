@@ -1,63 +1,123 @@
-import { useState, useCallback } from "react";
-import { Sparkles, ArrowRight, Loader2, AlertCircle } from "lucide-react";
+import { useState, useCallback, useRef, useEffect } from "react";
+import { Sparkles, ArrowRight, Loader2, AlertCircle, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { UploadCard } from "./UploadCard";
 import { QuestionTypeSelector } from "./QuestionTypeSelector";
 import { GeneratorSettings } from "./GeneratorSettings";
+import { TopicPicker } from "./TopicPicker";
 import { extractAllFilesContent } from "@/lib/fileExtractor";
-import { generateQuestionsWithGemini } from "@/lib/geminiClient";
+import { resolveTypeCounts } from "@/lib/questionGenerator";
+import { generateQuestionsWithGemini, generateQuestionsInBatches, type GenerationMetadata, type DroppedQuestion, type VerificationStatus, summarizeVerification } from "@/lib/geminiClient";
+import { type MaterialSection, type QuestionSource, type SectionCoverage, type SectionWeights, splitIntoSections } from "@/lib/sections";
+import type { NumericKey } from "@/lib/numericAnswer";
+import type { MathTemplate } from "@/lib/mathTemplate";
+import { type ClozeBlank, type MatchingPair, type QuestionCategory, type RubricCriterion, type TypeMix, defaultGenerationConfig } from "@/types/questions";
 import { processPdfStream } from "@/lib/pdf-processor";
+import { getCached, putCached, questionsKey } from "@/lib/contentCache";
+import { documentHash, getDedupMemoryWithSync, rememberQuestionsWithSync } from "@/lib/dedupMemory";
+import { saveToBankWithSync } from "@/lib/questionBank";
+import { useAuth } from "@/contexts/AuthContext";
 
 export interface Question {
   id: string;
   type: string;
   question: string;
   options: string[];
-  correctAnswer: number | string;
+  correctAnswer: number | string | number[];
   explanation?: string;
   topic?: string;
+  section?: string;
+  source?: QuestionSource;
+  verified?: VerificationStatus;
+  verificationNote?: string;
+  category?: QuestionCategory;
+  rubric?: RubricCriterion[];
+  hints?: string[];
+  pairs?: MatchingPair[];
+  steps?: string[];
+  blanks?: ClozeBlank[];
+  numeric?: NumericKey;
+  template?: MathTemplate;
 }
 
 export interface GeneratedQuizData {
   files: File[];
   questionTypes: string[];
   questionCount: number;
+  /** Questions requested per type */
+  typeCounts?: Record<string, number>;
   difficulty: string;
   questions: Question[];
+  /** True while more questions are still arriving from the generator */
+  isStreaming?: boolean;
+  /** Server report for the finished run — model used, invalid items dropped */
+  metadata?: GenerationMetadata;
+  /** Question-cache entry for this quiz, so edits made in Practice update it */
+  cacheKey?: string;
+  /** File names for a quiz assembled from the question bank, which has no files to hand */
+  sourceFiles?: string[];
+  /** A spaced-repetition review session rather than a new quiz */
+  isReview?: boolean;
 }
 
+// Below this many natively extracted words the files are treated as scanned and
+// go through OCR, which reads them page by page with no outline to pick topics from
+const MIN_NATIVE_WORDS = 50;
+const SCANNED_TOPICS_NOTICE = "These files look scanned, so there's no outline to pick from — questions will cover every page.";
+
 interface GeneratorPanelProps {
   onGenerate?: (data: GeneratedQuizData) => void;
   /** Called with growing questions list during streaming — does NOT switch tabs */
-  onUpdateQuestions?: (questions: Question[]) => void;
+  onUpdateQuestions?: (questions: Question[], isStreaming?: boolean, metadata?: GenerationMetadata) => void;
   files: File[];
   onFilesChange: (files: File[]) => void;
   onExtractedContent?: (content: string) => void;
 }
 
-// Module-level dedup tracking persists across renders and generation runs
-const previousTopics: string[] = [];
-const previousQuestions: string[] = [];
-
-function trackQuestions(questions: Question[]) {
-  questions.forEach((q: Question) => {
-    if (q.topic && !previousTopics.includes(q.topic)) previousTopics.push(q.topic);
-    const key = q.question.slice(0, 150);
-    if (!previousQuestions.includes(key)) previousQuestions.push(key);
-  });
-  if (previousTopics.length > 500) previousTopics.splice(0, previousTopics.length - 500);
-  if (previousQuestions.length > 500) previousQuestions.splice(0, previousQuestions.length - 500);
-}
-
 export const GeneratorPanel = ({
   onGenerate, onUpdateQuestions, files, onFilesChange, onExtractedContent
 }: GeneratorPanelProps) => {
+  const { user } = useAuth();
   const [selectedTypes, setSelectedTypes] = useState<string[]>([]);
   const [questionCount, setQuestionCount] = useState(20);
   const [difficulty, setDifficulty] = useState("medium");
+  const [verifyAnswers, setVerifyAnswers] = useState(false);
+  const [includeHints, setIncludeHints] = useState(defaultGenerationConfig.includeHints);
+  const [typeMix, setTypeMix] = useState<TypeMix>({ mode: "even", values: {} });
   const [isGenerating, setIsGenerating] = useState(false);
   const [generationProgress, setGenerationProgress] = useState("");
   const [error, setError] = useState<string | null>(null);
+  // Set when the last Generate reused a cached quiz rather than asking for new questions
+  const [usedCache, setUsedCache] = useState(false);
+  // Outline of the uploaded material for the topic picker — null until asked for
+  const [topics, setTopics] = useState<MaterialSection[] | null>(null);
+  const [topicWeights, setTopicWeights] = useState<SectionWeights>({});
+  const [isLoadingTopics, setIsLoadingTopics] = useState(false);
+  const [topicsNotice, setTopicsNotice] = useState<string | null>(null);
+
+  // Section ids belong to one set of files — a different upload starts over
+  useEffect(() => {
+    setTopics(null);
+    setTopicWeights({});
+    setTopicsNotice(null);
+  }, [files]);
+
+  const handleLoadTopics = async () => {
+    setIsLoadingTopics(true);
+    try {
+      // Cached by file hash, so Generate doesn't read the files a second time
+      const extracted = await extractAllFilesContent(files);
+      if (extracted.totalWordCount < MIN_NATIVE_WORDS) {
+        setTopicsNotice(SCANNED_TOPICS_NOTICE);
+      } else {
+        setTopics(splitIntoSections(extracted.combinedText));
+      }
+    } catch (err) {
+      setTopicsNotice((err instanceof Error && err.message) || "Couldn't read an outline from these files.");
+    } finally {
+      setIsLoadingTopics(false);
+    }
+  };
 
   const handleToggleType = useCallback((id: string) => {
     setSelectedTypes(prev =>
@@ -65,41 +125,122 @@ export const GeneratorPanel = ({
     );
   }, []);
 
-  const canGenerate = files.length > 0 && selectedTypes.length > 0 && !isGenerating;
+  // Exact questions per type; in "count" mode these also set the total
+  const typeCounts = resolveTypeCounts(selectedTypes, questionCount, typeMix);
+  const totalQuestions = Object.values(typeCounts).reduce((sum, n) => sum + n, 0);
+
+  const noTopics = topics !== null && topics.every(t => (topicWeights[t.id] ?? 1) === 0);
+  const canGenerate = files.length > 0 && selectedTypes.length > 0 && totalQuestions > 0 && !noTopics && !isGenerating;
+
+  // Aborts the run in progress — extraction, OCR and every pending request
+  const abortRef = useRef<AbortController | null>(null);
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    setGenerationProgress("Cancelling...");
+  };
+
+  // fresh skips the cached quiz for these files and settings and asks for new questions
+  const handleGenerate = async (fresh = false) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
 
-  const handleGenerate = async () => {
     setIsGenerating(true);
     setError(null);
+    setUsedCache(false);
     setGenerationProgress("Extracting text from files...");
 
+    // Questions already handed to Practice — kept if generation fails part-way
+    let delivered: Question[] | null = null;
+    // Whatever the student is given goes into the document's memory, so the next quiz avoids it,
+    // and into their question bank
+    const uid = user?.uid ?? null;
+    let docHash: string | null = null;
+    const remember = (questions: Question[]) => {
+      if (docHash) rememberQuestionsWithSync(docHash, questions, uid);
+      saveToBankWithSync(questions, { sourceFiles: files.map(f => f.name), difficulty }, uid);
+    };
+
     try {
       // ── Fast path: native text extraction (text-based PDFs, DOCX, TXT) ──────
       const extracted = await extractAllFilesContent(files, (_, message) => {
         setGenerationProgress(message);
-      });
+      }, signal);
 
-      if (extracted.totalWordCount >= 50) {
-        // Plenty of native text — generate questions in one shot
+      docHash = await documentHash(files);
+      const memory = await getDedupMemoryWithSync(docHash, uid);
+
+      if (extracted.totalWordCount >= MIN_NATIVE_WORDS) {
+        // Plenty of native text — stream questions in as the model writes them,
+        // a few section batches at a time so large quizzes fit the time limit
         onExtractedContent?.(extracted.combinedText);
+
+        const config = {
+          questionTypes: selectedTypes,
+          questionCount: totalQuestions,
+          typeCounts,
+          difficulty,
+          previousTopics: memory.topics.slice(-100),
+          previousQuestions: memory.questions,
+          verifyAnswers,
+          includeHints,
+          mathTemplates: extracted.hasMathContent,
+          ...(topics ? { sectionWeights: topicWeights } : {}),
+        };
+
+        // Same material and settings as an earlier finished run — reuse its questions
+        const cacheKey = await questionsKey(extracted.combinedText, config);
+        const cached = fresh ? null : await getCached<{ questions: Question[]; metadata?: GenerationMetadata }>(cacheKey);
+        if (cached) {
+          onGenerate?.({ files, questionTypes: selectedTypes, questionCount: totalQuestions, typeCounts, difficulty, ...cached, cacheKey });
+          setUsedCache(true);
+          return;
+        }
+
         setGenerationProgress("Generating questions with AI...");
 
-        const questions = await generateQuestionsWithGemini(
+        const streamed: Question[] = [];
+        const { questions, metadata, remainingBatches, totalBatches, error: batchError } = await generateQuestionsInBatches(
           extracted.combinedText,
-          '',
-          {
-            questionTypes: selectedTypes,
-            questionCount,
-            difficulty,
-            previousTopics: previousTopics.slice(-100),
-            previousQuestions: previousQuestions.slice(-100),
+          config,
+          (question) => {
+            streamed.push(question);
+            if (!delivered) {
+              // First question ready: send user straight to Practice tab
+              delivered = streamed;
+              onGenerate?.({
+                files,
+                questionTypes: selectedTypes,
+                questionCount: totalQuestions,
+                typeCounts,
+                difficulty,
+                questions: [...streamed],
+                isStreaming: true,
+                cacheKey,
+              });
+            } else {
+              onUpdateQuestions?.([...streamed], true);
+            }
           },
-          (progress) => setGenerationProgress(progress)
+          (progress) => setGenerationProgress(progress),
+          signal
         );
 
         if (!questions?.length) throw new Error("No questions were generated. Please try again.");
 
-        trackQuestions(questions);
-        onGenerate?.({ files, questionTypes: selectedTypes, questionCount, difficulty, questions });
+        onUpdateQuestions?.([...questions], false, metadata);
+        remember(questions);
+        if (remainingBatches === 0 && !signal.aborted) {
+          await putCached(cacheKey, 'questions', files.map(f => f.name).join(', '), { questions, metadata });
+        }
+        // A cancelled run is saved the same way, but the user knows why it stopped
+        if (remainingBatches > 0 && !signal.aborted) {
+          setError(
+            `${remainingBatches} of ${totalBatches} batches didn't finish (${batchError}). ` +
+            `The ${questions.length} questions so far are saved — generate again with the same files and settings to finish the rest.`
+          );
+        }
         return;
       }
 
@@ -113,68 +254,100 @@ export const GeneratorPanel = ({
       }
 
       setGenerationProgress("Scanned PDF detected — initialising OCR workers...");
+      // Topic weights can't apply to OCR text, so the picker says so instead of looking ignored
+      setTopics(null);
+      setTopicWeights({});
+      setTopicsNotice(SCANNED_TOPICS_NOTICE);
 
       const allQuestions: Question[] = [];
       let accumulatedText = '';
       let allExtractedText = '';
       const CHUNK_CHARS = 3000;
-      const questionsPerChunk = Math.min(5, questionCount);
+      const questionsPerChunk = Math.min(5, totalQuestions);
       let firstBatchDone = false;
+      const dropped: DroppedQuestion[] = [];
+      const coverage: SectionCoverage[] = [];
+      let usedModel = '';
+      let verifierModel = '';
+      // Each chunk is planned on its own and numbers its sections from S1, so
+      // later chunks are shifted past the ones already reported
+      let sectionOffset = 0;
+      const renumber = (id: string) => id.replace(/^S(\d+)$/, (_, n) => `S${Number(n) + sectionOffset}`);
 
       const generateFromChunk = async (text: string): Promise<Question[]> => {
         if (text.trim().length < 100) return [];
         try {
-          return await generateQuestionsWithGemini(
+          const result = await generateQuestionsWithGemini(
             text,
-            '',
             {
               questionTypes: selectedTypes,
-              questionCount: Math.min(questionsPerChunk, Math.max(1, questionCount - allQuestions.length)),
+              typeCounts,
+              questionCount: Math.min(questionsPerChunk, Math.max(1, totalQuestions - allQuestions.length)),
               difficulty,
-              previousTopics: previousTopics.slice(-100),
-              previousQuestions: previousQuestions.slice(-100),
+              previousTopics: [...memory.topics, ...allQuestions.flatMap(q => (q.topic ? [q.topic] : []))].slice(-100),
+              // Earlier chunks of this scan count too
+              previousQuestions: [...memory.questions, ...allQuestions.map(q => q.question.slice(0, 150))],
+              verifyAnswers,
+              includeHints,
+              mathTemplates: extracted.hasMathContent,
             },
-            () => {}
+            () => {},
+            signal
           );
+          dropped.push(...(result.metadata?.dropped.reasons ?? []));
+          const chunkCoverage = (result.metadata?.coverage ?? []).map(c => ({ ...c, id: renumber(c.id) }));
+          const chunkQuestions = result.questions.map(q => (q.section ? { ...q, section: renumber(q.section) } : q));
+          coverage.push(...chunkCoverage);
+          sectionOffset = Math.max(sectionOffset, ...chunkCoverage.map(c => Number(c.id.slice(1)) || 0));
+          usedModel = result.metadata?.model || usedModel;
+          verifierModel = result.metadata?.verification?.model || verifierModel;
+          return chunkQuestions;
         } catch {
           return [];
         }
       };
 
       for (const pdfFile of pdfFiles) {
-        for await (const pageData of processPdfStream(pdfFile)) {
+        // Same markers as native extraction so sections carry file and page labels
+        accumulatedText += `=== ${pdfFile.name} ===\n`;
+        allExtractedText += `=== ${pdfFile.name} ===\n`;
+
+        for await (const pageData of processPdfStream(pdfFile, signal)) {
           setGenerationProgress(
             `Scanning page ${pageData.page} of ${pageData.totalPages}` +
             (allQuestions.length > 0 ? ` · ${allQuestions.length} questions ready` : '') +
             '...'
           );
 
-          accumulatedText += pageData.text + '\n\n';
-          allExtractedText += pageData.text + '\n\n';
+          const pageText = `[Page ${pageData.page}]\n${pageData.text}\n\n`;
+          accumulatedText += pageText;
+          allExtractedText += pageText;
 
           // Generate questions once we have a substantial chunk
-          if (accumulatedText.length >= CHUNK_CHARS && allQuestions.length < questionCount) {
+          if (accumulatedText.length >= CHUNK_CHARS && allQuestions.length < totalQuestions) {
             setGenerationProgress("Generating questions from scanned content...");
 
             const chunkQuestions = await generateFromChunk(accumulatedText);
             if (chunkQuestions.length > 0) {
-              trackQuestions(chunkQuestions);
               allQuestions.push(...chunkQuestions);
-              accumulatedText = '';
+              accumulatedText = `=== ${pdfFile.name} ===\n`;
 
               if (!firstBatchDone) {
                 // First questions ready: send user straight to Practice tab
                 onGenerate?.({
                   files,
                   questionTypes: selectedTypes,
-                  questionCount,
+                  questionCount: totalQuestions,
+                  typeCounts,
                   difficulty,
                   questions: [...allQuestions],
+                  isStreaming: true,
                 });
+                delivered = allQuestions;
                 firstBatchDone = true;
               } else {
                 // Append more questions without switching tabs
-                onUpdateQuestions?.([...allQuestions]);
+                onUpdateQuestions?.([...allQuestions], true);
               }
             }
           }
@@ -182,11 +355,10 @@ export const GeneratorPanel = ({
       }
 
       // Final chunk — remaining accumulated text
-      if (accumulatedText.trim().length >= 100 && allQuestions.length < questionCount) {
+      if (accumulatedText.trim().length >= 100 && allQuestions.length < totalQuestions && !signal.aborted) {
         setGenerationProgress("Finalising questions...");
         const finalQuestions = await generateFromChunk(accumulatedText);
         if (finalQuestions.length > 0) {
-          trackQuestions(finalQuestions);
           allQuestions.push(...finalQuestions);
         }
       }
@@ -201,16 +373,32 @@ export const GeneratorPanel = ({
 
       onExtractedContent?.(allExtractedText.trim());
 
+      const metadata: GenerationMetadata = {
+        generatedCount: allQuestions.length,
+        model: usedModel,
+        dropped: { count: dropped.length, reasons: dropped },
+        coverage,
+        ...(verifyAnswers ? { verification: summarizeVerification(allQuestions, verifierModel) } : {}),
+      };
       if (!firstBatchDone) {
-        onGenerate?.({ files, questionTypes: selectedTypes, questionCount, difficulty, questions: allQuestions });
+        onGenerate?.({ files, questionTypes: selectedTypes, questionCount: totalQuestions, typeCounts, difficulty, questions: allQuestions, metadata });
       } else {
-        onUpdateQuestions?.([...allQuestions]);
+        onUpdateQuestions?.([...allQuestions], false, metadata);
       }
+      remember(allQuestions);
 
     } catch (err: any) {
-      console.error("Generation error:", err);
-      setError(err.message || "Failed to generate questions. Please try again.");
+      // Whatever already reached Practice stays usable as a partial quiz
+      if (delivered) {
+        onUpdateQuestions?.([...delivered], false);
+        remember(delivered);
+      }
+      if (!signal.aborted) {
+        console.error("Generation error:", err);
+        setError(err.message || "Failed to generate questions. Please try again.");
+      }
     } finally {
+      abortRef.current = null;
       setIsGenerating(false);
       setGenerationProgress("");
     }
@@ -249,6 +437,23 @@ export const GeneratorPanel = ({
       <section className="space-y-4">
         <div className="flex items-center gap-3">
           <div className="w-8 h-8 rounded-full bg-primary/20 flex items-center justify-center text-primary font-semibold text-sm">3</div>
+          <h2 className="text-lg font-semibold text-foreground">Pick topics <span className="text-sm font-normal text-muted-foreground">(optional)</span></h2>
+        </div>
+        <TopicPicker
+          topics={topics}
+          weights={topicWeights}
+          onWeightsChange={setTopicWeights}
+          onLoad={handleLoadTopics}
+          loading={isLoadingTopics}
+          notice={topicsNotice}
+          disabled={files.length === 0 || isGenerating}
+        />
+      </section>
+
+      {/* Step 4 */}
+      <section className="space-y-4">
+        <div className="flex items-center gap-3">
+          <div className="w-8 h-8 rounded-full bg-primary/20 flex items-center justify-center text-primary font-semibold text-sm">4</div>
           <h2 className="text-lg font-semibold text-foreground">Configure your quiz</h2>
         </div>
         <div className="p-6 rounded-2xl bg-card/50 border border-border/50">
@@ -257,6 +462,14 @@ export const GeneratorPanel = ({
             onQuestionCountChange={setQuestionCount}
             difficulty={difficulty}
             onDifficultyChange={setDifficulty}
+            verifyAnswers={verifyAnswers}
+            onVerifyAnswersChange={setVerifyAnswers}
+            includeHints={includeHints}
+            onIncludeHintsChange={setIncludeHints}
+            questionTypes={selectedTypes}
+            typeMix={typeMix}
+            onTypeMixChange={setTypeMix}
+            typeCounts={typeCounts}
           />
         </div>
       </section>
@@ -276,17 +489,34 @@ export const GeneratorPanel = ({
           size="lg"
           className="w-full h-14 text-base font-semibold rounded-xl bg-primary hover:bg-primary/90 transition-all duration-300 hover:scale-[1.02] disabled:opacity-50 disabled:hover:scale-100"
           disabled={!canGenerate}
-          onClick={handleGenerate}
+          onClick={() => handleGenerate()}
         >
           {isGenerating ? (
             <><Loader2 className="w-5 h-5 mr-2 animate-spin" />{generationProgress || "Generating..."}</>
           ) : (
-            <><Sparkles className="w-5 h-5 mr-2" />Generate {questionCount} Questions<ArrowRight className="w-5 h-5 ml-2" /></>
+            <><Sparkles className="w-5 h-5 mr-2" />Generate {totalQuestions} Questions<ArrowRight className="w-5 h-5 ml-2" /></>
           )}
         </Button>
+        {isGenerating && (
+          <Button
+            variant="outline"
+            className="w-full mt-3 rounded-xl"
+            onClick={handleCancel}
+          >
+            <X className="w-4 h-4 mr-2" />Cancel
+          </Button>
+        )}
+        {usedCache && !isGenerating && (
+          <p className="text-center text-sm text-muted-foreground mt-3">
+            Loaded the quiz you generated from these files before.{" "}
+            <button onClick={() => handleGenerate(true)} className="text-primary hover:underline">
+              Generate new questions
+            </button>
+          </p>
+        )}
         {!canGenerate && !isGenerating && (
           <p className="text-center text-sm text-muted-foreground mt-3">
-            {files.length === 0 ? "Upload at least one file to continue" : "Select at least one question type"}
+            {files.length === 0 ? "Upload at least one file to continue" : noTopics ? "Pick at least one topic" : "Select at least one question type"}
           </p>
         )}
       </div>
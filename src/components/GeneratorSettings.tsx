@@ -1,42 +1,145 @@
 import { cn } from "@/lib/utils";
 import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import type { TypeMix, TypeMixMode } from "@/types/questions";
 
 interface GeneratorSettingsProps {
   questionCount: number;
   onQuestionCountChange: (count: number) => void;
   difficulty: string;
   onDifficultyChange: (difficulty: string) => void;
+  verifyAnswers?: boolean;
+  onVerifyAnswersChange?: (verify: boolean) => void;
+  includeHints?: boolean;
+  onIncludeHintsChange?: (include: boolean) => void;
+  /** Selected question types, for the per-type mix */
+  questionTypes?: string[];
+  typeMix?: TypeMix;
+  onTypeMixChange?: (mix: TypeMix) => void;
+  /** What the mix works out to — shown next to each type */
+  typeCounts?: Record<string, number>;
 }
 
+const MIX_MODES: { id: TypeMixMode; label: string }[] = [
+  { id: "even", label: "Even" },
+  { id: "percent", label: "%" },
+  { id: "count", label: "Count" },
+];
+
 export const GeneratorSettings = ({
   questionCount,
   onQuestionCountChange,
   difficulty,
   onDifficultyChange,
+  verifyAnswers = false,
+  onVerifyAnswersChange,
+  includeHints = false,
+  onIncludeHintsChange,
+  questionTypes = [],
+  typeMix,
+  onTypeMixChange,
+  typeCounts = {},
 }: GeneratorSettingsProps) => {
+  const countMode = typeMix?.mode === "count";
+  const totalCount = Object.values(typeCounts).reduce((sum, n) => sum + n, 0);
+  const percentTotal = questionTypes.reduce((sum, t) => sum + (typeMix?.values[t] ?? 0), 0);
+
+  // Switching modes starts from the current split, so nothing jumps
+  const changeMixMode = (mode: TypeMixMode) => {
+    if (!typeMix || !onTypeMixChange || mode === typeMix.mode) return;
+    const values = Object.fromEntries(questionTypes.map(t => [
+      t,
+      mode === "percent" ? Math.round(((typeCounts[t] ?? 0) / (totalCount || 1)) * 100) : typeCounts[t] ?? 0,
+    ]));
+    onTypeMixChange({ mode, values });
+  };
+
+  const changeMixValue = (type: string, value: string) => {
+    if (!typeMix || !onTypeMixChange) return;
+    const n = Math.max(0, Math.min(countMode ? 200 : 100, Math.round(Number(value) || 0)));
+    onTypeMixChange({ ...typeMix, values: { ...typeMix.values, [type]: n } });
+  };
+
   return (
     <div className="space-y-4">
       <div className="space-y-3">
         <div className="flex items-center justify-between">
           <label className="text-sm font-medium text-foreground">Number of Questions</label>
           <span className="text-sm font-semibold text-primary bg-primary/10 px-2 py-0.5 rounded-md">
-            {questionCount}
+            {countMode ? totalCount : questionCount}
           </span>
         </div>
         <Slider
           value={[questionCount]}
           onValueChange={(value) => onQuestionCountChange(value[0])}
+          disabled={countMode}
           min={5}
-          max={50}
+          max={200}
           step={5}
           className="w-full"
         />
         <div className="flex justify-between text-xs text-muted-foreground">
           <span>5</span>
-          <span>50</span>
+          <span>200</span>
         </div>
       </div>
 
+      {typeMix && onTypeMixChange && questionTypes.length > 1 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium text-foreground">Question Mix</label>
+            <div className="flex gap-1">
+              {MIX_MODES.map(({ id, label }) => (
+                <button
+                  key={id}
+                  onClick={() => changeMixMode(id)}
+                  className={cn(
+                    "px-2 py-0.5 rounded-md text-xs font-medium transition-all",
+                    typeMix.mode === id
+                      ? "bg-primary text-primary-foreground"
+                      : "bg-secondary text-muted-foreground hover:bg-secondary/80 hover:text-foreground"
+                  )}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-1.5">
+            {questionTypes.map(type => (
+              <div key={type} className="flex items-center justify-between gap-3 text-sm">
+                <span className="text-muted-foreground capitalize">{type.replace("-", " ")}</span>
+                <div className="flex items-center gap-2">
+                  {typeMix.mode !== "even" && (
+                    <input
+                      type="number"
+                      min={0}
+                      max={countMode ? 200 : 100}
+                      value={typeMix.values[type] ?? 0}
+                      onChange={(e) => changeMixValue(type, e.target.value)}
+                      aria-label={`${type} ${countMode ? "questions" : "percent"}`}
+                      className="w-16 px-2 py-0.5 rounded-md border border-border/60 bg-background text-right text-foreground"
+                    />
+                  )}
+                  {typeMix.mode === "percent" && <span className="text-xs text-muted-foreground">%</span>}
+                  {!countMode && (
+                    <span className="w-8 text-right text-foreground font-medium">{typeCounts[type] ?? 0}</span>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+          {typeMix.mode === "percent" && percentTotal !== 100 && (
+            <p className="text-xs text-muted-foreground">
+              Percentages add up to {percentTotal}% — they're scaled to fit {questionCount} questions.
+            </p>
+          )}
+          {countMode && totalCount === 0 && (
+            <p className="text-xs text-red-500">Set at least one question.</p>
+          )}
+        </div>
+      )}
+
       <div className="space-y-2">
         <label className="text-sm font-medium text-foreground">Difficulty Level</label>
         <div className="grid grid-cols-3 gap-2">
@@ -56,6 +159,30 @@ export const GeneratorSettings = ({
           ))}
         </div>
       </div>
+
+      {onVerifyAnswersChange && (
+        <div className="flex items-center justify-between gap-4 pt-1">
+          <div>
+            <label htmlFor="verify-answers" className="text-sm font-medium text-foreground">Double-check answer keys</label>
+            <p className="text-xs text-muted-foreground">
+              A second AI pass answers each question and flags any it disagrees with. Slower.
+            </p>
+          </div>
+          <Switch id="verify-answers" checked={verifyAnswers} onCheckedChange={onVerifyAnswersChange} />
+        </div>
+      )}
+
+      {onIncludeHintsChange && (
+        <div className="flex items-center justify-between gap-4 pt-1">
+          <div>
+            <label htmlFor="include-hints" className="text-sm font-medium text-foreground">Include hints</label>
+            <p className="text-xs text-muted-foreground">
+              Up to three hints per question. Each one you reveal lowers that question's credit.
+            </p>
+          </div>
+          <Switch id="include-hints" checked={includeHints} onCheckedChange={onIncludeHintsChange} />
+        </div>
+      )}
     </div>
   );
 };
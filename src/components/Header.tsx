@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { BookOpen, MessageCircle, History, Settings, Sun, Moon, LogOut, User } from "lucide-react";
+import { BookOpen, MessageCircle, History, Settings, Sun, Moon, LogOut, User, Database, Library, CalendarClock } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
@@ -11,8 +11,9 @@ import {
   DropdownMenuSeparator,
   DropdownMenuLabel,
 } from "@/components/ui/dropdown-menu";
+import { CacheSettingsDialog } from "./CacheSettingsDialog";
 
-type Tab = "generate" | "practice" | "chat" | "history";
+type Tab = "generate" | "practice" | "review" | "bank" | "chat" | "history";
 
 interface HeaderProps {
   activeTab: Tab;
@@ -22,12 +23,15 @@ interface HeaderProps {
 const tabs = [
   { id: "generate" as Tab, label: "Generate", icon: BookOpen },
   { id: "practice" as Tab, label: "Practice", icon: BookOpen },
+  { id: "review" as Tab, label: "Review", icon: CalendarClock },
+  { id: "bank" as Tab, label: "Bank", icon: Library },
   { id: "chat" as Tab, label: "AI Chat", icon: MessageCircle },
   { id: "history" as Tab, label: "History", icon: History },
 ];
 
 export const Header = ({ activeTab, onTabChange }: HeaderProps) => {
   const { user, username, signOut } = useAuth();
+  const [cacheOpen, setCacheOpen] = useState(false);
 
   const [isDark, setIsDark] = useState(() => {
     return document.documentElement.classList.contains("dark");
@@ -102,6 +106,13 @@ export const Header = ({ activeTab, onTabChange }: HeaderProps) => {
                   </>
                 )}
               </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => setCacheOpen(true)}
+                className="flex items-center gap-2 cursor-pointer"
+              >
+                <Database className="w-4 h-4" />
+                <span>Cache</span>
+              </DropdownMenuItem>
               <DropdownMenuSeparator />
               <DropdownMenuItem
                 onClick={() => signOut()}
@@ -112,6 +123,7 @@ export const Header = ({ activeTab, onTabChange }: HeaderProps) => {
               </DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
+          <CacheSettingsDialog open={cacheOpen} onOpenChange={setCacheOpen} />
         </div>
 
         {/* Mobile Navigation */}
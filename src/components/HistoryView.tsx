@@ -1,12 +1,14 @@
 import { useState, useEffect } from "react";
-import { History, FileText, Trophy, Target, Calendar } from "lucide-react";
-import { getQuizHistoryWithSync, QuizHistoryEntry } from "@/lib/quizHistory";
+import { History, FileText, Trophy, Target, Calendar, Timer } from "lucide-react";
+import { getQuizHistoryWithSync, formatDuration, QuizHistoryEntry } from "@/lib/quizHistory";
 import { migrateLocalQuizHistory } from "@/lib/firestoreService";
 import { useAuth } from "@/contexts/AuthContext";
 import { cn } from "@/lib/utils";
+import type { QuestionCategory } from "@/types/questions";
 
 export const HistoryView = () => {
   const [history, setHistory] = useState<QuizHistoryEntry[]>([]);
+  const [categoryFilter, setCategoryFilter] = useState<QuestionCategory | null>(null);
   const { user } = useAuth();
 
   useEffect(() => {
@@ -63,10 +65,21 @@ export const HistoryView = () => {
     );
   }
 
+  const categories = Array.from(
+    new Set(history.flatMap(e => Object.keys(e.categoryBreakdown ?? {}) as QuestionCategory[]))
+  );
+
+  // With a category selected, only quizzes that had it count and scores are for that category
+  const visible = categoryFilter ? history.filter(e => e.categoryBreakdown?.[categoryFilter]) : history;
+  const scoreOf = (e: QuizHistoryEntry) => {
+    const part = categoryFilter && e.categoryBreakdown?.[categoryFilter];
+    return part ? Math.round((part.correct / part.total) * 100) : e.percentage;
+  };
+
   // Stats summary
-  const totalQuizzes = history.length;
-  const avgScore = Math.round(history.reduce((sum, e) => sum + e.percentage, 0) / totalQuizzes);
-  const bestScore = Math.max(...history.map(e => e.percentage));
+  const totalQuizzes = visible.length;
+  const avgScore = totalQuizzes ? Math.round(visible.reduce((sum, e) => sum + scoreOf(e), 0) / totalQuizzes) : 0;
+  const bestScore = totalQuizzes ? Math.max(...visible.map(scoreOf)) : 0;
 
   return (
     <div className="max-w-2xl mx-auto py-8 px-4">
@@ -74,6 +87,25 @@ export const HistoryView = () => {
         <h2 className="text-xl font-bold text-foreground">Quiz History</h2>
       </div>
 
+      {categories.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {[null, ...categories].map(category => (
+            <button
+              key={category ?? "all"}
+              onClick={() => setCategoryFilter(category)}
+              className={cn(
+                "px-3 py-1 rounded-full text-xs font-medium capitalize transition-all",
+                categoryFilter === category
+                  ? "bg-primary text-primary-foreground"
+                  : "bg-secondary text-muted-foreground hover:bg-secondary/80 hover:text-foreground"
+              )}
+            >
+              {category ?? "All categories"}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Stats Cards */}
       <div className="grid grid-cols-3 gap-3 mb-6">
         <div className="bg-card/50 border border-border/50 rounded-xl p-4 text-center">
@@ -95,7 +127,7 @@ export const HistoryView = () => {
 
       {/* History List */}
       <div className="space-y-3">
-        {history.map((entry) => (
+        {visible.map((entry) => (
           <div
             key={entry.id}
             className={cn(
@@ -115,14 +147,54 @@ export const HistoryView = () => {
                 </div>
 
                 <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground mb-2">
+                  <span className={cn(
+                    "px-2 py-0.5 rounded-full",
+                    entry.mode === "exam" ? "bg-primary/20 text-primary" : "bg-secondary"
+                  )}>
+                    {entry.mode === "exam" ? "Exam" : "Practice"}
+                  </span>
+                  {entry.timeTakenSeconds !== undefined && (
+                    <span className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-secondary" title="Time taken">
+                      <Timer className="w-3 h-3" />
+                      {formatDuration(entry.timeTakenSeconds)}
+                    </span>
+                  )}
                   <span className="capitalize px-2 py-0.5 rounded-full bg-secondary">{entry.difficulty}</span>
                   {entry.questionTypes.map(t => (
                     <span key={t} className="px-2 py-0.5 rounded-full bg-secondary capitalize">
                       {t.replace('-', ' ')}
                     </span>
                   ))}
+                  {entry.multiSelect && (
+                    <span className="px-2 py-0.5 rounded-full bg-secondary" title="Options ticked correctly, ticked wrongly and missed across multi-select questions">
+                      Multi-select: <span className="text-green-500">{entry.multiSelect.right} right</span>
+                      {" · "}<span className="text-red-500">{entry.multiSelect.wrong} wrong</span>
+                      {" · "}{entry.multiSelect.missed} missed
+                    </span>
+                  )}
+                  {entry.hintsUsed ? (
+                    <span className="px-2 py-0.5 rounded-full bg-secondary">
+                      {entry.hintsUsed} hint{entry.hintsUsed === 1 ? "" : "s"}
+                    </span>
+                  ) : null}
                 </div>
 
+                {entry.categoryBreakdown && (
+                  <div className="flex flex-wrap items-center gap-2 text-xs mb-2">
+                    {(Object.entries(entry.categoryBreakdown) as [QuestionCategory, { correct: number; total: number }][]).map(([category, part]) => (
+                      <span
+                        key={category}
+                        className={cn(
+                          "px-2 py-0.5 rounded-full capitalize",
+                          category === categoryFilter ? "bg-primary/20 text-primary" : "bg-secondary text-muted-foreground"
+                        )}
+                      >
+                        {category} {part.correct}/{part.total}
+                      </span>
+                    ))}
+                  </div>
+                )}
+
                 <div className="flex items-center gap-1 text-xs text-muted-foreground">
                   <FileText className="w-3 h-3" />
                   <span className="truncate">{entry.sourceFiles.join(', ')}</span>
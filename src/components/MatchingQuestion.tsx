@@ -0,0 +1,135 @@
+import { useMemo, useState } from "react";
+import { CheckCircle2, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { MathText } from "./MathRenderer";
+import { cn } from "@/lib/utils";
+import { shuffledIndices } from "@/lib/arrangement";
+import type { MatchingPair } from "@/types/questions";
+
+interface MatchingQuestionProps {
+  questionId: string;
+  pairs: MatchingPair[];
+  /** The student's submitted arrangement — locks the question and shows results */
+  submitted?: (number | null)[];
+  onSubmit?: (arrangement: (number | null)[]) => void;
+  /** Matches to start from, e.g. a draft the student is coming back to */
+  initial?: (number | null)[];
+  /** Called on every change — for answers that are submitted elsewhere, as in an exam */
+  onChange?: (arrangement: (number | null)[]) => void;
+  disabled?: boolean;
+}
+
+// Tap a term, then tap its match — or drag a match onto a term
+export const MatchingQuestion = ({ questionId, pairs, submitted, onSubmit, initial, onChange, disabled = false }: MatchingQuestionProps) => {
+  const rightOrder = useMemo(() => shuffledIndices(pairs.length, questionId), [pairs.length, questionId]);
+  const [matches, setMatches] = useState<(number | null)[]>(() => initial ?? pairs.map(() => null));
+  const [selectedLeft, setSelectedLeft] = useState<number | null>(null);
+  const [draggedRight, setDraggedRight] = useState<number | null>(null);
+
+  const locked = submitted !== undefined || disabled;
+  const shown = submitted ?? matches;
+
+  const update = (next: (number | null)[]) => {
+    setMatches(next);
+    onChange?.(next);
+  };
+
+  const assign = (left: number, right: number) => {
+    update(matches.map((r, i) => (i === left ? right : r === right ? null : r)));
+    setSelectedLeft(null);
+  };
+
+  const handleLeftClick = (left: number) => {
+    if (locked) return;
+    if (matches[left] !== null) {
+      update(matches.map((r, i) => (i === left ? null : r)));
+    }
+    setSelectedLeft(prev => (prev === left ? null : left));
+  };
+
+  const handleRightClick = (right: number) => {
+    if (locked || selectedLeft === null) return;
+    assign(selectedLeft, right);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          {pairs.map((pair, left) => {
+            const right = shown[left];
+            const isRight = right === left;
+            return (
+              <button
+                key={left}
+                onClick={() => handleLeftClick(left)}
+                onDragOver={(e) => !locked && e.preventDefault()}
+                onDrop={() => draggedRight !== null && assign(left, draggedRight)}
+                disabled={locked}
+                className={cn(
+                  "w-full p-3 text-left text-sm rounded-xl border transition-all duration-200",
+                  !submitted && selectedLeft === left && "border-primary bg-primary/10",
+                  !submitted && selectedLeft !== left && "border-border/50 hover:border-primary/50",
+                  submitted && (isRight ? "border-green-500 bg-green-500/10" : "border-red-500 bg-red-500/10")
+                )}
+              >
+                <span className="font-medium text-foreground"><MathText text={pair.left} /></span>
+                {right !== null && (
+                  <span className={cn("block mt-1 text-xs", submitted ? (isRight ? "text-green-400" : "text-red-400") : "text-primary")}>
+                    → <MathText text={pairs[right].right} />
+                  </span>
+                )}
+                {submitted && !isRight && (
+                  <span className="block mt-1 text-xs text-green-400">
+                    Correct: <MathText text={pair.right} />
+                  </span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="space-y-2">
+          {rightOrder.map(right => {
+            const used = shown.includes(right);
+            return (
+              <button
+                key={right}
+                draggable={!locked}
+                onDragStart={() => setDraggedRight(right)}
+                onDragEnd={() => setDraggedRight(null)}
+                onClick={() => handleRightClick(right)}
+                disabled={locked}
+                className={cn(
+                  "w-full p-3 text-left text-sm rounded-xl border border-border/50 transition-all duration-200",
+                  !locked && "cursor-grab hover:border-primary/50",
+                  !locked && selectedLeft !== null && "border-primary/40",
+                  used && "opacity-50"
+                )}
+              >
+                <MathText text={pairs[right].right} />
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {submitted ? (
+        <p className="flex items-center gap-2 text-sm text-muted-foreground">
+          {submitted.every((r, i) => r === i)
+            ? <CheckCircle2 className="w-4 h-4 text-green-500" />
+            : <XCircle className="w-4 h-4 text-red-500" />}
+          {submitted.filter((r, i) => r === i).length} of {pairs.length} pairs correct
+        </p>
+      ) : onSubmit && (
+        <Button
+          onClick={() => onSubmit(matches)}
+          disabled={disabled || matches.some(r => r === null)}
+          className="rounded-xl bg-primary hover:bg-primary/90"
+        >
+          Submit Matches
+        </Button>
+      )}
+    </div>
+  );
+};
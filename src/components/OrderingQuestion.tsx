@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { ChevronUp, ChevronDown, GripVertical, CheckCircle2, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { MathText } from "./MathRenderer";
+import { cn } from "@/lib/utils";
+import { shuffledIndices } from "@/lib/arrangement";
+
+interface OrderingQuestionProps {
+  questionId: string;
+  /** Steps in their correct order */
+  steps: string[];
+  /** The student's submitted order (step indices) — locks the question and shows results */
+  submitted?: number[];
+  onSubmit?: (order: number[]) => void;
+  /** Order to start from, e.g. a draft the student is coming back to */
+  initial?: number[];
+  /** Called on every move — for answers that are submitted elsewhere, as in an exam */
+  onChange?: (order: number[]) => void;
+  disabled?: boolean;
+}
+
+// Drag steps into place, or use the arrows to move them one position at a time
+export const OrderingQuestion = ({ questionId, steps, submitted, onSubmit, initial, onChange, disabled = false }: OrderingQuestionProps) => {
+  const [order, setOrder] = useState<number[]>(() => initial ?? shuffledIndices(steps.length, questionId));
+  const [dragged, setDragged] = useState<number | null>(null);
+
+  const locked = submitted !== undefined || disabled;
+  const shown = submitted ?? order;
+
+  const move = (from: number, to: number) => {
+    if (locked || to < 0 || to >= order.length || from === to) return;
+    const next = [...order];
+    const [step] = next.splice(from, 1);
+    next.splice(to, 0, step);
+    setOrder(next);
+    onChange?.(next);
+  };
+
+  return (
+    <div className="space-y-4">
+      <ol className="space-y-2">
+        {shown.map((step, position) => {
+          const inPlace = step === position;
+          return (
+            <li
+              key={step}
+              draggable={!locked}
+              onDragStart={() => setDragged(position)}
+              onDragOver={(e) => {
+                if (locked || dragged === null) return;
+                e.preventDefault();
+                if (dragged !== position) {
+                  move(dragged, position);
+                  setDragged(position);
+                }
+              }}
+              onDragEnd={() => setDragged(null)}
+              className={cn(
+                "flex items-center gap-3 p-3 rounded-xl border text-sm transition-all duration-200",
+                !submitted && "border-border/50 bg-background",
+                !locked && "cursor-grab hover:border-primary/50",
+                dragged === position && "border-primary bg-primary/10",
+                submitted && (inPlace ? "border-green-500 bg-green-500/10" : "border-red-500 bg-red-500/10")
+              )}
+            >
+              {!locked && <GripVertical className="w-4 h-4 shrink-0 text-muted-foreground" />}
+              <span className="w-5 shrink-0 text-center font-medium text-muted-foreground">{position + 1}.</span>
+              <span className="flex-1 text-foreground">
+                <MathText text={steps[step]} />
+                {submitted && !inPlace && (
+                  <span className="block mt-1 text-xs text-green-400">Belongs at position {step + 1}</span>
+                )}
+              </span>
+              {!locked && (
+                <span className="flex flex-col">
+                  <button
+                    onClick={() => move(position, position - 1)}
+                    disabled={position === 0}
+                    className="p-0.5 text-muted-foreground hover:text-foreground disabled:opacity-30"
+                    aria-label="Move up"
+                  >
+                    <ChevronUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => move(position, position + 1)}
+                    disabled={position === shown.length - 1}
+                    className="p-0.5 text-muted-foreground hover:text-foreground disabled:opacity-30"
+                    aria-label="Move down"
+                  >
+                    <ChevronDown className="w-4 h-4" />
+                  </button>
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {submitted ? (
+        <p className="flex items-center gap-2 text-sm text-muted-foreground">
+          {submitted.every((step, i) => step === i)
+            ? <CheckCircle2 className="w-4 h-4 text-green-500" />
+            : <XCircle className="w-4 h-4 text-red-500" />}
+          {submitted.filter((step, i) => step === i).length} of {steps.length} steps in the right place
+        </p>
+      ) : onSubmit && (
+        <Button
+          onClick={() => onSubmit(order)}
+          disabled={disabled}
+          className="rounded-xl bg-primary hover:bg-primary/90"
+        >
+          Submit Order
+        </Button>
+      )}
+    </div>
+  );
+};
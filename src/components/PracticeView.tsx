@@ -1,26 +1,83 @@
-import { useState } from "react";
-import { FileQuestion, ArrowLeft, CheckCircle2, XCircle, FileText, ChevronRight, RotateCcw, Lightbulb, ClipboardList } from "lucide-react";
+import { useRef, useState } from "react";
+import { FileQuestion, ArrowLeft, Check, CheckCircle2, XCircle, FileText, ChevronRight, RotateCcw, Lightbulb, ClipboardList, Loader2, ShieldCheck, AlertTriangle, Pencil, Timer } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { GeneratedQuizData, Question } from "./GeneratorPanel";
 import { MathText } from "./MathRenderer";
+import { CoverageSummary } from "./CoverageSummary";
+import { SourceReference } from "./SourceReference";
+import { EssayFeedback } from "./EssayFeedback";
+import { MatchingQuestion } from "./MatchingQuestion";
+import { OrderingQuestion } from "./OrderingQuestion";
+import { ClozeQuestion } from "./ClozeQuestion";
+import { QuizEditor } from "./QuizEditor";
+import { ExamView, type ExamDraft } from "./ExamView";
 import { cn } from "@/lib/utils";
-import { saveQuizResultWithSync } from "@/lib/quizHistory";
+import { saveQuizResultWithSync, formatDuration, type CategoryBreakdown, type QuizMode } from "@/lib/quizHistory";
+import { recordAttemptsWithSync } from "@/lib/questionBank";
+import { type RecallRating, RECALL_LABELS, getReviewStates, schedule, suggestedRating, formatInterval, recordReviewWithSync } from "@/lib/spacedRepetition";
+import { gradeEssayAnswer, regenerateQuestion } from "@/lib/geminiClient";
+import { scoreMatching, scoreOrdering } from "@/lib/arrangement";
+import { scoreCloze } from "@/lib/cloze";
+import { matchesTextAnswer } from "@/lib/textAnswer";
+import { type NumericKey, type NumericResult, gradeNumericAnswer } from "@/lib/numericAnswer";
+import { type TemplateInstance, instantiateTemplate } from "@/lib/mathTemplate";
+import { type MultiSelectScoring, type MultiSelectTally, getMultiSelectScoring, setMultiSelectScoring, scoreMultiSelect, tallyMultiSelect } from "@/lib/multiSelect";
+import type { EssayGrade, QuestionCategory } from "@/types/questions";
 import { useAuth } from "@/contexts/AuthContext";
 
 interface UserAnswer {
   questionIndex: number;
   selectedOption: number | null; // for MC/TF
-  textInput: string; // for fill-blank/short-answer
+  textInput: string; // for fill-blank/short-answer/essay
   isCorrect: boolean;
+  credit?: number; // share of a point earned — partial for essays and after hints
+  grade?: EssayGrade;
+  hintsUsed?: number;
+  arrangement?: (number | null)[]; // matching: pair chosen for each left item; ordering: steps in the order given
+  selectedOptions?: number[]; // for multi-select
+  blankAnswers?: string[]; // cloze: one per blank
+  numericResult?: NumericResult;
 }
 
+// Each hint revealed takes this share off the question's credit
+const HINT_PENALTY = 0.25;
+const hintCredit = (hintsUsed: number) => Math.max(0, 1 - hintsUsed * HINT_PENALTY);
+
+// Essays and hints give partial credit, so scores aren't always whole numbers
+const formatScore = (score: number) => Math.round(score * 10) / 10;
+const countWords = (text: string) => text.trim().split(/\s+/).filter(Boolean).length;
+
+// Suggested exam length: a minute and a half a question, longer for essays
+const MINUTES_PER_QUESTION = 1.5;
+const MINUTES_PER_ESSAY = 10;
+const defaultTimeLimit = (questions: Question[]) =>
+  Math.max(5, Math.ceil(questions.reduce((sum, q) => sum + (q.type === 'essay' ? MINUTES_PER_ESSAY : MINUTES_PER_QUESTION), 0)));
+
+// Shown once a question is answered when the answer-key check disagreed
+const DisputedKeyNotice = ({ question, className }: { question: Question; className?: string }) => {
+  if (question.verified !== 'disputed' && question.verified !== 'ambiguous') return null;
+  return (
+    <div className={cn("flex items-start gap-2 p-3 rounded-lg border border-amber-500/30 bg-amber-500/10 text-xs text-amber-500", className)}>
+      <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+      <p>
+        {question.verified === 'ambiguous' ? "This question may be ambiguous. " : "This answer key may be wrong. "}
+        {question.verificationNote}
+      </p>
+    </div>
+  );
+};
+
 interface PracticeViewProps {
   quizData: GeneratedQuizData | null;
   onGoToGenerate: () => void;
+  /** Edited question list from the quiz editor */
+  onQuestionsChange?: (questions: Question[]) => void;
+  /** Extracted text of the quiz's files, needed to regenerate a question */
+  material?: string;
 }
 
-export const PracticeView = ({ quizData, onGoToGenerate }: PracticeViewProps) => {
+export const PracticeView = ({ quizData, onGoToGenerate, onQuestionsChange, material }: PracticeViewProps) => {
   const { user } = useAuth();
   const [isPracticing, setIsPracticing] = useState(false);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
@@ -32,12 +89,59 @@ export const PracticeView = ({ quizData, onGoToGenerate }: PracticeViewProps) =>
   const [score, setScore] = useState(0);
   const [showExplanation, setShowExplanation] = useState(false);
   const [userAnswers, setUserAnswers] = useState<UserAnswer[]>([]);
+  const [categoryFilter, setCategoryFilter] = useState<QuestionCategory | null>(null);
+  const [isGrading, setIsGrading] = useState(false);
+  const [gradeError, setGradeError] = useState<string | null>(null);
+  const [hintsShown, setHintsShown] = useState(0);
+  const [selectedOptions, setSelectedOptions] = useState<number[]>([]);
+  const [multiSelectScoring, setScoringRule] = useState<MultiSelectScoring>(getMultiSelectScoring);
+  const [isEditing, setIsEditing] = useState(false);
+  // Recall rating picked for the answered question — otherwise one is read off its score
+  const [recallRating, setRecallRating] = useState<RecallRating | null>(null);
+  const [mode, setMode] = useState<QuizMode>('practice');
+  // Exam length in minutes — suggested from the questions until the student changes it
+  const [timeLimit, setTimeLimit] = useState<number | null>(null);
+  const [timeTaken, setTimeTaken] = useState<number | null>(null);
+  const startedAt = useRef(0);
+  // Values drawn for templated questions this run — kept until the next run so
+  // the review shows the numbers the student actually worked with
+  const templateInstances = useRef(new Map<string, TemplateInstance>());
+
+  // Use questions directly from quizData (AI-generated), optionally narrowed to one category
+  const allQuestions = quizData?.questions || [];
+  const questions = categoryFilter ? allQuestions.filter(q => q.category === categoryFilter) : allQuestions;
+  const categoryCounts = allQuestions.reduce((counts, q) => {
+    if (q.category) counts[q.category] = (counts[q.category] || 0) + 1;
+    return counts;
+  }, {} as Partial<Record<QuestionCategory, number>>);
+  const typeCounts = allQuestions.reduce((counts, q) => {
+    counts[q.type] = (counts[q.type] || 0) + 1;
+    return counts;
+  }, {} as Record<string, number>);
+  // More questions may still be streaming in behind the one being answered
+  const isStreaming = quizData?.isStreaming ?? false;
+  const sourceNames = quizData?.sourceFiles ?? quizData?.files.map(f => f.name) ?? [];
 
-  // Use questions directly from quizData (AI-generated)
-  const questions = quizData?.questions || [];
+  // Templates are drawn the first time they're shown, since questions can
+  // still be arriving when the run starts
+  const instanceOf = (q: Question): TemplateInstance | undefined => {
+    if (!q.template) return undefined;
+    let instance = templateInstances.current.get(q.id);
+    if (!instance) {
+      instance = instantiateTemplate(q.question, q.template);
+      templateInstances.current.set(q.id, instance);
+    }
+    return instance;
+  };
+  // A cloze passage is shown with its inputs, so the heading just says what to do
+  const questionText = (q: Question) => q.type === 'cloze' ? 'Fill in each blank in this passage.' : instanceOf(q)?.question ?? q.question;
+  const numericKeyOf = (q: Question): NumericKey | undefined => {
+    const instance = instanceOf(q);
+    return instance && q.numeric ? { ...q.numeric, value: instance.answer } : q.numeric;
+  };
 
   const startPractice = () => {
-    if (quizData && quizData.questions.length > 0) {
+    if (quizData && questions.length > 0) {
       setIsPracticing(true);
       setCurrentQuestionIndex(0);
       setSelectedAnswer(null);
@@ -48,6 +152,13 @@ export const PracticeView = ({ quizData, onGoToGenerate }: PracticeViewProps) =>
       setScore(0);
       setShowExplanation(false);
       setUserAnswers([]);
+      setGradeError(null);
+      setHintsShown(0);
+      setSelectedOptions([]);
+      setRecallRating(null);
+      setTimeTaken(null);
+      startedAt.current = Date.now();
+      templateInstances.current.clear();
     }
   };
 
@@ -55,14 +166,15 @@ export const PracticeView = ({ quizData, onGoToGenerate }: PracticeViewProps) =>
     if (selectedAnswer === null) {
       setSelectedAnswer(index);
       const isCorrect = index === questions[currentQuestionIndex].correctAnswer;
-      if (isCorrect) {
-        setScore(prev => prev + 1);
-      }
+      const credit = isCorrect ? hintCredit(hintsShown) : 0;
+      setScore(prev => prev + credit);
       setUserAnswers(prev => [...prev, {
         questionIndex: currentQuestionIndex,
         selectedOption: index,
         textInput: '',
         isCorrect,
+        credit,
+        hintsUsed: hintsShown,
       }]);
     }
   };
@@ -70,57 +182,282 @@ export const PracticeView = ({ quizData, onGoToGenerate }: PracticeViewProps) =>
   const handleTextSubmit = () => {
     if (!isAnswerSubmitted && textAnswer.trim()) {
       setIsAnswerSubmitted(true);
-      const correctAnswer = String(questions[currentQuestionIndex].correctAnswer).toLowerCase().trim();
-      const userAnswer = textAnswer.trim().toLowerCase();
-
-      // More flexible matching for text answers
-      const isCorrect =
-        userAnswer === correctAnswer ||
-        correctAnswer.includes(userAnswer) ||
-        userAnswer.includes(correctAnswer) ||
-        // Check if key words match
-        correctAnswer.split(' ').filter(word => word.length > 3).some(word =>
-          userAnswer.includes(word.toLowerCase())
-        );
-
-      if (isCorrect) {
-        setScore(prev => prev + 1);
-      }
+      const isCorrect = matchesTextAnswer(String(questions[currentQuestionIndex].correctAnswer), textAnswer);
+
+      const credit = isCorrect ? hintCredit(hintsShown) : 0;
+      setScore(prev => prev + credit);
       setUserAnswers(prev => [...prev, {
         questionIndex: currentQuestionIndex,
         selectedOption: null,
         textInput: textAnswer.trim(),
         isCorrect,
+        credit,
+        hintsUsed: hintsShown,
       }]);
     }
   };
 
+  const handleEssaySubmit = async () => {
+    if (isAnswerSubmitted || isGrading || !textAnswer.trim()) return;
+    const question = questions[currentQuestionIndex];
+    setIsGrading(true);
+    setGradeError(null);
+
+    try {
+      const grade = await gradeEssayAnswer(question, textAnswer.trim());
+      const credit = (grade.maxScore > 0 ? grade.score / grade.maxScore : 0) * hintCredit(hintsShown);
+      setIsAnswerSubmitted(true);
+      setScore(prev => prev + credit);
+      setUserAnswers(prev => [...prev, {
+        questionIndex: currentQuestionIndex,
+        selectedOption: null,
+        textInput: textAnswer.trim(),
+        isCorrect: credit >= 0.5,
+        credit,
+        grade,
+        hintsUsed: hintsShown,
+      }]);
+    } catch (err) {
+      setGradeError((err instanceof Error && err.message) || "Grading failed. Please try again.");
+    } finally {
+      setIsGrading(false);
+    }
+  };
+
+  const handleNumericSubmit = () => {
+    const question = questions[currentQuestionIndex];
+    const key = numericKeyOf(question);
+    if (isAnswerSubmitted || !textAnswer.trim() || !key) return;
+    const result = gradeNumericAnswer(textAnswer, key);
+    // A typo that isn't a number at all doesn't use up the attempt
+    if (result.status === 'unparseable') {
+      setGradeError(result.message);
+      return;
+    }
+    const credit = result.credit * hintCredit(hintsShown);
+
+    setGradeError(null);
+    setIsAnswerSubmitted(true);
+    setScore(prev => prev + credit);
+    setUserAnswers(prev => [...prev, {
+      questionIndex: currentQuestionIndex,
+      selectedOption: null,
+      textInput: textAnswer.trim(),
+      isCorrect: result.status === 'correct',
+      credit,
+      numericResult: result,
+      hintsUsed: hintsShown,
+    }]);
+  };
+
+  const toggleOption = (index: number) => {
+    if (isAnswerSubmitted) return;
+    setSelectedOptions(prev => prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index].sort((a, b) => a - b));
+  };
+
+  const handleMultiSelectSubmit = () => {
+    if (isAnswerSubmitted || selectedOptions.length === 0) return;
+    const correct = questions[currentQuestionIndex].correctAnswer as number[];
+    const share = scoreMultiSelect(correct, selectedOptions, multiSelectScoring);
+    const credit = share * hintCredit(hintsShown);
+
+    setIsAnswerSubmitted(true);
+    setScore(prev => prev + credit);
+    setUserAnswers(prev => [...prev, {
+      questionIndex: currentQuestionIndex,
+      selectedOption: null,
+      textInput: '',
+      isCorrect: share === 1,
+      credit,
+      selectedOptions,
+      hintsUsed: hintsShown,
+    }]);
+  };
+
+  const changeScoringRule = (rule: MultiSelectScoring) => {
+    setScoringRule(rule);
+    setMultiSelectScoring(rule);
+  };
+
+  const handleArrangementSubmit = (arrangement: (number | null)[]) => {
+    if (isAnswerSubmitted) return;
+    const question = questions[currentQuestionIndex];
+    const share = question.type === "matching"
+      ? scoreMatching(question.pairs?.length ?? 0, arrangement)
+      : scoreOrdering(arrangement as number[]);
+    const credit = share * hintCredit(hintsShown);
+
+    setIsAnswerSubmitted(true);
+    setScore(prev => prev + credit);
+    setUserAnswers(prev => [...prev, {
+      questionIndex: currentQuestionIndex,
+      selectedOption: null,
+      textInput: '',
+      isCorrect: share === 1,
+      credit,
+      arrangement,
+      hintsUsed: hintsShown,
+    }]);
+  };
+
+  const handleClozeSubmit = (blankAnswers: string[]) => {
+    const question = questions[currentQuestionIndex];
+    if (isAnswerSubmitted || !question.blanks) return;
+    const { credit: share } = scoreCloze(question.blanks, blankAnswers);
+    const credit = share * hintCredit(hintsShown);
+
+    setIsAnswerSubmitted(true);
+    setScore(prev => prev + credit);
+    setUserAnswers(prev => [...prev, {
+      questionIndex: currentQuestionIndex,
+      selectedOption: null,
+      textInput: '',
+      isCorrect: share === 1,
+      credit,
+      blankAnswers,
+      hintsUsed: hintsShown,
+    }]);
+  };
+
+  // Credit earned on the question on screen, once it's answered
+  const currentCredit = () => {
+    const answer = userAnswers.find(a => a.questionIndex === currentQuestionIndex);
+    return answer ? answer.credit ?? (answer.isCorrect ? 1 : 0) : null;
+  };
+
   const handleNextQuestion = () => {
+    // Schedule the question's next spaced-repetition review
+    const credit = currentCredit();
+    if (credit !== null) {
+      recordReviewWithSync(questions[currentQuestionIndex].id, recallRating ?? suggestedRating(credit), user?.uid ?? null);
+    }
+
     if (currentQuestionIndex < questions.length - 1) {
       setCurrentQuestionIndex(prev => prev + 1);
       setSelectedAnswer(null);
       setTextAnswer("");
       setIsAnswerSubmitted(false);
       setShowExplanation(false);
+      setGradeError(null);
+      setHintsShown(0);
+      setSelectedOptions([]);
+      setRecallRating(null);
     } else {
       setShowResult(true);
-      // Save to history
-      if (quizData) {
-        const finalScore = score;
-        const total = questions.length;
-        saveQuizResultWithSync({
-          sourceFiles: quizData.files.map(f => f.name),
-          questionCount: total,
-          difficulty: quizData.difficulty,
-          questionTypes: quizData.questionTypes,
-          score: finalScore,
-          totalQuestions: total,
-          percentage: Math.round((finalScore / total) * 100),
-        }, user?.uid ?? null);
+      saveResult(userAnswers, score, Math.round((Date.now() - startedAt.current) / 1000));
+    }
+  };
+
+  // Save a finished run to history and add it to each question's tally in the bank
+  const saveResult = (answers: UserAnswer[], total: number, seconds: number) => {
+    setTimeTaken(seconds);
+    if (!quizData) return;
+    const finalScore = formatScore(total);
+    const hintsUsed = answers.reduce((sum, a) => sum + (a.hintsUsed ?? 0), 0);
+    const multiSelect = answers.reduce<MultiSelectTally | null>((tally, a) => {
+      if (!a.selectedOptions) return tally;
+      const t = tallyMultiSelect(questions[a.questionIndex].correctAnswer as number[], a.selectedOptions);
+      return {
+        right: (tally?.right ?? 0) + t.right,
+        wrong: (tally?.wrong ?? 0) + t.wrong,
+        missed: (tally?.missed ?? 0) + t.missed,
+      };
+    }, null);
+    const count = questions.length;
+    const breakdown: CategoryBreakdown = {};
+    answers.forEach(a => {
+      const category = questions[a.questionIndex]?.category;
+      if (!category) return;
+      const entry = breakdown[category] ?? { correct: 0, total: 0 };
+      entry.total++;
+      entry.correct += a.credit ?? (a.isCorrect ? 1 : 0);
+      breakdown[category] = entry;
+    });
+    saveQuizResultWithSync({
+      sourceFiles: sourceNames,
+      questionCount: count,
+      difficulty: quizData.difficulty,
+      questionTypes: quizData.questionTypes,
+      score: finalScore,
+      totalQuestions: count,
+      percentage: Math.round((finalScore / count) * 100),
+      ...(Object.keys(breakdown).length > 0 ? { categoryBreakdown: breakdown } : {}),
+      ...(hintsUsed > 0 ? { hintsUsed } : {}),
+      ...(multiSelect ? { multiSelect } : {}),
+      mode,
+      timeTakenSeconds: seconds,
+    }, user?.uid ?? null);
+    recordAttemptsWithSync(
+      answers.map(a => ({ id: questions[a.questionIndex].id, credit: a.credit ?? (a.isCorrect ? 1 : 0) })),
+      user?.uid ?? null
+    );
+  };
+
+  // Mark one exam answer — the same rules as practice, without hints.
+  // Anything left blank scores nothing.
+  const gradeDraft = async (question: Question, questionIndex: number, draft: ExamDraft = {}): Promise<UserAnswer> => {
+    const textInput = draft.text?.trim() ?? '';
+    const answer: UserAnswer = { questionIndex, selectedOption: draft.selectedOption ?? null, textInput, isCorrect: false, credit: 0 };
+    const scored = (share: number, extra: Partial<UserAnswer> = {}): UserAnswer =>
+      ({ ...answer, ...extra, isCorrect: share === 1, credit: share });
+
+    switch (question.type) {
+      case 'multiple-choice':
+      case 'true-false':
+        return draft.selectedOption === undefined ? answer : scored(draft.selectedOption === question.correctAnswer ? 1 : 0);
+      case 'multi-select':
+        if (!draft.selectedOptions?.length) return answer;
+        return scored(scoreMultiSelect(question.correctAnswer as number[], draft.selectedOptions, multiSelectScoring), { selectedOptions: draft.selectedOptions });
+      case 'fill-blank':
+      case 'short-answer':
+        return scored(matchesTextAnswer(String(question.correctAnswer), textInput) ? 1 : 0);
+      case 'essay': {
+        if (!textInput) return answer;
+        const grade = await gradeEssayAnswer(question, textInput);
+        const credit = grade.maxScore > 0 ? grade.score / grade.maxScore : 0;
+        return { ...answer, isCorrect: credit >= 0.5, credit, grade };
       }
+      case 'numeric': {
+        const key = numericKeyOf(question);
+        if (!textInput || !key) return answer;
+        const result = gradeNumericAnswer(textInput, key);
+        return { ...answer, isCorrect: result.status === 'correct', credit: result.credit, numericResult: result };
+      }
+      case 'matching':
+        if (!draft.arrangement) return answer;
+        return scored(scoreMatching(question.pairs?.length ?? 0, draft.arrangement), { arrangement: draft.arrangement });
+      case 'ordering':
+        if (!draft.arrangement) return answer;
+        return scored(scoreOrdering(draft.arrangement as number[]), { arrangement: draft.arrangement });
+      case 'cloze':
+        if (!draft.blankAnswers || !question.blanks) return answer;
+        return scored(scoreCloze(question.blanks, draft.blankAnswers).credit, { blankAnswers: draft.blankAnswers });
+      default:
+        return answer;
     }
   };
 
+  const submitExam = async (drafts: Record<number, ExamDraft>, seconds: number) => {
+    let ungraded = 0;
+    const answers = await Promise.all(questions.map((q, i) =>
+      gradeDraft(q, i, drafts[i]).catch(err => {
+        // An essay the grader couldn't mark scores nothing rather than holding up the results
+        console.error('Failed to grade exam answer:', err);
+        ungraded++;
+        return { questionIndex: i, selectedOption: null, textInput: drafts[i]?.text?.trim() ?? '', isCorrect: false, credit: 0 };
+      })
+    ));
+    const total = answers.reduce((sum, a) => sum + (a.credit ?? 0), 0);
+
+    setUserAnswers(answers);
+    setScore(total);
+    setGradeError(ungraded > 0 ? `${ungraded} answer${ungraded === 1 ? "" : "s"} couldn't be graded and scored 0.` : null);
+    setShowResult(true);
+    // No recall ratings in an exam — each question is scheduled from its mark
+    answers.forEach(a => recordReviewWithSync(questions[a.questionIndex].id, suggestedRating(a.credit ?? 0), user?.uid ?? null));
+    saveResult(answers, total, seconds);
+  };
+
   const resetQuiz = () => {
     setIsPracticing(false);
     setCurrentQuestionIndex(0);
@@ -132,6 +469,12 @@ export const PracticeView = ({ quizData, onGoToGenerate }: PracticeViewProps) =>
     setScore(0);
     setShowExplanation(false);
     setUserAnswers([]);
+    setGradeError(null);
+    setHintsShown(0);
+    setSelectedOptions([]);
+    setRecallRating(null);
+    setTimeTaken(null);
+    templateInstances.current.clear();
   };
 
   const isCurrentQuestionAnswered = () => {
@@ -142,6 +485,28 @@ export const PracticeView = ({ quizData, onGoToGenerate }: PracticeViewProps) =>
     return isAnswerSubmitted;
   };
 
+  // Answered questions are locked in the editor so the score still matches them
+  const inRun = isPracticing && !showResult;
+  const answeredIds = inRun
+    ? new Set(questions.slice(0, currentQuestionIndex + (isCurrentQuestionAnswered() ? 1 : 0)).map(q => q.id))
+    : undefined;
+  const currentId = inRun ? questions[currentQuestionIndex]?.id : undefined;
+
+  const handleQuestionsChange = (next: Question[]) => {
+    const changed = next.filter(q => !allQuestions.includes(q)).map(q => q.id);
+    // Edited templates draw fresh numbers next time they're shown
+    changed.forEach(id => templateInstances.current.delete(id));
+    // The question on screen was edited or replaced — start its answer over
+    if (currentId && (changed.includes(currentId) || !next.some(q => q.id === currentId))) {
+      setTextAnswer("");
+      setSelectedOptions([]);
+      setHintsShown(0);
+      setGradeError(null);
+      setShowExplanation(false);
+    }
+    onQuestionsChange?.(next);
+  };
+
   // No quiz data - show empty state
   if (!quizData) {
     return (
@@ -161,6 +526,24 @@ export const PracticeView = ({ quizData, onGoToGenerate }: PracticeViewProps) =>
     );
   }
 
+  if (isEditing) {
+    return (
+      <QuizEditor
+        questions={allQuestions}
+        onChange={handleQuestionsChange}
+        onRegenerate={material && material.length >= 100
+          ? (question) => regenerateQuestion(material, question, {
+              difficulty: quizData.difficulty,
+              avoid: allQuestions.map(q => q.question),
+            })
+          : undefined}
+        answeredIds={answeredIds}
+        currentId={currentId}
+        onClose={() => setIsEditing(false)}
+      />
+    );
+  }
+
   // Show answer review
   if (isPracticing && showReview) {
     return (
@@ -199,7 +582,7 @@ export const PracticeView = ({ quizData, onGoToGenerate }: PracticeViewProps) =>
                   <div className="flex-1 min-w-0">
                     <p className="text-xs text-muted-foreground mb-1">Question {idx + 1}</p>
                     <p className="text-sm font-medium text-foreground mb-2">
-                      <MathText text={q.question} />
+                      <MathText text={questionText(q)} />
                     </p>
 
                     {/* Show user's answer */}
@@ -239,11 +622,82 @@ export const PracticeView = ({ quizData, onGoToGenerate }: PracticeViewProps) =>
                       </div>
                     )}
 
+                    {q.type === 'essay' && answer && (
+                      <div className="text-sm space-y-2">
+                        <p className="text-muted-foreground">Your answer:</p>
+                        <p className="text-foreground whitespace-pre-wrap">{answer.textInput || '(no answer)'}</p>
+                        {answer.grade && <EssayFeedback grade={answer.grade} />}
+                      </div>
+                    )}
+
+                    {q.type === 'numeric' && answer?.numericResult && (
+                      <div className="text-sm space-y-1">
+                        <p>
+                          <span className="text-muted-foreground">Your answer: </span>
+                          <span className={isCorrect ? "text-green-500" : "text-red-500"}>{answer.textInput}</span>
+                        </p>
+                        <p className="text-muted-foreground">{answer.numericResult.message}</p>
+                        {instanceOf(q)?.solution && (
+                          <p className="text-muted-foreground">
+                            <span className="font-medium">Worked solution: </span>
+                            <MathText text={instanceOf(q)!.solution!} />
+                          </p>
+                        )}
+                      </div>
+                    )}
+
+                    {q.type === 'multi-select' && answer?.selectedOptions && (
+                      <ul className="text-sm space-y-1">
+                        {q.options.map((option, i) => {
+                          const isKey = (q.correctAnswer as number[]).includes(i);
+                          const ticked = answer.selectedOptions!.includes(i);
+                          if (!isKey && !ticked) return null;
+                          return (
+                            <li key={i} className="flex items-center gap-2">
+                              {ticked ? (
+                                isKey ? <CheckCircle2 className="w-4 h-4 text-green-500" /> : <XCircle className="w-4 h-4 text-red-500" />
+                              ) : (
+                                <span className="w-4 h-4 rounded border border-green-500/60" />
+                              )}
+                              <span className={ticked ? (isKey ? "text-green-500" : "text-red-500") : "text-muted-foreground"}>
+                                <MathText text={option} />
+                              </span>
+                              {!ticked && <span className="text-xs text-muted-foreground">(missed)</span>}
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    )}
+
+                    {q.type === 'matching' && q.pairs && answer?.arrangement && (
+                      <MatchingQuestion questionId={q.id} pairs={q.pairs} submitted={answer.arrangement} />
+                    )}
+
+                    {q.type === 'ordering' && q.steps && answer?.arrangement && (
+                      <OrderingQuestion questionId={q.id} steps={q.steps} submitted={answer.arrangement as number[]} />
+                    )}
+
+                    {q.type === 'cloze' && q.blanks && answer?.blankAnswers && (
+                      <ClozeQuestion passage={q.question} blanks={q.blanks} submitted={answer.blankAnswers} />
+                    )}
+
+                    {answer?.hintsUsed ? (
+                      <p className="text-xs text-muted-foreground mt-2">
+                        {answer.hintsUsed} hint{answer.hintsUsed === 1 ? "" : "s"} used · {Math.round((answer.credit ?? 0) * 100)}% credit
+                      </p>
+                    ) : null}
+
                     {q.explanation && (
                       <p className="text-xs text-muted-foreground mt-2 p-2 rounded-lg bg-secondary/50">
                         <MathText text={q.explanation} />
                       </p>
                     )}
+
+                    {q.source && (
+                      <SourceReference source={q.source} files={quizData?.files} className="mt-2" />
+                    )}
+
+                    <DisputedKeyNotice question={q} className="mt-2" />
                   </div>
                 </div>
               </div>
@@ -262,10 +716,12 @@ export const PracticeView = ({ quizData, onGoToGenerate }: PracticeViewProps) =>
         <div className="w-24 h-24 rounded-3xl bg-primary/20 flex items-center justify-center mb-8">
           <CheckCircle2 className="w-12 h-12 text-primary" />
         </div>
-        <h2 className="text-2xl font-bold text-foreground mb-3">Quiz Complete!</h2>
+        <h2 className="text-2xl font-bold text-foreground mb-3">{mode === "exam" ? "Exam Submitted!" : "Quiz Complete!"}</h2>
         <p className="text-muted-foreground text-center max-w-md mb-6">
-          You scored {score} out of {questions.length} ({percentage}%)
+          You scored {formatScore(score)} out of {questions.length} ({percentage}%)
+          {timeTaken !== null && ` in ${formatDuration(timeTaken)}`}
         </p>
+        {mode === "exam" && gradeError && <p className="text-sm text-red-500 text-center max-w-md -mt-3 mb-6">{gradeError}</p>}
 
         <div className="bg-card/50 border border-border/50 rounded-2xl p-6 mb-8 w-full max-w-md">
           <div className="text-center">
@@ -293,19 +749,36 @@ export const PracticeView = ({ quizData, onGoToGenerate }: PracticeViewProps) =>
     );
   }
 
+  // Exam in progress — marked all at once on submit
+  if (isPracticing && mode === "exam" && questions.length > 0) {
+    return (
+      <ExamView
+        questions={questions}
+        timeLimit={timeLimit ?? defaultTimeLimit(questions)}
+        questionText={questionText}
+        multiSelectScoring={multiSelectScoring}
+        onSubmit={submitExam}
+      />
+    );
+  }
+
   // Show current question during practice
   if (isPracticing && questions.length > 0) {
     const currentQuestion = questions[currentQuestionIndex];
+    const currentAnswer = userAnswers.find(a => a.questionIndex === currentQuestionIndex);
+    // Read from storage once; every rating button previews its interval from it
+    const showRecall = isCurrentQuestionAnswered() && currentCredit() !== null;
+    const previousReview = showRecall ? getReviewStates()[currentQuestion.id] : undefined;
 
     return (
       <div className="max-w-2xl mx-auto py-8 px-4">
         <div className="mb-8">
           <div className="flex justify-between items-center mb-2">
             <span className="text-sm text-muted-foreground">
-              Question {currentQuestionIndex + 1} of {questions.length}
+              Question {currentQuestionIndex + 1} of {questions.length}{isStreaming && "+"}
             </span>
             <span className="text-sm text-muted-foreground">
-              Score: {score}/{currentQuestionIndex + (isCurrentQuestionAnswered() ? 1 : 0)}
+              Score: {formatScore(score)}/{currentQuestionIndex + (isCurrentQuestionAnswered() ? 1 : 0)}
             </span>
           </div>
           <div className="w-full bg-secondary rounded-full h-2">
@@ -321,14 +794,40 @@ export const PracticeView = ({ quizData, onGoToGenerate }: PracticeViewProps) =>
             <span className="px-2 py-1 text-xs font-medium rounded-full bg-primary/20 text-primary capitalize">
               {currentQuestion.type.replace("-", " ")}
             </span>
+            {currentQuestion.category && (
+              <span className="px-2 py-1 text-xs font-medium rounded-full bg-secondary text-muted-foreground capitalize">
+                {currentQuestion.category}
+              </span>
+            )}
             {currentQuestion.topic && (
               <span className="px-2 py-1 text-xs font-medium rounded-full bg-secondary text-muted-foreground">
                 {currentQuestion.topic}
               </span>
             )}
+            {currentQuestion.verified === 'verified' && (
+              <span className="flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-full bg-green-500/10 text-green-500" title="A second check agreed with the answer key">
+                <ShieldCheck className="w-3 h-3" />
+                Verified
+              </span>
+            )}
+            {(currentQuestion.verified === 'disputed' || currentQuestion.verified === 'ambiguous') && (
+              <span className="flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-full bg-amber-500/10 text-amber-500" title="A second check disagreed with the answer key">
+                <AlertTriangle className="w-3 h-3" />
+                Flagged
+              </span>
+            )}
+            {onQuestionsChange && !isStreaming && (
+              <button
+                onClick={() => setIsEditing(true)}
+                className="ml-auto text-xs text-muted-foreground hover:text-foreground flex items-center gap-1"
+              >
+                <Pencil className="w-3 h-3" />
+                Edit questions
+              </button>
+            )}
           </div>
           <h2 className="text-xl font-semibold text-foreground mb-6">
-            <MathText text={currentQuestion.question} />
+            <MathText text={questionText(currentQuestion)} />
           </h2>
 
           {/* Multiple Choice & True/False */}
@@ -362,6 +861,52 @@ export const PracticeView = ({ quizData, onGoToGenerate }: PracticeViewProps) =>
             </div>
           )}
 
+          {/* Multi-select */}
+          {currentQuestion.type === "multi-select" && (
+            <div className="space-y-3">
+              <p className="text-xs text-muted-foreground">
+                Select all that apply · {multiSelectScoring === "all-or-nothing" ? "all or nothing" : "right minus wrong"}
+              </p>
+              {currentQuestion.options.map((option, index) => {
+                const ticked = selectedOptions.includes(index);
+                const isKey = (currentQuestion.correctAnswer as number[]).includes(index);
+                return (
+                  <button
+                    key={index}
+                    onClick={() => toggleOption(index)}
+                    disabled={isAnswerSubmitted}
+                    className={cn(
+                      "w-full flex items-center gap-3 p-4 text-left rounded-xl border transition-all duration-200",
+                      !isAnswerSubmitted && (ticked ? "border-primary bg-primary/10" : "border-border/50 hover:border-primary hover:bg-primary/5"),
+                      isAnswerSubmitted && isKey && ticked && "border-green-500 bg-green-500/10 text-green-400",
+                      isAnswerSubmitted && isKey && !ticked && "border-green-500/60 border-dashed",
+                      isAnswerSubmitted && !isKey && ticked && "border-red-500 bg-red-500/10 text-red-400",
+                      isAnswerSubmitted && !isKey && !ticked && "border-border/50 opacity-50"
+                    )}
+                  >
+                    <span className={cn(
+                      "w-5 h-5 shrink-0 rounded border flex items-center justify-center",
+                      ticked ? "bg-primary border-primary text-primary-foreground" : "border-muted-foreground/50"
+                    )}>
+                      {ticked && <Check className="w-3.5 h-3.5" />}
+                    </span>
+                    <span className="flex-1"><MathText text={option} /></span>
+                    {isAnswerSubmitted && isKey && !ticked && <span className="text-xs text-green-400">missed</span>}
+                  </button>
+                );
+              })}
+              {!isAnswerSubmitted && (
+                <Button
+                  onClick={handleMultiSelectSubmit}
+                  disabled={selectedOptions.length === 0}
+                  className="rounded-xl bg-primary hover:bg-primary/90"
+                >
+                  Submit Answer
+                </Button>
+              )}
+            </div>
+          )}
+
           {/* Fill in the Blank */}
           {currentQuestion.type === "fill-blank" && (
             <div className="space-y-4">
@@ -394,6 +939,57 @@ export const PracticeView = ({ quizData, onGoToGenerate }: PracticeViewProps) =>
             </div>
           )}
 
+          {/* Numeric */}
+          {currentQuestion.type === "numeric" && (
+            <div className="space-y-4">
+              <Input
+                type="text"
+                inputMode="decimal"
+                placeholder={currentQuestion.numeric?.unit ? `Value and unit, e.g. 9.8 ${currentQuestion.numeric.unit}` : "Type a number, e.g. 0.5 or 1/2"}
+                value={textAnswer}
+                onChange={(e) => { setTextAnswer(e.target.value); setGradeError(null); }}
+                disabled={isAnswerSubmitted}
+                className="w-full p-4 rounded-xl"
+                onKeyDown={(e) => e.key === "Enter" && handleNumericSubmit()}
+              />
+              {gradeError && !isAnswerSubmitted && <p className="text-sm text-red-500">{gradeError}</p>}
+              {!isAnswerSubmitted && (
+                <Button
+                  onClick={handleNumericSubmit}
+                  disabled={!textAnswer.trim()}
+                  className="rounded-xl bg-primary hover:bg-primary/90"
+                >
+                  Submit Answer
+                </Button>
+              )}
+              {isAnswerSubmitted && currentAnswer?.numericResult && (
+                <div className={cn(
+                  "p-4 rounded-xl border",
+                  currentAnswer.numericResult.status === "correct" ? "border-green-500 bg-green-500/10"
+                    : currentAnswer.numericResult.status === "missing-unit" ? "border-amber-500 bg-amber-500/10"
+                    : "border-red-500 bg-red-500/10"
+                )}>
+                  <p className="text-sm font-medium text-foreground mb-1">
+                    {{
+                      correct: "Correct",
+                      "wrong-value": "Value is off",
+                      "wrong-unit": "Unit problem",
+                      "missing-unit": "Missing unit",
+                      unparseable: "Couldn't read that",
+                    }[currentAnswer.numericResult.status]}
+                  </p>
+                  <p className="text-sm text-muted-foreground">{currentAnswer.numericResult.message}</p>
+                  {instanceOf(currentQuestion)?.solution && (
+                    <p className="mt-2 text-sm text-muted-foreground">
+                      <span className="font-medium text-foreground">Worked solution: </span>
+                      <MathText text={instanceOf(currentQuestion)!.solution!} />
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Short Answer */}
           {currentQuestion.type === "short-answer" && (
             <div className="space-y-4">
@@ -424,8 +1020,113 @@ export const PracticeView = ({ quizData, onGoToGenerate }: PracticeViewProps) =>
             </div>
           )}
 
+          {/* Essay */}
+          {currentQuestion.type === "essay" && (
+            <div className="space-y-4">
+              <textarea
+                placeholder="Write your answer..."
+                value={textAnswer}
+                onChange={(e) => setTextAnswer(e.target.value)}
+                disabled={isAnswerSubmitted || isGrading}
+                className="w-full p-4 rounded-xl bg-background border border-border/50 min-h-[280px] resize-y focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+              <div className="flex items-center justify-between gap-3">
+                <span className="text-xs text-muted-foreground">{countWords(textAnswer)} words</span>
+                {!isAnswerSubmitted && (
+                  <Button
+                    onClick={handleEssaySubmit}
+                    disabled={!textAnswer.trim() || isGrading}
+                    className="rounded-xl bg-primary hover:bg-primary/90"
+                  >
+                    {isGrading ? (
+                      <>
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        Grading...
+                      </>
+                    ) : (
+                      "Submit for Grading"
+                    )}
+                  </Button>
+                )}
+              </div>
+              {gradeError && <p className="text-sm text-red-500">{gradeError}</p>}
+              {isAnswerSubmitted && currentAnswer?.grade && <EssayFeedback grade={currentAnswer.grade} />}
+              {isAnswerSubmitted && (
+                <div className="p-4 rounded-xl border border-green-500 bg-green-500/10">
+                  <p className="text-sm text-muted-foreground mb-1">Model answer:</p>
+                  <p className="text-green-400 font-medium whitespace-pre-wrap">
+                    <MathText text={String(currentQuestion.correctAnswer)} />
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Matching */}
+          {currentQuestion.type === "matching" && currentQuestion.pairs && (
+            <MatchingQuestion
+              key={currentQuestion.id}
+              questionId={currentQuestion.id}
+              pairs={currentQuestion.pairs}
+              submitted={currentAnswer?.arrangement}
+              onSubmit={handleArrangementSubmit}
+            />
+          )}
+
+          {/* Ordering */}
+          {currentQuestion.type === "ordering" && currentQuestion.steps && (
+            <OrderingQuestion
+              key={currentQuestion.id}
+              questionId={currentQuestion.id}
+              steps={currentQuestion.steps}
+              submitted={currentAnswer?.arrangement as number[] | undefined}
+              onSubmit={handleArrangementSubmit}
+            />
+          )}
+
+          {/* Cloze */}
+          {currentQuestion.type === "cloze" && currentQuestion.blanks && (
+            <ClozeQuestion
+              key={currentQuestion.id}
+              passage={currentQuestion.question}
+              blanks={currentQuestion.blanks}
+              submitted={currentAnswer?.blankAnswers}
+              onSubmit={handleClozeSubmit}
+            />
+          )}
+
+          {/* Hints — revealed one at a time, each costing part of the credit */}
+          {currentQuestion.hints && currentQuestion.hints.length > 0 && (hintsShown > 0 || !isCurrentQuestionAnswered()) && (
+            <div className="mt-4 space-y-2">
+              {currentQuestion.hints.slice(0, hintsShown).map((hint, i) => (
+                <div key={i} className="flex items-start gap-2 p-3 rounded-lg bg-primary/5 border border-primary/20 text-sm text-muted-foreground">
+                  <Lightbulb className="w-4 h-4 shrink-0 mt-0.5 text-primary" />
+                  <span>
+                    <span className="font-medium text-foreground">Hint {i + 1}: </span>
+                    <MathText text={hint} />
+                  </span>
+                </div>
+              ))}
+              {!isCurrentQuestionAnswered() && hintsShown < currentQuestion.hints.length && (
+                <button
+                  onClick={() => setHintsShown(prev => prev + 1)}
+                  disabled={isGrading}
+                  className="text-sm text-primary hover:underline flex items-center gap-1 disabled:opacity-50"
+                >
+                  <Lightbulb className="w-4 h-4" />
+                  {hintsShown === 0 ? "Show a hint" : "Show another hint"} ({hintsShown + 1}/{currentQuestion.hints.length})
+                  <span className="text-xs text-muted-foreground">
+                    · credit {Math.round(hintCredit(hintsShown + 1) * 100)}%
+                  </span>
+                </button>
+              )}
+            </div>
+          )}
+
+          {isCurrentQuestionAnswered() && <DisputedKeyNotice question={currentQuestion} className="mt-4" />}
+
           {/* Explanation (shown after answering) */}
-          {isCurrentQuestionAnswered() && currentQuestion.explanation && (
+          {isCurrentQuestionAnswered() && (currentQuestion.explanation || currentQuestion.source) && (
             <div className="mt-4">
               <button
                 onClick={() => setShowExplanation(!showExplanation)}
@@ -435,26 +1136,64 @@ export const PracticeView = ({ quizData, onGoToGenerate }: PracticeViewProps) =>
                 {showExplanation ? "Hide explanation" : "Show explanation"}
               </button>
               {showExplanation && (
-                <div className="mt-2 p-3 rounded-lg bg-secondary/50 text-sm text-muted-foreground">
-                  <MathText text={currentQuestion.explanation} />
+                <div className="mt-2 p-3 rounded-lg bg-secondary/50 text-sm text-muted-foreground space-y-3">
+                  {currentQuestion.explanation && <MathText text={currentQuestion.explanation} />}
+                  {currentQuestion.source && (
+                    <SourceReference source={currentQuestion.source} files={quizData?.files} />
+                  )}
                 </div>
               )}
             </div>
           )}
         </div>
 
+        {showRecall && (
+          <div className="mb-6">
+            <p className="text-sm text-muted-foreground mb-2">How well did you recall this?</p>
+            <div className="grid grid-cols-4 gap-2">
+              {([1, 2, 3, 4] as RecallRating[]).map(rating => {
+                const chosen = (recallRating ?? suggestedRating(currentCredit()!)) === rating;
+                return (
+                  <button
+                    key={rating}
+                    onClick={() => setRecallRating(rating)}
+                    className={cn(
+                      "flex flex-col items-center px-3 py-2 rounded-lg text-sm font-medium transition-all",
+                      chosen
+                        ? "bg-primary text-primary-foreground"
+                        : "bg-secondary text-muted-foreground hover:bg-secondary/80 hover:text-foreground"
+                    )}
+                  >
+                    {RECALL_LABELS[rating]}
+                    <span className="text-xs font-normal opacity-75">
+                      {formatInterval(schedule(previousReview, currentQuestion.id, rating))}
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {isCurrentQuestionAnswered() && (
           <div className="flex justify-end">
-            <Button onClick={handleNextQuestion} className="rounded-xl bg-primary hover:bg-primary/90">
-              {currentQuestionIndex < questions.length - 1 ? (
-                <>
-                  Next Question
-                  <ChevronRight className="w-4 h-4 ml-2" />
-                </>
-              ) : (
-                "See Results"
-              )}
-            </Button>
+            {isStreaming && currentQuestionIndex === questions.length - 1 ? (
+              <Button disabled className="rounded-xl">
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Waiting for more questions...
+              </Button>
+            ) : (
+              <Button onClick={handleNextQuestion} className="rounded-xl bg-primary hover:bg-primary/90">
+                {currentQuestionIndex < questions.length - 1 ? (
+                  <>
+                    Next Question
+                    <ChevronRight className="w-4 h-4 ml-2" />
+                  </>
+                ) : (
+                  "See Results"
+                )}
+              </Button>
+            )}
           </div>
         )}
       </div>
@@ -467,33 +1206,85 @@ export const PracticeView = ({ quizData, onGoToGenerate }: PracticeViewProps) =>
       <div className="w-24 h-24 rounded-3xl bg-primary/20 flex items-center justify-center mb-8">
         <CheckCircle2 className="w-12 h-12 text-primary" />
       </div>
-      <h2 className="text-2xl font-bold text-foreground mb-3">Quiz Generated!</h2>
+      <h2 className="text-2xl font-bold text-foreground mb-3">{quizData.isReview ? "Review Ready!" : quizData.sourceFiles ? "Quiz Ready!" : "Quiz Generated!"}</h2>
       <p className="text-muted-foreground text-center max-w-md mb-6">
-        {questions.length} questions have been generated from your study materials
+        {quizData.isReview
+          ? `${allQuestions.length} questions are due for review today`
+          : quizData.sourceFiles
+          ? `${allQuestions.length} questions from your question bank`
+          : `${allQuestions.length} questions have been generated from your study materials`}
       </p>
+      {isStreaming && (
+        <p className="flex items-center gap-2 text-sm text-primary mb-6 -mt-3">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          More questions on the way — you can start now
+        </p>
+      )}
 
       <div className="bg-card/50 border border-border/50 rounded-2xl p-6 mb-8 w-full max-w-md">
         <h3 className="font-semibold text-foreground mb-4">Quiz Details</h3>
         <div className="space-y-3 text-sm">
           <div className="flex justify-between">
             <span className="text-muted-foreground">Questions</span>
-            <span className="text-foreground font-medium">{questions.length}</span>
+            <span className="text-foreground font-medium">
+              {categoryFilter ? `${questions.length} of ${allQuestions.length}` : questions.length}
+            </span>
           </div>
           <div className="flex justify-between">
             <span className="text-muted-foreground">Difficulty</span>
             <span className="text-foreground font-medium capitalize">{quizData.difficulty}</span>
           </div>
-          <div className="flex justify-between">
+          <div className="flex justify-between items-start">
             <span className="text-muted-foreground">Question Types</span>
-            <span className="text-foreground font-medium">{quizData.questionTypes.length} selected</span>
+            <div className="text-right space-y-0.5">
+              {quizData.questionTypes.map(type => {
+                const requested = quizData.typeCounts?.[type];
+                const generated = typeCounts[type] || 0;
+                return (
+                  <div key={type} className="text-xs">
+                    <span className="text-muted-foreground capitalize">{type.replace("-", " ")} </span>
+                    <span className="text-foreground font-medium">{generated}</span>
+                    {requested !== undefined && requested !== generated && !isStreaming && (
+                      <span className="text-amber-500"> of {requested}</span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
           </div>
+          {quizData.metadata?.verification && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Answer keys checked</span>
+              <span className="text-foreground font-medium">
+                {quizData.metadata.verification.verified} agreed
+                {quizData.metadata.verification.disputed + quizData.metadata.verification.ambiguous > 0 &&
+                  ` · ${quizData.metadata.verification.disputed + quizData.metadata.verification.ambiguous} flagged`}
+                {quizData.metadata.verification.unchecked > 0 && ` · ${quizData.metadata.verification.unchecked} unchecked`}
+              </span>
+            </div>
+          )}
+          {quizData.metadata?.dropped.count > 0 && (
+            <div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Dropped (invalid)</span>
+                <span className="text-foreground font-medium">{quizData.metadata.dropped.count}</span>
+              </div>
+              <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+                {quizData.metadata.dropped.reasons.slice(0, 5).map((d, i) => (
+                  <li key={i} className="truncate" title={`${d.question} — ${d.reason}`}>
+                    {d.reason}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
           <div className="flex justify-between items-start">
             <span className="text-muted-foreground">Source Files</span>
             <div className="text-right">
-              {quizData.files.map((file, i) => (
+              {sourceNames.map((name, i) => (
                 <div key={i} className="flex items-center gap-1 text-foreground">
                   <FileText className="w-3 h-3" />
-                  <span className="text-xs">{file.name}</span>
+                  <span className="text-xs">{name}</span>
                 </div>
               ))}
             </div>
@@ -501,17 +1292,121 @@ export const PracticeView = ({ quizData, onGoToGenerate }: PracticeViewProps) =>
         </div>
       </div>
 
+      {!isStreaming && quizData.metadata?.coverage && (
+        <CoverageSummary coverage={quizData.metadata.coverage} />
+      )}
+
+      {allQuestions.some(q => q.type === "multi-select") && (
+        <div className="w-full max-w-md mb-8">
+          <p className="text-sm font-medium text-foreground mb-2">Multi-select scoring</p>
+          <div className="grid grid-cols-2 gap-2">
+            {([
+              ["all-or-nothing", "All or nothing"],
+              ["right-minus-wrong", "Right minus wrong"],
+            ] as [MultiSelectScoring, string][]).map(([rule, label]) => (
+              <button
+                key={rule}
+                onClick={() => changeScoringRule(rule)}
+                className={cn(
+                  "px-3 py-2 rounded-lg text-xs font-medium transition-all",
+                  multiSelectScoring === rule
+                    ? "bg-primary text-primary-foreground"
+                    : "bg-secondary text-muted-foreground hover:bg-secondary/80 hover:text-foreground"
+                )}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="w-full max-w-md mb-8">
+        <p className="text-sm font-medium text-foreground mb-2">Mode</p>
+        <div className="grid grid-cols-2 gap-2">
+          {([
+            ["practice", "Practice", "Feedback after every answer"],
+            ["exam", "Exam", "Timed, marked when you submit"],
+          ] as [QuizMode, string, string][]).map(([value, label, description]) => (
+            <button
+              key={value}
+              onClick={() => setMode(value)}
+              className={cn(
+                "flex flex-col items-center px-3 py-2 rounded-lg text-xs font-medium transition-all",
+                mode === value
+                  ? "bg-primary text-primary-foreground"
+                  : "bg-secondary text-muted-foreground hover:bg-secondary/80 hover:text-foreground"
+              )}
+            >
+              {label}
+              <span className="font-normal opacity-75">{description}</span>
+            </button>
+          ))}
+        </div>
+        {mode === "exam" && (
+          <div className="flex items-center gap-2 mt-3 text-sm">
+            <Timer className="w-4 h-4 text-muted-foreground" />
+            <span className="text-muted-foreground">Time limit</span>
+            <Input
+              type="number"
+              min={1}
+              max={300}
+              value={timeLimit ?? defaultTimeLimit(questions)}
+              onChange={(e) => setTimeLimit(Math.min(300, Math.max(1, Number(e.target.value) || 1)))}
+              className="w-20 h-8 rounded-lg"
+              aria-label="Time limit in minutes"
+            />
+            <span className="text-muted-foreground">minutes · submits itself when time runs out</span>
+          </div>
+        )}
+      </div>
+
+      {Object.keys(categoryCounts).length > 1 && (
+        <div className="w-full max-w-md mb-8">
+          <p className="text-sm font-medium text-foreground mb-2">Practice by category</p>
+          <div className="flex flex-wrap gap-2">
+            {[null, ...Object.keys(categoryCounts) as QuestionCategory[]].map(category => (
+              <button
+                key={category ?? "all"}
+                onClick={() => setCategoryFilter(category)}
+                className={cn(
+                  "px-3 py-1.5 rounded-lg text-xs font-medium capitalize transition-all",
+                  categoryFilter === category
+                    ? "bg-primary text-primary-foreground"
+                    : "bg-secondary text-muted-foreground hover:bg-secondary/80 hover:text-foreground"
+                )}
+              >
+                {category ?? "All"} ({category ? categoryCounts[category] : allQuestions.length})
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="flex gap-3">
         <Button onClick={onGoToGenerate} variant="outline" className="rounded-xl">
           <ArrowLeft className="w-4 h-4 mr-2" />
           Generate New Quiz
         </Button>
+        {onQuestionsChange && (
+          <Button
+            onClick={() => setIsEditing(true)}
+            variant="outline"
+            className="rounded-xl"
+            disabled={isStreaming}
+            title={isStreaming ? "Available once every question has arrived" : undefined}
+          >
+            <Pencil className="w-4 h-4 mr-2" />
+            Edit Questions
+          </Button>
+        )}
         <Button
           onClick={startPractice}
           className="rounded-xl bg-primary hover:bg-primary/90"
-          disabled={questions.length === 0}
+          disabled={questions.length === 0 || (mode === "exam" && isStreaming)}
+          title={mode === "exam" && isStreaming ? "Available once every question has arrived" : undefined}
         >
-          Start Practice
+          {mode === "exam" ? "Start Exam" : "Start Practice"}
         </Button>
       </div>
     </div>
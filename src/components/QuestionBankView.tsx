@@ -0,0 +1,273 @@
+import { useState, useEffect } from "react";
+import { Library, Search, Check, Trash2, Plus, X, Shuffle, Play } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { GeneratedQuizData } from "./GeneratorPanel";
+import { MathText } from "./MathRenderer";
+import { useAuth } from "@/contexts/AuthContext";
+import { cn } from "@/lib/utils";
+import {
+  type BankQuestion,
+  getQuestionBankWithSync,
+  setBankTagsWithSync,
+  deleteFromBankWithSync,
+  normalizeTags,
+  searchBank,
+  accuracyOf,
+  quizFromBank,
+} from "@/lib/questionBank";
+import { forgetReviewWithSync } from "@/lib/spacedRepetition";
+
+interface QuestionBankViewProps {
+  onStartQuiz: (data: GeneratedQuizData) => void;
+}
+
+// Questions picked by "Pick at random"
+const RANDOM_PICK = 10;
+
+const chipClass = (active: boolean) => cn(
+  "px-3 py-1 rounded-full text-xs font-medium capitalize transition-all",
+  active
+    ? "bg-primary text-primary-foreground"
+    : "bg-secondary text-muted-foreground hover:bg-secondary/80 hover:text-foreground"
+);
+
+// Browse, search and tag saved questions, and practise any of them again
+export const QuestionBankView = ({ onStartQuiz }: QuestionBankViewProps) => {
+  const { user } = useAuth();
+  const uid = user?.uid ?? null;
+  const [bank, setBank] = useState<BankQuestion[] | null>(null);
+  const [search, setSearch] = useState("");
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [typeFilter, setTypeFilter] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [taggingId, setTaggingId] = useState<string | null>(null);
+  const [tagDraft, setTagDraft] = useState("");
+
+  useEffect(() => {
+    getQuestionBankWithSync(uid).then(setBank);
+  }, [uid]);
+
+  if (bank === null) return null;
+
+  if (bank.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20 px-4">
+        <div className="w-24 h-24 rounded-3xl bg-secondary/80 flex items-center justify-center mb-8">
+          <Library className="w-12 h-12 text-muted-foreground" />
+        </div>
+        <h2 className="text-2xl font-bold text-foreground mb-3">Your question bank is empty</h2>
+        <p className="text-muted-foreground text-center max-w-md mb-8">
+          Every question you generate is saved here, so you can search it, tag it and practise it again later.
+        </p>
+      </div>
+    );
+  }
+
+  const tags = normalizeTags(bank.flatMap(e => e.tags));
+  const types = Array.from(new Set(bank.map(e => e.question.type)));
+  const visible = searchBank(bank, { text: search, tag: tagFilter, type: typeFilter });
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const pickRandom = () => {
+    const shuffled = [...visible].sort(() => Math.random() - 0.5);
+    setSelected(new Set(shuffled.slice(0, RANDOM_PICK).map(e => e.id)));
+  };
+
+  const updateTags = (entry: BankQuestion, tags: string[]) => {
+    setBank(prev => prev && prev.map(e => (e.id === entry.id ? { ...e, tags: normalizeTags(tags) } : e)));
+    setBankTagsWithSync(entry.id, tags, uid);
+  };
+
+  const handleAddTag = (entry: BankQuestion) => {
+    if (tagDraft.trim()) updateTags(entry, [...entry.tags, ...tagDraft.split(",")]);
+    setTaggingId(null);
+    setTagDraft("");
+  };
+
+  const handleDelete = (id: string) => {
+    setBank(prev => prev && prev.filter(e => e.id !== id));
+    setSelected(prev => {
+      const next = new Set(prev);
+      next.delete(id);
+      return next;
+    });
+    deleteFromBankWithSync(id, uid);
+    forgetReviewWithSync(id, uid);
+  };
+
+  const handlePractice = () => {
+    const chosen = bank.filter(e => selected.has(e.id));
+    if (chosen.length > 0) onStartQuiz(quizFromBank(chosen));
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto py-8 px-4">
+      <div className="flex items-baseline justify-between mb-6">
+        <h2 className="text-xl font-bold text-foreground">Question Bank</h2>
+        <span className="text-sm text-muted-foreground">{bank.length} questions</span>
+      </div>
+
+      <div className="relative mb-4">
+        <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search questions, topics, tags or files..."
+          className="pl-9 rounded-xl"
+        />
+      </div>
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-3">
+          {[null, ...tags].map(tag => (
+            <button key={tag ?? "all"} onClick={() => setTagFilter(tag)} className={chipClass(tagFilter === tag)}>
+              {tag ?? "All tags"}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {types.length > 1 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {[null, ...types].map(type => (
+            <button key={type ?? "all"} onClick={() => setTypeFilter(type)} className={chipClass(typeFilter === type)}>
+              {type?.replace("-", " ") ?? "All types"}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-3 p-3 mb-4 rounded-xl bg-card/50 border border-border/50">
+        <div className="flex items-center gap-3 text-sm">
+          <span className="text-muted-foreground">{selected.size} selected</span>
+          <button
+            onClick={() => setSelected(new Set(visible.map(e => e.id)))}
+            className="text-primary hover:underline"
+          >
+            Select all {visible.length}
+          </button>
+          {selected.size > 0 && (
+            <button onClick={() => setSelected(new Set())} className="text-muted-foreground hover:text-foreground">
+              Clear
+            </button>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" className="rounded-xl" onClick={pickRandom} disabled={visible.length === 0}>
+            <Shuffle className="w-4 h-4 mr-2" />
+            Pick {Math.min(RANDOM_PICK, visible.length)} at random
+          </Button>
+          <Button size="sm" className="rounded-xl bg-primary hover:bg-primary/90" onClick={handlePractice} disabled={selected.size === 0}>
+            <Play className="w-4 h-4 mr-2" />
+            Practice
+          </Button>
+        </div>
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">No questions match.</p>
+      ) : (
+        <div className="space-y-3">
+          {visible.map(entry => {
+            const { question } = entry;
+            const isSelected = selected.has(entry.id);
+            const accuracy = accuracyOf(entry);
+            return (
+              <div
+                key={entry.id}
+                className={cn(
+                  "flex items-start gap-3 p-4 rounded-xl border transition-colors",
+                  isSelected ? "bg-primary/5 border-primary/40" : "bg-card/50 border-border/50"
+                )}
+              >
+                <button
+                  onClick={() => toggleSelected(entry.id)}
+                  aria-label={isSelected ? "Deselect question" : "Select question"}
+                  className={cn(
+                    "flex items-center justify-center w-5 h-5 mt-0.5 rounded border-2 flex-shrink-0 transition-colors",
+                    isSelected ? "bg-primary border-primary" : "border-muted-foreground"
+                  )}
+                >
+                  {isSelected && <Check className="w-3 h-3 text-primary-foreground" />}
+                </button>
+
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-foreground line-clamp-2">
+                    <MathText text={question.question} />
+                  </p>
+                  <div className="flex flex-wrap items-center gap-x-2 gap-y-1 mt-1 text-xs text-muted-foreground">
+                    <span className="capitalize">{question.type.replace("-", " ")}</span>
+                    {question.topic && <span>· {question.topic}</span>}
+                    <span className="capitalize">· {entry.difficulty}</span>
+                    {entry.sourceFiles.length > 0 && <span className="truncate">· {entry.sourceFiles.join(", ")}</span>}
+                    <span>
+                      · {accuracy === null
+                        ? "Not practised yet"
+                        : `${entry.stats.attempts} attempt${entry.stats.attempts === 1 ? "" : "s"} · ${Math.round(accuracy * 100)}%`}
+                    </span>
+                  </div>
+
+                  <div className="flex flex-wrap items-center gap-1.5 mt-2">
+                    {entry.tags.map(tag => (
+                      <span key={tag} className="flex items-center gap-1 px-2 py-0.5 rounded-full text-xs bg-secondary text-foreground">
+                        {tag}
+                        <button
+                          onClick={() => updateTags(entry, entry.tags.filter(t => t !== tag))}
+                          aria-label={`Remove tag ${tag}`}
+                          className="text-muted-foreground hover:text-foreground"
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      </span>
+                    ))}
+                    {taggingId === entry.id ? (
+                      <Input
+                        autoFocus
+                        value={tagDraft}
+                        onChange={(e) => setTagDraft(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") handleAddTag(entry);
+                          if (e.key === "Escape") setTaggingId(null);
+                        }}
+                        onBlur={() => handleAddTag(entry)}
+                        placeholder="tag, another"
+                        className="h-6 w-32 px-2 text-xs rounded-full"
+                      />
+                    ) : (
+                      <button
+                        onClick={() => { setTaggingId(entry.id); setTagDraft(""); }}
+                        className="flex items-center gap-0.5 px-2 py-0.5 rounded-full text-xs text-muted-foreground hover:text-foreground border border-dashed border-border"
+                      >
+                        <Plus className="w-3 h-3" />
+                        Tag
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="shrink-0"
+                  onClick={() => handleDelete(entry.id)}
+                  aria-label="Remove from question bank"
+                >
+                  <Trash2 className="w-4 h-4 text-muted-foreground" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef } from "react";
-import { Check, ListChecks, TextCursorInput, Shuffle, Brain } from "lucide-react";
+import { Check, ListChecks, ListTodo, TextCursorInput, Shuffle, Brain, Calculator, PenLine, Link2, ListOrdered, TextQuote } from "lucide-react";
 import { cn } from "@/lib/utils";
 
 interface QuestionType {
@@ -16,6 +16,12 @@ const QUESTION_TYPES: QuestionType[] = [
     description: "4 options per question",
     icon: <ListChecks className="w-5 h-5" />,
   },
+  {
+    id: "multi-select",
+    title: "Multi-Select",
+    description: "Select all that apply",
+    icon: <ListTodo className="w-5 h-5" />,
+  },
   {
     id: "fill-blank",
     title: "Fill in the Blank",
@@ -34,6 +40,36 @@ const QUESTION_TYPES: QuestionType[] = [
     description: "Brief explanations",
     icon: <Brain className="w-5 h-5" />,
   },
+  {
+    id: "numeric",
+    title: "Numeric",
+    description: "Values with units and tolerance",
+    icon: <Calculator className="w-5 h-5" />,
+  },
+  {
+    id: "essay",
+    title: "Essay",
+    description: "Rubric-graded long answers",
+    icon: <PenLine className="w-5 h-5" />,
+  },
+  {
+    id: "matching",
+    title: "Matching",
+    description: "Pair terms across two columns",
+    icon: <Link2 className="w-5 h-5" />,
+  },
+  {
+    id: "ordering",
+    title: "Ordering",
+    description: "Put steps in sequence",
+    icon: <ListOrdered className="w-5 h-5" />,
+  },
+  {
+    id: "cloze",
+    title: "Cloze Passage",
+    description: "Fill several blanks in a paragraph",
+    icon: <TextQuote className="w-5 h-5" />,
+  },
 ];
 
 interface QuestionTypeSelectorProps {
@@ -83,6 +119,8 @@ export const QuestionTypeSelector = ({
                   ? "border-primary bg-primary/10"
                   : "border-border/60 bg-card/50",
                 disabled && "opacity-40 cursor-not-allowed hover:border-border/60 hover:bg-card/50",
+                // An odd one out at the end fills the row
+                index === QUESTION_TYPES.length - 1 && index % 2 === 0 && "col-span-2",
                 // Float-up animation
                 !disabled && animatedIn
                   ? "translate-y-0 opacity-100"
@@ -0,0 +1,465 @@
+import { useRef, useState } from "react";
+import { ArrowLeft, Check, Loader2, Pencil, Plus, RefreshCw, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import type { Question } from "./GeneratorPanel";
+import { MathText } from "./MathRenderer";
+import { cn } from "@/lib/utils";
+import { clozeMarkers } from "@/lib/cloze";
+import { formatNumericKey } from "@/lib/numericAnswer";
+
+interface QuizEditorProps {
+  questions: Question[];
+  onChange: (questions: Question[]) => void;
+  /** Fetch a replacement of the same type from the same part of the material */
+  onRegenerate?: (question: Question) => Promise<Question>;
+  /** Questions already answered in the run in progress — shown but not editable */
+  answeredIds?: Set<string>;
+  /** The question on screen in the run in progress — editable but not deletable */
+  currentId?: string;
+  onClose: () => void;
+}
+
+// Types simple enough to write from scratch; the rest can be edited or regenerated
+const ADDABLE_TYPES: [string, string][] = [
+  ["multiple-choice", "Multiple choice"],
+  ["multi-select", "Multi-select"],
+  ["true-false", "True or false"],
+  ["fill-blank", "Fill in the blank"],
+  ["short-answer", "Short answer"],
+];
+
+const hasOptions = (type: string) => type === "multiple-choice" || type === "multi-select" || type === "true-false";
+
+const blankQuestion = (type: string): Question => ({
+  id: `q${Date.now()}_manual`,
+  type,
+  question: "",
+  options: type === "true-false" ? ["True", "False"] : hasOptions(type) ? ["", "", "", ""] : [],
+  correctAnswer: type === "multi-select" ? [] : hasOptions(type) ? 0 : "",
+  explanation: "",
+});
+
+// Why a draft can't be saved yet, or null when it's complete
+function problemWith(q: Question): string | null {
+  if (!q.question.trim()) return q.type === "cloze" ? "Write the passage." : "Write the question.";
+  if (hasOptions(q.type) && q.options.some(o => !o.trim())) return "Fill in every option or remove it.";
+  if (q.type === "multi-select" && (q.correctAnswer as number[]).length === 0) return "Tick at least one correct option.";
+  if ((q.type === "fill-blank" || q.type === "short-answer" || q.type === "essay") && !String(q.correctAnswer).trim()) {
+    return "Give the correct answer.";
+  }
+  if (q.type === "numeric" && !q.template && !Number.isFinite(q.numeric?.value)) return "Give the answer as a number.";
+  if (q.type === "matching" && (!q.pairs || q.pairs.length < 2 || q.pairs.some(p => !p.left.trim() || !p.right.trim()))) {
+    return "Fill in at least two complete pairs.";
+  }
+  if (q.type === "ordering" && (!q.steps || q.steps.length < 2 || q.steps.some(s => !s.trim()))) {
+    return "Fill in at least two steps.";
+  }
+  if (q.type === "cloze") {
+    const markers = clozeMarkers(q.question);
+    if (markers.length === 0 || markers.some((n, i) => n !== i + 1)) return "Mark the blanks in order as {{1}}, {{2}}, …";
+    if (q.blanks?.some(b => b.answers.every(a => !a.trim()))) return "Give at least one answer for every blank.";
+  }
+  return null;
+}
+
+// Tidy a finished draft and spell out the answer key the way generated questions do
+function finalize(q: Question): Question {
+  const question = { ...q, question: q.question.trim(), explanation: q.explanation?.trim() };
+  if (hasOptions(q.type)) question.options = q.options.map(o => o.trim());
+  if (q.type === "matching" && q.pairs) {
+    question.correctAnswer = q.pairs.map(p => `${p.left} → ${p.right}`).join("; ");
+  } else if (q.type === "ordering" && q.steps) {
+    question.correctAnswer = q.steps.join(" → ");
+  } else if (q.type === "cloze" && q.blanks) {
+    question.blanks = q.blanks.map(b => ({ answers: b.answers.map(a => a.trim()).filter(Boolean) }));
+    question.correctAnswer = question.blanks.map((b, n) => `${n + 1}. ${b.answers[0]}`).join("; ");
+  } else if (q.type === "numeric" && q.numeric && !q.template) {
+    question.correctAnswer = formatNumericKey(q.numeric);
+  } else if (typeof q.correctAnswer === "string") {
+    question.correctAnswer = q.correctAnswer.trim();
+  }
+  return question;
+}
+
+const fieldLabel = "block text-xs font-medium text-muted-foreground mb-1";
+
+// Inline form for one question; edits a copy until it's saved
+const QuestionForm = ({ initial, onSave, onCancel }: {
+  initial: Question;
+  onSave: (question: Question) => void;
+  onCancel: () => void;
+}) => {
+  const [draft, setDraft] = useState(initial);
+  const [error, setError] = useState<string | null>(null);
+  const update = (changes: Partial<Question>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const toggleCorrect = (index: number) => {
+    if (draft.type === "multi-select") {
+      const keys = draft.correctAnswer as number[];
+      update({ correctAnswer: keys.includes(index) ? keys.filter(k => k !== index) : [...keys, index].sort((a, b) => a - b) });
+    } else {
+      update({ correctAnswer: index });
+    }
+  };
+
+  // Keys after a removed option move up by one
+  const removeOption = (index: number) => {
+    const shift = (k: number) => (k > index ? k - 1 : k);
+    update({
+      options: draft.options.filter((_, i) => i !== index),
+      correctAnswer: draft.type === "multi-select"
+        ? (draft.correctAnswer as number[]).filter(k => k !== index).map(shift)
+        : draft.correctAnswer === index ? 0 : shift(draft.correctAnswer as number),
+    });
+  };
+
+  // One answer box per {{n}} marker, keeping what was already typed
+  const updatePassage = (passage: string) => {
+    const count = clozeMarkers(passage).length;
+    update({
+      question: passage,
+      blanks: Array.from({ length: count }, (_, i) => draft.blanks?.[i] ?? { answers: [] }),
+    });
+  };
+
+  const handleSave = () => {
+    const problem = problemWith(draft);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    onSave(finalize(draft));
+  };
+
+  const isKey = (index: number) => draft.type === "multi-select"
+    ? (draft.correctAnswer as number[]).includes(index)
+    : draft.correctAnswer === index;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className={fieldLabel}>
+          {draft.type === "cloze" ? "Passage — mark each blank as {{1}}, {{2}}, …" : "Question"}
+        </label>
+        <Textarea
+          value={draft.question}
+          onChange={(e) => draft.type === "cloze" ? updatePassage(e.target.value) : update({ question: e.target.value })}
+          className="rounded-xl"
+        />
+      </div>
+
+      {hasOptions(draft.type) && (
+        <div className="space-y-2">
+          <label className={fieldLabel}>
+            Options · {draft.type === "multi-select" ? "tick every correct one" : "pick the correct one"}
+          </label>
+          {draft.options.map((option, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <button
+                onClick={() => toggleCorrect(i)}
+                aria-label={`Mark option ${String.fromCharCode(65 + i)} correct`}
+                className={cn(
+                  "flex items-center justify-center w-5 h-5 border-2 flex-shrink-0 transition-colors",
+                  draft.type === "multi-select" ? "rounded" : "rounded-full",
+                  isKey(i) ? "bg-green-500 border-green-500" : "border-muted-foreground"
+                )}
+              >
+                {isKey(i) && <Check className="w-3 h-3 text-white" />}
+              </button>
+              <Input
+                value={option}
+                onChange={(e) => update({ options: draft.options.map((o, j) => (j === i ? e.target.value : o)) })}
+                disabled={draft.type === "true-false"}
+                placeholder={`Option ${String.fromCharCode(65 + i)}`}
+                className="rounded-xl"
+              />
+              {draft.type !== "true-false" && draft.options.length > 2 && (
+                <Button variant="ghost" size="icon" className="shrink-0" onClick={() => removeOption(i)} aria-label="Remove option">
+                  <X className="w-4 h-4 text-muted-foreground" />
+                </Button>
+              )}
+            </div>
+          ))}
+          {draft.type !== "true-false" && draft.options.length < 6 && (
+            <button onClick={() => update({ options: [...draft.options, ""] })} className="text-sm text-primary hover:underline flex items-center gap-1">
+              <Plus className="w-4 h-4" />Add option
+            </button>
+          )}
+        </div>
+      )}
+
+      {(draft.type === "fill-blank" || draft.type === "short-answer") && (
+        <div>
+          <label className={fieldLabel}>Correct answer</label>
+          <Input value={String(draft.correctAnswer)} onChange={(e) => update({ correctAnswer: e.target.value })} className="rounded-xl" />
+        </div>
+      )}
+
+      {draft.type === "essay" && (
+        <div>
+          <label className={fieldLabel}>Model answer</label>
+          <Textarea value={String(draft.correctAnswer)} onChange={(e) => update({ correctAnswer: e.target.value })} className="rounded-xl" />
+        </div>
+      )}
+
+      {draft.type === "numeric" && (draft.template ? (
+        <p className="text-xs text-muted-foreground">
+          This question draws new numbers on every attempt. Regenerate it to change the formula.
+        </p>
+      ) : (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className={fieldLabel}>Answer</label>
+            <Input
+              type="number"
+              value={draft.numeric?.value ?? ""}
+              onChange={(e) => update({ numeric: { ...draft.numeric, value: e.target.value === "" ? NaN : Number(e.target.value) } })}
+              className="rounded-xl"
+            />
+          </div>
+          <div>
+            <label className={fieldLabel}>Unit</label>
+            <Input
+              value={draft.numeric?.unit ?? ""}
+              onChange={(e) => update({ numeric: { ...draft.numeric!, unit: e.target.value.trim() || undefined } })}
+              placeholder="none"
+              className="rounded-xl"
+            />
+          </div>
+        </div>
+      ))}
+
+      {draft.type === "matching" && draft.pairs && (
+        <div className="space-y-2">
+          <label className={fieldLabel}>Pairs · each left item with its match</label>
+          {draft.pairs.map((pair, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <Input
+                value={pair.left}
+                onChange={(e) => update({ pairs: draft.pairs!.map((p, j) => (j === i ? { ...p, left: e.target.value } : p)) })}
+                className="rounded-xl"
+              />
+              <Input
+                value={pair.right}
+                onChange={(e) => update({ pairs: draft.pairs!.map((p, j) => (j === i ? { ...p, right: e.target.value } : p)) })}
+                className="rounded-xl"
+              />
+              {draft.pairs!.length > 2 && (
+                <Button variant="ghost" size="icon" className="shrink-0" onClick={() => update({ pairs: draft.pairs!.filter((_, j) => j !== i) })} aria-label="Remove pair">
+                  <X className="w-4 h-4 text-muted-foreground" />
+                </Button>
+              )}
+            </div>
+          ))}
+          <button onClick={() => update({ pairs: [...draft.pairs!, { left: "", right: "" }] })} className="text-sm text-primary hover:underline flex items-center gap-1">
+            <Plus className="w-4 h-4" />Add pair
+          </button>
+        </div>
+      )}
+
+      {draft.type === "ordering" && draft.steps && (
+        <div className="space-y-2">
+          <label className={fieldLabel}>Steps · in the correct order</label>
+          {draft.steps.map((step, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <span className="w-5 text-xs text-muted-foreground text-right shrink-0">{i + 1}.</span>
+              <Input
+                value={step}
+                onChange={(e) => update({ steps: draft.steps!.map((s, j) => (j === i ? e.target.value : s)) })}
+                className="rounded-xl"
+              />
+              {draft.steps!.length > 2 && (
+                <Button variant="ghost" size="icon" className="shrink-0" onClick={() => update({ steps: draft.steps!.filter((_, j) => j !== i) })} aria-label="Remove step">
+                  <X className="w-4 h-4 text-muted-foreground" />
+                </Button>
+              )}
+            </div>
+          ))}
+          <button onClick={() => update({ steps: [...draft.steps!, ""] })} className="text-sm text-primary hover:underline flex items-center gap-1">
+            <Plus className="w-4 h-4" />Add step
+          </button>
+        </div>
+      )}
+
+      {draft.type === "cloze" && draft.blanks && draft.blanks.length > 0 && (
+        <div className="space-y-2">
+          <label className={fieldLabel}>Accepted answers · separate alternatives with commas</label>
+          {draft.blanks.map((blank, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <span className="w-5 text-xs text-muted-foreground text-right shrink-0">{i + 1}.</span>
+              <Input
+                value={blank.answers.join(",")}
+                onChange={(e) => update({ blanks: draft.blanks!.map((b, j) => (j === i ? { answers: e.target.value.split(",") } : b)) })}
+                className="rounded-xl"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div>
+        <label className={fieldLabel}>Explanation</label>
+        <Textarea value={draft.explanation ?? ""} onChange={(e) => update({ explanation: e.target.value })} className="rounded-xl min-h-[60px]" />
+      </div>
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" className="rounded-xl" onClick={onCancel}>Cancel</Button>
+        <Button size="sm" className="rounded-xl bg-primary hover:bg-primary/90" onClick={handleSave}>Save</Button>
+      </div>
+    </div>
+  );
+};
+
+// Edit, regenerate, delete or add questions — before practice or part-way through it
+export const QuizEditor = ({ questions, onChange, onRegenerate, answeredIds, currentId, onClose }: QuizEditorProps) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [newQuestion, setNewQuestion] = useState<Question | null>(null);
+  const [regenerating, setRegenerating] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+  // Regeneration finishes after other edits may have landed, so it works on the latest list
+  const latest = useRef({ questions, onChange });
+  latest.current = { questions, onChange };
+
+  const handleSave = (saved: Question) => {
+    const original = questions.find(q => q.id === saved.id);
+    if (JSON.stringify(original) === JSON.stringify(saved)) {
+      setEditingId(null);
+      return;
+    }
+    // The answer-key check was for the old wording
+    const { verified: _verified, verificationNote: _note, ...edited } = saved;
+    onChange(questions.map(q => (q.id === saved.id ? edited : q)));
+    setEditingId(null);
+  };
+
+  const handleRegenerate = async (question: Question) => {
+    if (!onRegenerate) return;
+    setError(null);
+    setRegenerating(prev => new Set(prev).add(question.id));
+    try {
+      const replacement = await onRegenerate(question);
+      latest.current.onChange(latest.current.questions.map(q => (q.id === question.id ? replacement : q)));
+    } catch (err) {
+      setError((err instanceof Error && err.message) || "Couldn't regenerate that question. Please try again.");
+    } finally {
+      setRegenerating(prev => {
+        const next = new Set(prev);
+        next.delete(question.id);
+        return next;
+      });
+    }
+  };
+
+  const handleAdd = (added: Question) => {
+    onChange([...questions, added]);
+    setNewQuestion(null);
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto py-8 px-4">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-xl font-bold text-foreground">Edit Questions</h2>
+        <Button onClick={onClose} variant="outline" size="sm" className="rounded-xl">
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Done
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground mb-6">
+        {answeredIds?.size
+          ? "Questions you've already answered in this run are locked. Changes to the rest apply straight away."
+          : "Changes apply to practice straight away and are kept with this quiz."}
+      </p>
+
+      {error && (
+        <div className="p-3 mb-4 rounded-lg border border-red-500/30 bg-red-500/10 text-sm text-red-500">{error}</div>
+      )}
+
+      <div className="space-y-3">
+        {questions.map((q, idx) => {
+          const locked = answeredIds?.has(q.id) ?? false;
+          const busy = regenerating.has(q.id);
+          return (
+            <div key={q.id} className={cn("p-4 rounded-xl border border-border/50 bg-card/50", locked && "opacity-60")}>
+              <div className="flex items-center gap-2 mb-2">
+                <span className="text-xs text-muted-foreground">Question {idx + 1}</span>
+                <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-primary/20 text-primary capitalize">
+                  {q.type.replace("-", " ")}
+                </span>
+                {q.topic && <span className="text-xs text-muted-foreground truncate">{q.topic}</span>}
+                {locked && <span className="text-xs text-muted-foreground">· answered</span>}
+                {editingId !== q.id && !locked && (
+                  <div className="flex gap-1 ml-auto shrink-0">
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setEditingId(q.id)} disabled={busy} aria-label="Edit question">
+                      <Pencil className="w-4 h-4 text-muted-foreground" />
+                    </Button>
+                    {onRegenerate && (
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleRegenerate(q)} disabled={busy} aria-label="Regenerate question">
+                        {busy
+                          ? <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                          : <RefreshCw className="w-4 h-4 text-muted-foreground" />}
+                      </Button>
+                    )}
+                    {q.id !== currentId && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => onChange(questions.filter(x => x.id !== q.id))}
+                        disabled={busy}
+                        aria-label="Delete question"
+                      >
+                        <Trash2 className="w-4 h-4 text-muted-foreground" />
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {editingId === q.id ? (
+                <QuestionForm initial={q} onSave={handleSave} onCancel={() => setEditingId(null)} />
+              ) : (
+                <>
+                  <p className="text-sm text-foreground line-clamp-3">
+                    <MathText text={q.question} />
+                  </p>
+                  <p className="text-xs text-muted-foreground mt-1 truncate">
+                    Answer: {Array.isArray(q.correctAnswer)
+                      ? q.correctAnswer.map(i => q.options[i]).join(", ")
+                      : typeof q.correctAnswer === "number" ? q.options[q.correctAnswer] : q.correctAnswer}
+                  </p>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {newQuestion ? (
+        <div className="mt-3 p-4 rounded-xl border border-primary/40 bg-primary/5">
+          <p className="text-xs text-muted-foreground mb-2">New {newQuestion.type.replace("-", " ")} question</p>
+          <QuestionForm initial={newQuestion} onSave={handleAdd} onCancel={() => setNewQuestion(null)} />
+        </div>
+      ) : (
+        <div className="mt-6">
+          <p className="text-sm font-medium text-foreground mb-2">Add a question</p>
+          <div className="flex flex-wrap gap-2">
+            {ADDABLE_TYPES.map(([type, label]) => (
+              <button
+                key={type}
+                onClick={() => setNewQuestion(blankQuestion(type))}
+                className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-medium bg-secondary text-muted-foreground hover:bg-secondary/80 hover:text-foreground transition-all"
+              >
+                <Plus className="w-3 h-3" />
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import { useState, useEffect } from "react";
+import { CalendarClock, CheckCircle2, Play, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { GeneratedQuizData } from "./GeneratorPanel";
+import { MathText } from "./MathRenderer";
+import { useAuth } from "@/contexts/AuthContext";
+import { type BankQuestion, getQuestionBankWithSync, quizFromBank } from "@/lib/questionBank";
+import { type ReviewState, getReviewStatesWithSync, dueToday, formatInterval } from "@/lib/spacedRepetition";
+
+interface ReviewViewProps {
+  onStartQuiz: (data: GeneratedQuizData) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Today's spaced-repetition queue, mixed from every quiz taken so far
+export const ReviewView = ({ onStartQuiz }: ReviewViewProps) => {
+  const { user } = useAuth();
+  const uid = user?.uid ?? null;
+  const [data, setData] = useState<{ states: ReviewState[]; bank: Map<string, BankQuestion> } | null>(null);
+
+  useEffect(() => {
+    Promise.all([getReviewStatesWithSync(uid), getQuestionBankWithSync(uid)]).then(([states, bank]) => {
+      const byId = new Map(bank.map(e => [e.id, e]));
+      // Questions removed from the bank can't be shown again
+      setData({ states: Object.values(states).filter(s => byId.has(s.id)), bank: byId });
+    });
+  }, [uid]);
+
+  if (data === null) return null;
+
+  if (data.states.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20 px-4">
+        <div className="w-24 h-24 rounded-3xl bg-secondary/80 flex items-center justify-center mb-8">
+          <CalendarClock className="w-12 h-12 text-muted-foreground" />
+        </div>
+        <h2 className="text-2xl font-bold text-foreground mb-3">Nothing to review yet</h2>
+        <p className="text-muted-foreground text-center max-w-md mb-8">
+          Questions you answer in Practice are scheduled here, with the ones you miss coming back soonest.
+        </p>
+      </div>
+    );
+  }
+
+  const now = new Date();
+  const due = dueToday(data.states, now);
+  const dueWithin = (days: number) => data.states.filter(s => new Date(s.due).getTime() <= now.getTime() + days * DAY_MS).length;
+  const next = [...data.states].sort((a, b) => a.due.localeCompare(b.due))[0];
+  const lapsed = data.states.filter(s => s.lapses > 0).length;
+
+  const handleStart = () => {
+    onStartQuiz({ ...quizFromBank(due.map(s => data.bank.get(s.id)!)), isReview: true });
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto py-8 px-4">
+      <div className="mb-6">
+        <h2 className="text-xl font-bold text-foreground">Review</h2>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 mb-6">
+        <div className="bg-card/50 border border-border/50 rounded-xl p-4 text-center">
+          <CalendarClock className="w-5 h-5 text-primary mx-auto mb-1" />
+          <div className="text-2xl font-bold text-foreground">{due.length}</div>
+          <div className="text-xs text-muted-foreground">Due Today</div>
+        </div>
+        <div className="bg-card/50 border border-border/50 rounded-xl p-4 text-center">
+          <RotateCcw className="w-5 h-5 text-red-500 mx-auto mb-1" />
+          <div className="text-2xl font-bold text-foreground">{lapsed}</div>
+          <div className="text-xs text-muted-foreground">Missed Before</div>
+        </div>
+        <div className="bg-card/50 border border-border/50 rounded-xl p-4 text-center">
+          <CheckCircle2 className="w-5 h-5 text-green-500 mx-auto mb-1" />
+          <div className="text-2xl font-bold text-foreground">{data.states.length}</div>
+          <div className="text-xs text-muted-foreground">Scheduled</div>
+        </div>
+      </div>
+
+      {due.length === 0 ? (
+        <div className="p-6 rounded-2xl bg-card/50 border border-border/50 text-center">
+          <p className="text-foreground font-medium mb-1">All caught up</p>
+          <p className="text-sm text-muted-foreground">
+            Next review in {formatInterval(next, now)} · {dueWithin(7)} due this week
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="flex items-center justify-between p-4 mb-4 rounded-xl bg-primary/5 border border-primary/40">
+            <p className="text-sm text-foreground">
+              {due.length} question{due.length === 1 ? "" : "s"} to review today
+              <span className="text-muted-foreground"> · {dueWithin(7)} this week</span>
+            </p>
+            <Button onClick={handleStart} className="rounded-xl bg-primary hover:bg-primary/90">
+              <Play className="w-4 h-4 mr-2" />
+              Start Review
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            {due.map(state => {
+              const entry = data.bank.get(state.id)!;
+              return (
+                <div key={state.id} className="p-3 rounded-xl bg-card/50 border border-border/50">
+                  <p className="text-sm text-foreground line-clamp-2">
+                    <MathText text={entry.question.question} />
+                  </p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    <span className="capitalize">{entry.question.type.replace("-", " ")}</span>
+                    {entry.question.topic && ` · ${entry.question.topic}`}
+                    {state.lapses > 0 && ` · missed ${state.lapses}×`}
+                    {state.interval > 0 && ` · last gap ${state.interval}d`}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+import { BookOpen, ExternalLink } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { QuestionSource } from "@/lib/sections";
+
+interface SourceReferenceProps {
+  source: QuestionSource;
+  /** Uploaded files — lets PDF references open at the cited page */
+  files?: File[];
+  className?: string;
+}
+
+export const SourceReference = ({ source, files = [], className }: SourceReferenceProps) => {
+  const pdf = source.kind === 'page' && source.number
+    ? files.find(f => f.name === source.file && f.name.toLowerCase().endsWith('.pdf'))
+    : undefined;
+
+  const openPdf = () => {
+    if (!pdf) return;
+    // Browser PDF viewers honour #page=N
+    const url = URL.createObjectURL(pdf);
+    window.open(`${url}#page=${source.number}`, '_blank', 'noopener');
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  };
+
+  return (
+    <div className={cn("text-xs text-muted-foreground space-y-1", className)}>
+      <div className="flex items-center gap-1.5 flex-wrap">
+        <BookOpen className="w-3.5 h-3.5 shrink-0" />
+        <span>Source: <span className="text-foreground">{source.label}</span></span>
+        {pdf && (
+          <button onClick={openPdf} className="inline-flex items-center gap-0.5 text-primary hover:underline">
+            Open page
+            <ExternalLink className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+      {source.excerpt && (
+        <blockquote className="border-l-2 border-primary/40 pl-2 italic">
+          “{source.excerpt}”
+        </blockquote>
+      )}
+    </div>
+  );
+};
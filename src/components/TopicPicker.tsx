@@ -0,0 +1,129 @@
+import { Check, ListTree, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import type { MaterialSection, SectionWeights } from "@/lib/sections";
+
+interface TopicPickerProps {
+  /** Outline of the material, or null until it has been read */
+  topics: MaterialSection[] | null;
+  weights: SectionWeights;
+  onWeightsChange: (weights: SectionWeights) => void;
+  onLoad: () => void;
+  loading?: boolean;
+  /** Why there's no outline, e.g. a scanned PDF */
+  notice?: string | null;
+  disabled?: boolean;
+}
+
+const LEVELS = [
+  { weight: 0.5, label: "Less" },
+  { weight: 1, label: "Normal" },
+  { weight: 2, label: "More" },
+];
+
+const wordsIn = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+// Labels end with the heading ("notes.pdf · Pages 3–5 · Cell structure"), which is shown on its own line
+const locationOf = (topic: MaterialSection) =>
+  topic.heading ? topic.label.slice(0, -topic.heading.length).replace(/ · $/, "") : "";
+
+// Optional step: tick the parts of the material to be quizzed on and how heavily
+export const TopicPicker = ({ topics, weights, onWeightsChange, onLoad, loading = false, notice, disabled = false }: TopicPickerProps) => {
+  if (!topics) {
+    return (
+      <div className="p-6 rounded-2xl bg-card/50 border border-border/50 space-y-3">
+        <p className="text-sm text-muted-foreground">
+          {notice || "Questions are spread across all of your material. Read its outline to pick topics, weight them, or skip the ones you already know."}
+        </p>
+        {!notice && (
+          <Button variant="outline" className="rounded-xl" onClick={onLoad} disabled={disabled || loading}>
+            {loading
+              ? <><Loader2 className="w-4 h-4 mr-2 animate-spin" />Reading outline...</>
+              : <><ListTree className="w-4 h-4 mr-2" />Choose topics</>}
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  const weightOf = (id: string) => weights[id] ?? 1;
+  const setWeight = (id: string, weight: number) => onWeightsChange({ ...weights, [id]: weight });
+  const selected = topics.filter(t => weightOf(t.id) > 0).length;
+
+  return (
+    <div className="p-6 rounded-2xl bg-card/50 border border-border/50 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-muted-foreground">{selected} of {topics.length} topics selected</span>
+        <div className="flex gap-1">
+          <button
+            onClick={() => onWeightsChange({})}
+            className="px-2 py-0.5 rounded-md text-xs font-medium bg-secondary text-muted-foreground hover:text-foreground"
+          >
+            All
+          </button>
+          <button
+            onClick={() => onWeightsChange(Object.fromEntries(topics.map(t => [t.id, 0])))}
+            className="px-2 py-0.5 rounded-md text-xs font-medium bg-secondary text-muted-foreground hover:text-foreground"
+          >
+            None
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-1.5 max-h-80 overflow-y-auto pr-1">
+        {topics.map(topic => {
+          const weight = weightOf(topic.id);
+          const included = weight > 0;
+          return (
+            <div
+              key={topic.id}
+              className={cn(
+                "flex items-center gap-3 p-2.5 rounded-lg border transition-colors",
+                included ? "bg-primary/5 border-primary/40" : "bg-card border-border/50"
+              )}
+            >
+              <button
+                onClick={() => setWeight(topic.id, included ? 0 : 1)}
+                aria-label={`${included ? "Exclude" : "Include"} ${topic.label}`}
+                className={cn(
+                  "flex items-center justify-center w-5 h-5 rounded border-2 flex-shrink-0 transition-colors",
+                  included ? "bg-primary border-primary" : "border-muted-foreground"
+                )}
+              >
+                {included && <Check className="w-3 h-3 text-primary-foreground" />}
+              </button>
+              <div className="flex-1 min-w-0">
+                <p className={cn("text-sm truncate", included ? "text-foreground" : "text-muted-foreground")}>
+                  {topic.heading || topic.label}
+                </p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {[locationOf(topic), `~${wordsIn(topic.text)} words`].filter(Boolean).join(" · ")}
+                </p>
+              </div>
+              {included && (
+                <div className="flex gap-1 shrink-0">
+                  {LEVELS.map(level => (
+                    <button
+                      key={level.label}
+                      onClick={() => setWeight(topic.id, level.weight)}
+                      className={cn(
+                        "px-2 py-0.5 rounded-md text-xs font-medium transition-all",
+                        weight === level.weight
+                          ? "bg-primary text-primary-foreground"
+                          : "bg-secondary text-muted-foreground hover:text-foreground"
+                      )}
+                    >
+                      {level.label}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {selected === 0 && <p className="text-xs text-red-500">Pick at least one topic.</p>}
+    </div>
+  );
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { scoreMatching, scoreOrdering, shuffledIndices } from './arrangement';
+
+describe('shuffledIndices', () => {
+  it('is a permutation that depends only on the seed', () => {
+    const order = shuffledIndices(6, 'q1');
+    expect([...order].sort()).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(shuffledIndices(6, 'q1')).toEqual(order);
+  });
+
+  it('never starts in the solved order', () => {
+    for (let i = 0; i < 200; i++) {
+      const order = shuffledIndices(2, `seed${i}`);
+      expect(order).toEqual([1, 0]);
+    }
+  });
+});
+
+describe('scoreMatching', () => {
+  it('gives credit per correct pair, counting unmatched ones as wrong', () => {
+    expect(scoreMatching(4, [0, 1, 3, 2])).toBe(0.5);
+    expect(scoreMatching(4, [0, null, null, null])).toBe(0.25);
+    expect(scoreMatching(0, [])).toBe(0);
+  });
+});
+
+describe('scoreOrdering', () => {
+  it('costs one misplaced step one step', () => {
+    expect(scoreOrdering([0, 1, 2, 3])).toBe(1);
+    expect(scoreOrdering([3, 0, 1, 2])).toBe(0.75);
+    expect(scoreOrdering([3, 2, 1, 0])).toBe(0.25);
+    expect(scoreOrdering([])).toBe(0);
+  });
+});
@@ -0,0 +1,58 @@
+// Helpers for matching and ordering questions: a stable shuffle for display
+// and partial-credit scoring of the student's arrangement.
+
+// Small string hash so the same question always shuffles the same way
+const hashSeed = (seed: string) => {
+  let h = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    h ^= seed.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+};
+
+/**
+ * Indices 0..n-1 in a shuffled order derived from `seed`. Never returns the
+ * identity order when n > 1, so an ordering question never starts solved.
+ */
+export const shuffledIndices = (n: number, seed: string): number[] => {
+  const indices = Array.from({ length: n }, (_, i) => i);
+  let state = hashSeed(seed) || 1;
+  const next = () => {
+    // xorshift32
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    return (state >>> 0) / 4294967296;
+  };
+
+  for (let i = n - 1; i > 0; i--) {
+    const j = Math.floor(next() * (i + 1));
+    [indices[i], indices[j]] = [indices[j], indices[i]];
+  }
+  if (n > 1 && indices.every((v, i) => v === i)) indices.push(indices.shift()!);
+  return indices;
+};
+
+/** arrangement[i] is the pair index of the right-hand item matched to left item i */
+export const scoreMatching = (pairCount: number, arrangement: (number | null)[]): number => {
+  if (pairCount === 0) return 0;
+  return arrangement.filter((right, left) => right === left).length / pairCount;
+};
+
+/**
+ * `order` lists step indices as the student arranged them. Credit is the
+ * longest run of steps already in the right relative order, so one misplaced
+ * step costs one step rather than every step after it.
+ */
+export const scoreOrdering = (order: number[]): number => {
+  if (order.length === 0) return 0;
+  const longest: number[] = [];
+  order.forEach((step, i) => {
+    longest[i] = 1;
+    for (let j = 0; j < i; j++) {
+      if (order[j] < step) longest[i] = Math.max(longest[i], longest[j] + 1);
+    }
+  });
+  return Math.max(...longest) / order.length;
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { clozeMarkers, isBlankCorrect, scoreCloze, splitCloze } from './cloze';
+
+describe('splitCloze', () => {
+  it('splits the passage into text and 0-based blanks', () => {
+    expect(splitCloze('Water is split in {{1}} to release {{ 2 }}.')).toEqual(['Water is split in ', 0, ' to release ', 1, '.']);
+    expect(splitCloze('{{1}} starts it')).toEqual([0, ' starts it']);
+  });
+
+  it('lists the markers in reading order', () => {
+    expect(clozeMarkers('{{2}} then {{1}}')).toEqual([2, 1]);
+    expect(clozeMarkers('no blanks')).toEqual([]);
+  });
+});
+
+describe('isBlankCorrect', () => {
+  const blank = { answers: ['chloroplast', 'plastid'] };
+
+  it('accepts any listed answer, ignoring case, punctuation and articles', () => {
+    expect(isBlankCorrect('Plastid', blank)).toBe(true);
+    expect(isBlankCorrect('the chloroplast.', blank)).toBe(true);
+  });
+
+  it('forgives one typo in longer answers only', () => {
+    expect(isBlankCorrect('chloroplst', blank)).toBe(true);
+    expect(isBlankCorrect('chlorplst', blank)).toBe(false);
+    expect(isBlankCorrect('ATB', { answers: ['ATP'] })).toBe(false);
+  });
+
+  it('rejects an empty blank', () => {
+    expect(isBlankCorrect('  ', blank)).toBe(false);
+  });
+});
+
+describe('scoreCloze', () => {
+  it('gives credit for the share of blanks filled correctly', () => {
+    const blanks = [{ answers: ['ATP'] }, { answers: ['NADPH'] }, { answers: ['oxygen'] }];
+    expect(scoreCloze(blanks, ['atp', 'NADH'])).toEqual({ correct: [true, false, false], credit: 1 / 3 });
+    expect(scoreCloze([], []).credit).toBe(0);
+  });
+});
@@ -0,0 +1,66 @@
+// Cloze passages: a paragraph with numbered blanks written as {{1}}, {{2}}, …
+// Shared with api/, which checks that the markers and blanks line up.
+
+import type { ClozeBlank } from '../types/questions.js';
+
+const MARKER = /\{\{\s*(\d+)\s*\}\}/g;
+
+/** The passage as text pieces and 0-based blank indices, in reading order */
+export function splitCloze(passage: string): (string | number)[] {
+  const parts: (string | number)[] = [];
+  let last = 0;
+  for (const match of passage.matchAll(MARKER)) {
+    if (match.index! > last) parts.push(passage.slice(last, match.index));
+    parts.push(Number(match[1]) - 1);
+    last = match.index! + match[0].length;
+  }
+  if (last < passage.length) parts.push(passage.slice(last));
+  return parts;
+}
+
+/** Blank numbers in the order they appear, e.g. [1, 2, 3] */
+export function clozeMarkers(passage: string): number[] {
+  return Array.from(passage.matchAll(MARKER)).map(m => Number(m[1]));
+}
+
+// Case, surrounding punctuation, a leading article and doubled spaces don't matter
+const normalize = (text: string) => text
+  .toLowerCase()
+  .replace(/[“”"'‘’.,;:!?()]/g, '')
+  .replace(/^(the|a|an)\s+/, '')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+// Levenshtein distance, stopping early once it's past `max`
+function withinEdits(a: string, b: string, max: number): boolean {
+  if (Math.abs(a.length - b.length) > max) return false;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    if (Math.min(...row) > max) return false;
+    prev = row;
+  }
+  return prev[b.length] <= max;
+}
+
+/**
+ * Whether a typed answer fills the blank: any accepted answer, ignoring case
+ * and punctuation. Answers of six letters or more also forgive one typo.
+ */
+export function isBlankCorrect(input: string, blank: ClozeBlank): boolean {
+  const given = normalize(input);
+  if (!given) return false;
+  return blank.answers.some(answer => {
+    const expected = normalize(answer);
+    return given === expected || (expected.length >= 6 && withinEdits(given, expected, 1));
+  });
+}
+
+/** Per-blank results and the share of blanks filled correctly, from 0 to 1 */
+export function scoreCloze(blanks: ClozeBlank[], inputs: string[]): { correct: boolean[]; credit: number } {
+  const correct = blanks.map((blank, i) => isBlankCorrect(inputs[i] ?? '', blank));
+  return { correct, credit: blanks.length ? correct.filter(Boolean).length / blanks.length : 0 };
+}
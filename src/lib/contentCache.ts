@@ -0,0 +1,123 @@
+// Cache of work that only depends on its input: text extracted from a file,
+// OCR'd page text, and generated question sets. Kept in IndexedDB because an
+// 80-page scan easily outgrows localStorage.
+//
+// Every call fails soft — without IndexedDB (private browsing, old browsers)
+// lookups miss and writes are skipped, so callers just do the work again.
+
+export type CacheKind = 'extraction' | 'pdf-pages' | 'questions';
+
+export interface CacheEntry<T = unknown> {
+  key: string;
+  kind: CacheKind;
+  /** What to show in the cache panel — usually a file name */
+  label: string;
+  /** Approximate size of value as JSON */
+  bytes: number;
+  cachedAt: string; // ISO date
+  value: T;
+}
+
+const DB_NAME = 'studywiz_cache';
+const STORE = 'entries';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let the next call try again rather than caching the failure
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+// Run one request in its own transaction
+async function run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Hex SHA-256 of file bytes or a string */
+export async function sha256(data: ArrayBuffer | string): Promise<string> {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export async function getCached<T>(key: string): Promise<T | null> {
+  try {
+    const entry = await run<CacheEntry<T> | undefined>('readonly', store => store.get(key));
+    return entry ? entry.value : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function putCached<T>(key: string, kind: CacheKind, label: string, value: T): Promise<void> {
+  try {
+    const entry: CacheEntry<T> = {
+      key, kind, label, value,
+      bytes: JSON.stringify(value).length,
+      cachedAt: new Date().toISOString(),
+    };
+    await run('readwrite', store => store.put(entry));
+  } catch (error) {
+    // Quota exceeded or no IndexedDB — the result just isn't cached
+    console.warn('Could not cache result:', error);
+  }
+}
+
+/** Every entry without its value, newest first — for the cache panel */
+export async function listCached(): Promise<Omit<CacheEntry, 'value'>[]> {
+  try {
+    const entries = await run<CacheEntry[]>('readonly', store => store.getAll());
+    return entries
+      .map(({ value: _value, ...meta }) => meta)
+      .sort((a, b) => b.cachedAt.localeCompare(a.cachedAt));
+  } catch {
+    return [];
+  }
+}
+
+export async function deleteCached(key: string): Promise<void> {
+  try {
+    await run('readwrite', store => store.delete(key));
+  } catch {
+    // Already gone
+  }
+}
+
+export async function clearCache(): Promise<void> {
+  try {
+    await run('readwrite', store => store.clear());
+  } catch {
+    // Nothing to clear
+  }
+}
+
+// --- Keys ---
+export const extractionKey = (fileHash: string) => `extraction:${fileHash}`;
+
+export const pdfPagesKey = (fileHash: string) => `pdf-pages:${fileHash}`;
+
+/**
+ * Question sets are keyed by the material and the settings that shape them.
+ * The dedup lists are left out: they change after every run, so including
+ * them would mean the same request never hits.
+ */
+export async function questionsKey(extractedText: string, config: Record<string, unknown>): Promise<string> {
+  const { previousTopics: _topics, previousQuestions: _questions, ...settings } = config;
+  return `questions:${await sha256(extractedText)}:${await sha256(JSON.stringify(settings))}`;
+}
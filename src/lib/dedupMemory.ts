@@ -0,0 +1,116 @@
+// What each document has already been asked about, so a new quiz from the same
+// notes goes looking for fresh material instead of repeating the last one.
+// Keyed by a SHA-256 of the uploaded files; kept in localStorage and, for
+// signed-in users, in Firestore so it follows them between devices.
+
+import { sha256 } from './contentCache';
+
+export interface DedupMemory {
+  docHash: string;
+  topics: string[];
+  /** Question text, oldest first, cut to 150 characters */
+  questions: string[];
+  updatedAt: string; // ISO date
+}
+
+const STORAGE_KEY = 'studywiz_dedup_memory';
+// Enough for several full quizzes on one document without filling storage
+const MAX_QUESTIONS = 300;
+const MAX_TOPICS = 200;
+const MAX_DOCUMENTS = 20;
+
+const emptyMemory = (docHash: string): DedupMemory => ({ docHash, topics: [], questions: [], updatedAt: '' });
+
+function loadAll(): Record<string, DedupMemory> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function saveLocal(memory: DedupMemory): void {
+  const all = { ...loadAll(), [memory.docHash]: memory };
+  // Forget the documents used least recently
+  const kept = Object.values(all)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .slice(0, MAX_DOCUMENTS);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(kept.map(m => [m.docHash, m]))));
+  } catch {
+    // Storage full — the next quiz just won't know about this one
+  }
+}
+
+const union = (older: string[], newer: string[], max: number) =>
+  Array.from(new Set([...older, ...newer])).slice(-max);
+
+function merge(a: DedupMemory, b: DedupMemory): DedupMemory {
+  const [older, newer] = a.updatedAt <= b.updatedAt ? [a, b] : [b, a];
+  return {
+    docHash: a.docHash,
+    topics: union(older.topics, newer.topics, MAX_TOPICS),
+    questions: union(older.questions, newer.questions, MAX_QUESTIONS),
+    updatedAt: newer.updatedAt,
+  };
+}
+
+/** One hash for the set of files a quiz is generated from */
+export async function documentHash(files: File[]): Promise<string> {
+  const hashes = await Promise.all(files.map(async file => sha256(await file.arrayBuffer())));
+  return hashes.length === 1 ? hashes[0] : sha256(hashes.join(':'));
+}
+
+export function getDedupMemory(docHash: string): DedupMemory {
+  return loadAll()[docHash] ?? emptyMemory(docHash);
+}
+
+/** Add a finished quiz's questions to the document's memory */
+export function rememberQuestions(docHash: string, questions: { question: string; topic?: string }[]): DedupMemory {
+  const memory = getDedupMemory(docHash);
+  const updated: DedupMemory = {
+    docHash,
+    topics: union(memory.topics, questions.map(q => q.topic).filter((t): t is string => !!t), MAX_TOPICS),
+    questions: union(memory.questions, questions.map(q => q.question.slice(0, 150)), MAX_QUESTIONS),
+    updatedAt: new Date().toISOString(),
+  };
+  saveLocal(updated);
+  return updated;
+}
+
+// ── Firestore-synced wrappers ──
+
+import { saveDedupMemoryToFirestore, getDedupMemoryFromFirestore } from './firestoreService';
+
+export async function getDedupMemoryWithSync(docHash: string, uid: string | null): Promise<DedupMemory> {
+  const local = getDedupMemory(docHash);
+  if (!uid) return local;
+  try {
+    const remote = await getDedupMemoryFromFirestore(uid, docHash);
+    return remote ? merge(local, remote) : local;
+  } catch (err) {
+    console.error('Failed to fetch dedup memory from Firestore, using local:', err);
+    return local;
+  }
+}
+
+export async function rememberQuestionsWithSync(
+  docHash: string,
+  questions: { question: string; topic?: string }[],
+  uid: string | null
+): Promise<DedupMemory> {
+  const updated = rememberQuestions(docHash, questions);
+  if (uid) {
+    try {
+      // Start from whatever other devices added, so their questions aren't overwritten
+      const remote = await getDedupMemoryFromFirestore(uid, docHash);
+      const merged = remote ? merge(remote, updated) : updated;
+      saveLocal(merged);
+      await saveDedupMemoryToFirestore(uid, merged);
+      return merged;
+    } catch (err) {
+      console.error('Failed to sync dedup memory to Firestore:', err);
+    }
+  }
+  return updated;
+}
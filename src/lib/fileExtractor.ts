@@ -3,6 +3,7 @@ import mammoth from 'mammoth';
 import JSZip from 'jszip';
 import Tesseract, { createWorker, Worker } from 'tesseract.js';
 import * as CFB from 'cfb';
+import { sha256, getCached, putCached, extractionKey } from './contentCache';
 
 // For pdfjs-dist v5.x, we need to import the worker directly
 // This tells Vite to bundle the worker properly
@@ -70,8 +71,11 @@ function detectMathContent(text: string): boolean {
   return mathPatterns.some(pattern => pattern.test(text));
 }
 
+// Structural markers added during extraction aren't content words
+const STRUCTURE_MARKERS = /^\[(Page|Slide|Notes) \d+\]$|^#{1,4}(?=\s)/gm;
+
 function countWords(text: string): number {
-  return text.trim().split(/\s+/).filter(word => word.length > 0).length;
+  return text.replace(STRUCTURE_MARKERS, ' ').trim().split(/\s+/).filter(word => word.length > 0).length;
 }
 
 // Convert PDF page to image for OCR
@@ -141,7 +145,7 @@ async function performOCR(imageDataUrl: string, retries: number = 1): Promise<st
 }
 
 // Extract text from PDF with OCR fallback for scanned documents
-async function extractFromPDF(file: File, onProgress?: OCRProgressCallback): Promise<string> {
+async function extractFromPDF(file: File, onProgress?: OCRProgressCallback, signal?: AbortSignal): Promise<string> {
   const arrayBuffer = await file.arrayBuffer();
 
   try {
@@ -159,7 +163,10 @@ async function extractFromPDF(file: File, onProgress?: OCRProgressCallback): Pro
       const pageText = textContent.items
         .map((item: any) => item.str)
         .join(' ');
-      fullText += pageText + '\n\n';
+      // Page markers let question generation cite and spread across pages
+      if (pageText.trim()) {
+        fullText += `[Page ${pageNum}]\n${pageText}\n\n`;
+      }
     }
 
     const trimmedText = fullText.trim();
@@ -182,6 +189,7 @@ async function extractFromPDF(file: File, onProgress?: OCRProgressCallback): Pro
       // Process pages in batches of 2 for parallel processing (memory-safe)
       const batchSize = 2;
       for (let i = 1; i <= pdf.numPages; i += batchSize) {
+        signal?.throwIfAborted();
         const batch = [];
         for (let j = i; j < i + batchSize && j <= pdf.numPages; j++) {
           batch.push(j);
@@ -247,11 +255,29 @@ async function extractFromPDF(file: File, onProgress?: OCRProgressCallback): Pro
   }
 }
 
-// Extract text from DOCX
+// Extract text from DOCX, keeping Word headings as "# Heading" lines
 async function extractFromDOCX(file: File): Promise<string> {
   const arrayBuffer = await file.arrayBuffer();
-  const result = await mammoth.extractRawText({ arrayBuffer });
-  return result.value;
+  const result = await mammoth.convertToHtml({ arrayBuffer });
+  const doc = new DOMParser().parseFromString(result.value, 'text/html');
+
+  const lines: string[] = [];
+  for (const el of Array.from(doc.body.children)) {
+    const heading = el.tagName.match(/^H([1-6])$/);
+    if (heading) {
+      lines.push(`\n${'#'.repeat(Math.min(Number(heading[1]), 4))} ${el.textContent?.trim()}`);
+    } else if (el.tagName === 'UL' || el.tagName === 'OL') {
+      el.querySelectorAll('li').forEach(li => lines.push(`- ${li.textContent?.trim()}`));
+    } else if (el.tagName === 'TABLE') {
+      el.querySelectorAll('tr').forEach(tr => {
+        lines.push(Array.from(tr.children).map(td => td.textContent?.trim()).join(' | '));
+      });
+    } else if (el.textContent?.trim()) {
+      lines.push(el.textContent.trim());
+    }
+  }
+
+  return lines.join('\n').trim();
 }
 
 // Extract text from TXT
@@ -456,18 +482,27 @@ async function extractFromPPTX(file: File): Promise<string> {
   }
 }
 
-// Main extraction function
+// Main extraction function — results are cached by the file's SHA-256, so
+// the same file under any name skips pdf.js and OCR the second time
 export async function extractFileContent(
   file: File,
-  onProgress?: OCRProgressCallback
+  onProgress?: OCRProgressCallback,
+  signal?: AbortSignal
 ): Promise<ExtractedContent> {
   const extension = file.name.split('.').pop()?.toLowerCase() || '';
   let text = '';
 
+  const cacheKey = extractionKey(await sha256(await file.arrayBuffer()));
+  const cached = await getCached<ExtractedContent>(cacheKey);
+  if (cached) {
+    onProgress?.(100, 'Loaded from cache');
+    return { ...cached, filename: file.name };
+  }
+
   try {
     switch (extension) {
       case 'pdf':
-        text = await extractFromPDF(file, onProgress);
+        text = await extractFromPDF(file, onProgress, signal);
         break;
       case 'docx':
       case 'doc':
@@ -486,22 +521,26 @@ export async function extractFileContent(
         throw new Error(`Unsupported file format: ${extension}`);
     }
   } catch (error) {
+    if (signal?.aborted) throw error;
     console.error(`Error extracting content from ${file.name}:`, error);
     throw new Error(`Failed to extract content from ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
   }
 
-  return {
+  const result: ExtractedContent = {
     text,
     filename: file.name,
     wordCount: countWords(text),
     hasMathContent: detectMathContent(text),
   };
+  if (text.trim()) await putCached(cacheKey, 'extraction', file.name, result);
+  return result;
 }
 
 // Extract content from multiple files
 export async function extractAllFilesContent(
   files: File[],
-  onProgress?: OCRProgressCallback
+  onProgress?: OCRProgressCallback,
+  signal?: AbortSignal
 ): Promise<{
   combinedText: string;
   fileDetails: ExtractedContent[];
@@ -511,12 +550,13 @@ export async function extractAllFilesContent(
   const results: ExtractedContent[] = [];
 
   for (let i = 0; i < files.length; i++) {
+    signal?.throwIfAborted();
     const file = files[i];
     const fileProgress = (progress: number, message: string) => {
       const overallProgress = (i / files.length) * 100 + (progress / files.length);
       onProgress?.(overallProgress, `${file.name}: ${message}`);
     };
-    const result = await extractFileContent(file, fileProgress);
+    const result = await extractFileContent(file, fileProgress, signal);
     results.push(result);
   }
 
@@ -9,9 +9,13 @@ import {
   orderBy,
   serverTimestamp,
   writeBatch,
+  increment,
 } from 'firebase/firestore';
 import { db } from './firebase';
 import type { QuizHistoryEntry } from './quizHistory';
+import type { DedupMemory } from './dedupMemory';
+import type { BankQuestion } from './questionBank';
+import type { ReviewState } from './spacedRepetition';
 
 function getDb() {
   if (!db) throw new Error('Firestore is not configured');
@@ -150,3 +154,93 @@ export async function getFileMetadata(uid: string): Promise<FileMetadataEntry[]>
   const snap = await getDocs(q);
   return snap.docs.map(d => d.data() as FileMetadataEntry);
 }
+
+// ── Dedup Memory ──
+
+export async function saveDedupMemoryToFirestore(uid: string, memory: DedupMemory): Promise<void> {
+  await setDoc(doc(getDb(), 'users', uid, 'dedupMemory', memory.docHash), {
+    ...memory,
+    savedAt: serverTimestamp(),
+  });
+}
+
+export async function getDedupMemoryFromFirestore(uid: string, docHash: string): Promise<DedupMemory | null> {
+  const snap = await getDoc(doc(getDb(), 'users', uid, 'dedupMemory', docHash));
+  return snap.exists() ? (snap.data() as DedupMemory) : null;
+}
+
+// ── Question Bank ──
+
+// Firestore allows 500 writes per batch
+const BATCH_LIMIT = 450;
+
+/**
+ * Write questions without their tags and stats, merging into any existing
+ * document — another device may have tagged or answered them since.
+ */
+export async function saveBankQuestionsToFirestore(uid: string, entries: BankQuestion[]): Promise<void> {
+  for (let i = 0; i < entries.length; i += BATCH_LIMIT) {
+    const batch = writeBatch(getDb());
+    entries.slice(i, i + BATCH_LIMIT).forEach(({ tags: _tags, stats: _stats, ...entry }) => {
+      const ref = doc(getDb(), 'users', uid, 'questionBank', entry.id);
+      // Firestore rejects undefined fields, which optional question fields often are
+      batch.set(ref, { ...JSON.parse(JSON.stringify(entry)), savedAt: serverTimestamp() }, { merge: true });
+    });
+    await batch.commit();
+  }
+}
+
+export async function getQuestionBankFromFirestore(uid: string): Promise<BankQuestion[]> {
+  const q = query(
+    collection(getDb(), 'users', uid, 'questionBank'),
+    orderBy('addedAt', 'desc')
+  );
+  const snap = await getDocs(q);
+  return snap.docs
+    .map(d => d.data())
+    // Stats can reach Firestore before the question itself if it was saved while offline
+    .filter(data => data.question)
+    .map(data => ({ ...data, tags: data.tags ?? [], stats: { attempts: 0, correct: 0, ...data.stats } }) as BankQuestion);
+}
+
+export async function recordBankAttemptsInFirestore(uid: string, results: { id: string; credit: number }[]): Promise<void> {
+  const lastAttemptAt = new Date().toISOString();
+  for (let i = 0; i < results.length; i += BATCH_LIMIT) {
+    const batch = writeBatch(getDb());
+    results.slice(i, i + BATCH_LIMIT).forEach(({ id, credit }) => {
+      batch.set(doc(getDb(), 'users', uid, 'questionBank', id), {
+        stats: { attempts: increment(1), correct: increment(credit), lastAttemptAt },
+      }, { merge: true });
+    });
+    await batch.commit();
+  }
+}
+
+export async function updateBankTagsInFirestore(uid: string, id: string, tags: string[]): Promise<void> {
+  await setDoc(doc(getDb(), 'users', uid, 'questionBank', id), { tags }, { merge: true });
+}
+
+export async function deleteBankQuestionFromFirestore(uid: string, id: string): Promise<void> {
+  await deleteDoc(doc(getDb(), 'users', uid, 'questionBank', id));
+}
+
+// ── Review State ──
+
+export async function saveReviewStateToFirestore(uid: string, state: ReviewState): Promise<void> {
+  await setDoc(doc(getDb(), 'users', uid, 'reviewState', state.id), {
+    ...state,
+    savedAt: serverTimestamp(),
+  });
+}
+
+export async function getReviewStatesFromFirestore(uid: string): Promise<ReviewState[]> {
+  const snap = await getDocs(collection(getDb(), 'users', uid, 'reviewState'));
+  return snap.docs.map(d => {
+    const { savedAt: _savedAt, ...state } = d.data();
+    return state as ReviewState;
+  });
+}
+
+export async function deleteReviewStateFromFirestore(uid: string, id: string): Promise<void> {
+  await deleteDoc(doc(getDb(), 'users', uid, 'reviewState', id));
+}
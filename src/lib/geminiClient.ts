@@ -1,20 +1,34 @@
-// Fallback chain: if one model is rate-limited, try the next
-// Updated Feb 2026 — only models verified available on OpenRouter
-const MODELS = [
-  'openrouter/free',                                    // Smart router — auto-picks best available free model
-  'meta-llama/llama-3.3-70b-instruct:free',             // Llama 3.3 70B
-  'mistralai/mistral-small-3.1-24b-instruct:free',      // Mistral Small 3.1 24B
-  'google/gemma-3-27b-it:free',                         // Gemma 3 27B
-  'nousresearch/hermes-3-llama-3.1-405b:free',          // Hermes 3 405B
-  'qwen/qwen3-next-80b-a3b-instruct:free',              // Qwen3 80B
-];
+// Client for the /api/generate-questions and /api/grade-essay endpoints.
+// The OpenRouter key never leaves the server — prompts, model fallback and
+// retries all happen in api/generate-questions.ts.
+
+import { type MaterialSection, type QuestionSource, type SectionCoverage, type SectionWeights, planMaterial, mergeCoverage, splitIntoSections } from './sections';
+import { type GenerationProgress, progressKey, loadProgress, saveProgress, clearProgress } from './generationProgress';
+import { createNearDuplicateFilter } from './nearDuplicate';
+import type { NumericKey } from './numericAnswer';
+import type { MathTemplate } from './mathTemplate';
+import type { ClozeBlank, EssayGrade, MatchingPair, QuestionCategory, QuestionGenerationConfig, RubricCriterion } from '../types/questions';
 
 interface GenerateConfig {
   questionTypes: string[];
   questionCount: number;
+  /** Questions wanted per type — the server scales them to questionCount */
+  typeCounts?: Record<string, number>;
   difficulty: string;
   previousTopics?: string[];
   previousQuestions?: string[];
+  /** Have a second model answer each question blind and flag disagreements */
+  verifyAnswers?: boolean;
+  /** Server falls back to defaultGenerationConfig when these are omitted */
+  categoryWeights?: QuestionGenerationConfig['categoryWeights'];
+  avoidSimpleRecall?: boolean;
+  includeHints?: boolean;
+  /** Run only this batch of the server's plan — set by generateQuestionsInBatches */
+  batch?: number;
+  /** Topic weights by section id from the topic picker — 0 leaves a section out */
+  sectionWeights?: SectionWeights;
+  /** Let numeric questions come back as templates — set when the material has formulas */
+  mathTemplates?: boolean;
 }
 
 export interface Question {
@@ -22,324 +36,372 @@ export interface Question {
   type: string;
   question: string;
   options: string[];
-  correctAnswer: number | string;
+  correctAnswer: number | string | number[];
   explanation?: string;
   topic?: string;
+  /** Id of the material section the question was written from */
+  section?: string;
+  /** File and page/slide the question was drawn from, with a supporting excerpt */
+  source?: QuestionSource;
+  /** Answer-key check result — 'disputed' means a second model answered differently */
+  verified?: VerificationStatus;
+  verificationNote?: string;
+  /** Lecturer-style category the question was written for */
+  category?: QuestionCategory;
+  /** Essay scoring guide — correctAnswer holds the model answer */
+  rubric?: RubricCriterion[];
+  /** Up to three hints, each giving away more than the last */
+  hints?: string[];
+  /** Matching: left[i] belongs with right[i] */
+  pairs?: MatchingPair[];
+  /** Ordering: steps in their correct sequence */
+  steps?: string[];
+  /** Cloze: accepted answers for each {{n}} marker in the question text */
+  blanks?: ClozeBlank[];
+  /** Numeric: value, tolerance and unit the answer is graded against */
+  numeric?: NumericKey;
+  /** Numeric: variables redrawn on every attempt — numeric.value is recomputed from the formula */
+  template?: MathTemplate;
 }
 
-// --- Text condensing ---
-function condenseText(text: string, maxChars: number): string {
-  let cleaned = text
-    .replace(/\n{3,}/g, '\n\n')
-    .replace(/[ \t]{2,}/g, ' ')
-    .replace(/^[ \t]+/gm, '')
-    .trim();
-
-  if (cleaned.length <= maxChars) return cleaned;
-
-  const third = Math.floor(maxChars / 3);
-  const start = cleaned.slice(0, third);
-  const midPoint = Math.floor(cleaned.length / 2);
-  const middle = cleaned.slice(midPoint - Math.floor(third / 2), midPoint + Math.floor(third / 2));
-  const end = cleaned.slice(-third);
+export type VerificationStatus = 'verified' | 'disputed' | 'ambiguous' | 'unchecked';
 
-  return `${start}\n\n[...]\n\n${middle}\n\n[...]\n\n${end}`;
+export interface DroppedQuestion {
+  question: string;
+  reason: string;
 }
 
-// --- Prompt builders ---
-function buildSystemPrompt(questionCount: number, questionTypes: string[], difficulty: string): string {
-  const typeDistribution = questionTypes.map(type => {
-    const count = Math.ceil(questionCount / questionTypes.length);
-    return `- ${type}: approximately ${count} questions`;
-  }).join('\n');
-
-  return `You are an expert exam creator. Output ONLY valid JSON — no markdown, no backticks, no extra text.
-
-RULES:
-1. Create exactly ${questionCount} questions. Each MUST test a DIFFERENT concept.
-2. Question types:\n${typeDistribution}
-3. Difficulty: ${difficulty}
-4. For multiple-choice: use 4 options (without letter prefixes) and vary correct answer positions.
-5. Keep explanations brief (1 sentence).
-
-JSON FORMAT:
-{"questions":[{"id":"q1","type":"multiple-choice","question":"...","options":["option text","option text","option text","option text"],"correctAnswer":0,"explanation":"...","topic":"..."}]}
-
-Types: "multiple-choice" | "true-false" | "fill-blank" | "short-answer"
-correctAnswer: number (0-based index) for MC/TF, string for fill-blank/short-answer.`;
+/** What the server reports alongside the questions */
+export interface GenerationMetadata {
+  generatedCount: number;
+  model: string;
+  /** Items that failed schema validation even after a correction re-ask */
+  dropped: { count: number; reasons: DroppedQuestion[] };
+  /** Questions planned versus produced for each section of the material */
+  coverage?: SectionCoverage[];
+  /** Answer-key check totals, present when verification was requested */
+  verification?: { model: string; verified: number; disputed: number; ambiguous: number; unchecked: number };
 }
 
-function buildUserPrompt(content: string, questionCount: number, previousQuestions?: string[]): string {
-  const avoidSection = previousQuestions?.length
-    ? `\nDO NOT repeat these questions:\n${previousQuestions.slice(-30).join('\n')}\n`
-    : '';
-
-  return `STUDY MATERIAL:\n"""\n${content}\n"""\n${avoidSection}
-Generate ${questionCount} unique questions from the material above. Each must test a different concept.`;
+/** Tally answer-key results across questions from several generation calls */
+export function summarizeVerification(questions: Question[], model: string): NonNullable<GenerationMetadata['verification']> {
+  const count = (status: VerificationStatus) => questions.filter(q => q.verified === status).length;
+  return {
+    model,
+    verified: count('verified'),
+    disputed: count('disputed'),
+    ambiguous: count('ambiguous'),
+    unchecked: count('unchecked'),
+  };
 }
 
-// --- JSON repair ---
-function tryRepairJSON(jsonString: string): any {
-  try { return JSON.parse(jsonString); } catch {}
-
-  let repaired = jsonString.trim();
-  repaired = repaired.replace(/^```(?:json)?\s*/i, '').replace(/\s*```\s*$/i, '');
-  try { return JSON.parse(repaired); } catch {}
-
-  const fenceMatch = jsonString.match(/```(?:json)?\s*([\s\S]*?)\s*```/i);
-  if (fenceMatch) { try { return JSON.parse(fenceMatch[1]); } catch {} }
+export interface GenerationResult {
+  questions: Question[];
+  metadata?: GenerationMetadata;
+}
 
-  const qStart = repaired.indexOf('{"questions"');
-  if (qStart >= 0) repaired = repaired.substring(qStart);
-  else {
-    const braceStart = repaired.indexOf('{');
-    if (braceStart >= 0) repaired = repaired.substring(braceStart);
+// --- Main generation function ---
+export async function generateQuestionsWithGemini(
+  extractedText: string,
+  config: GenerateConfig,
+  onProgress?: (msg: string) => void,
+  signal?: AbortSignal
+): Promise<GenerationResult> {
+  if (extractedText.length < 100) {
+    throw new Error('Not enough content to generate questions. Please upload more material.');
   }
 
-  const lastBrace = repaired.lastIndexOf('}');
-  if (lastBrace >= 0 && lastBrace < repaired.length - 1) {
-    repaired = repaired.substring(0, lastBrace + 1);
-  }
+  onProgress?.('Generating questions...');
 
-  try { return JSON.parse(repaired); } catch {}
+  const response = await fetch('/api/generate-questions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ extractedText, config }),
+    signal,
+  });
 
-  const lastComplete = repaired.lastIndexOf('},');
-  if (lastComplete > 0) {
-    try { return JSON.parse(repaired.substring(0, lastComplete + 1) + ']}'); } catch {}
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Question generation failed (${response.status}). Please try again.`);
   }
 
-  let braces = 0, brackets = 0, inStr = false, esc = false;
-  for (const c of repaired) {
-    if (esc) { esc = false; continue; }
-    if (c === '\\') { esc = true; continue; }
-    if (c === '"') { inStr = !inStr; continue; }
-    if (inStr) continue;
-    if (c === '{') braces++; if (c === '}') braces--;
-    if (c === '[') brackets++; if (c === ']') brackets--;
-  }
-  if (inStr) repaired += '"';
-  while (brackets > 0) { repaired += ']'; brackets--; }
-  while (braces > 0) { repaired += '}'; braces--; }
+  onProgress?.('Processing questions...');
 
-  try { return JSON.parse(repaired); } catch {
-    console.error('JSON repair failed:', repaired.substring(0, 500));
-    throw new Error('Failed to parse AI response. Please try again.');
+  if (!Array.isArray(data.questions) || data.questions.length === 0) {
+    throw new Error('No questions were generated. Please try again.');
   }
+  return { questions: data.questions, metadata: data.metadata };
 }
 
-// --- Deduplication ---
-function normalizeQ(text: string): string {
-  return text.toLowerCase().replace(/[^a-z0-9\s]/g, '').replace(/\s+/g, ' ').trim();
-}
-function getKeyWords(text: string): string[] {
-  const stop = new Set(['the','is','are','was','were','what','which','how','does','did','can','will','would','should','could','has','have','had','been','being','this','that','these','those','with','from','for','and','but','not','you','your','its','about','into','over','after','before','between','following','true','false']);
-  return normalizeQ(text).split(' ').filter(w => w.length > 2 && !stop.has(w));
-}
-function isTooSimilar(a: string, b: string): boolean {
-  const w1 = getKeyWords(a), w2 = getKeyWords(b);
-  if (!w1.length || !w2.length) return false;
-  const s2 = new Set(w2);
-  return (w1.filter(w => s2.has(w)).length / Math.max(w1.length, w2.length)) >= 0.7;
-}
+// --- Streaming generation ---
+/** One NDJSON line from /api/generate-questions-stream */
+type StreamEvent =
+  | { type: 'question'; question?: Question }
+  | { type: 'status'; message?: string }
+  | { type: 'done'; metadata?: GenerationMetadata }
+  | { type: 'error'; error?: string };
+
+const STREAM_EVENT_TYPES: StreamEvent['type'][] = ['question', 'status', 'done', 'error'];
+
+const isStreamEvent = (value: unknown): value is StreamEvent =>
+  typeof value === 'object' && value !== null &&
+  STREAM_EVENT_TYPES.includes((value as { type?: unknown }).type as StreamEvent['type']);
+
+/**
+ * Same as generateQuestionsWithGemini, but reads the NDJSON stream from
+ * /api/generate-questions-stream and hands each question to onQuestion the
+ * moment the server has parsed it. Resolves with every question received
+ * plus the server's final metadata.
+ *
+ * If the stream fails after some questions have arrived, those questions are
+ * returned instead of throwing — a partial quiz beats no quiz. The same goes
+ * for aborting the signal.
+ */
+export async function generateQuestionsStream(
+  extractedText: string,
+  config: GenerateConfig,
+  onQuestion: (question: Question) => void,
+  onProgress?: (msg: string) => void,
+  signal?: AbortSignal
+): Promise<GenerationResult> {
+  if (extractedText.length < 100) {
+    throw new Error('Not enough content to generate questions. Please upload more material.');
+  }
 
-// --- Fetch API key from server ---
-let cachedApiKey: string | null = null;
+  onProgress?.('Generating questions...');
 
-async function getApiKey(): Promise<string> {
-  if (cachedApiKey) return cachedApiKey;
+  const response = await fetch('/api/generate-questions-stream', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ extractedText, config }),
+    signal,
+  });
 
-  const response = await fetch('/api/get-key');
-  if (!response.ok) {
-    throw new Error('Could not retrieve API key. Make sure OPENROUTER_API_KEY is set in Vercel environment variables.');
-  }
-  const data = await response.json();
-  if (!data.key) {
-    throw new Error('API key not configured on the server.');
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `Question generation failed (${response.status}). Please try again.`);
   }
-  cachedApiKey = data.key;
-  return cachedApiKey;
-}
-
-// --- Call OpenRouter with automatic retry + model fallback ---
-async function callWithRetry(
-  apiKey: string,
-  messages: any[],
-  onStatus?: (msg: string) => void
-): Promise<string> {
-  const MAX_RETRIES = 3;
-  const BACKOFF = [5000, 10000, 20000]; // 5s, 10s, 20s
-
-  for (let modelIdx = 0; modelIdx < MODELS.length; modelIdx++) {
-    const model = MODELS[modelIdx];
 
-    for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
-      try {
-        if (attempt > 0 || modelIdx > 0) {
-          const waitMs = BACKOFF[Math.min(attempt, BACKOFF.length - 1)];
-          const label = modelIdx > 0 ? `Trying model ${modelIdx + 1}/${MODELS.length}` : `Retry ${attempt + 1}`;
-          onStatus?.(`${label}, waiting ${waitMs / 1000}s...`);
-          console.log(`${label} (${model}), waiting ${waitMs / 1000}s...`);
-          await new Promise(r => setTimeout(r, waitMs));
-        }
-
-        const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${apiKey}`,
-            'Content-Type': 'application/json',
-            'HTTP-Referer': window.location.origin,
-            'X-Title': 'StudyWiz'
-          },
-          body: JSON.stringify({
-            model,
-            messages,
-            temperature: 0.7,
-            max_tokens: 8192,
-            response_format: { type: 'json_object' },
-          })
-        });
-
-        if (response.status === 429) {
-          console.log(`Rate limited on ${model} (attempt ${attempt + 1})`);
-          // If last retry on this model, break to try next model
-          if (attempt === MAX_RETRIES - 1) break;
-          continue;
-        }
-
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          const msg = errorData.error?.message || response.statusText;
-          // Model not found or unavailable — skip to next model
-          if (response.status === 404 || msg.includes('No endpoints')) break;
-          throw new Error(`API error (${response.status}): ${msg}`);
-        }
-
-        const completion = await response.json();
-        if (completion.error) {
-          if (completion.error.message?.includes('rate') || completion.error.code === 429) {
-            if (attempt === MAX_RETRIES - 1) break;
-            continue;
-          }
-          throw new Error(completion.error.message || 'API returned an error');
-        }
-
-        const content = completion.choices?.[0]?.message?.content;
-        if (!content) {
-          console.log(`Empty response from ${model}, retrying...`);
-          continue;
-        }
-
-        console.log(`Success with ${completion.model || model} (${content.length} chars)`);
-        onStatus?.('Processing questions...');
-        return content;
-
-      } catch (error: any) {
-        // Non-retryable errors
-        if (!error.message?.includes('rate') && !error.message?.includes('429') && !error.message?.includes('empty')) {
-          throw error;
-        }
-        console.log(`Error on ${model} attempt ${attempt + 1}: ${error.message}`);
+  const questions: Question[] = [];
+  let metadata: GenerationMetadata | undefined;
+  let streamError: string | null = null;
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+    let event: unknown;
+    try { event = JSON.parse(line); } catch { return; }
+    if (!isStreamEvent(event)) return;
+
+    if (event.type === 'question') {
+      if (!event.question || typeof event.question.question !== 'string') return;
+      questions.push(event.question);
+      onQuestion(event.question);
+      onProgress?.(`Generating questions · ${questions.length} ready...`);
+    } else if (event.type === 'status') {
+      if (typeof event.message === 'string' && event.message) onProgress?.(event.message);
+    } else if (event.type === 'done') {
+      metadata = event.metadata;
+    } else {
+      streamError = (typeof event.error === 'string' && event.error) || 'Question generation failed. Please try again.';
+    }
+  };
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) >= 0) {
+        handleLine(buffer.slice(0, newline));
+        buffer = buffer.slice(newline + 1);
       }
     }
+    handleLine(buffer);
+  } catch (err) {
+    const aborted = signal?.aborted || (err instanceof DOMException && err.name === 'AbortError');
+    streamError = aborted ? 'Generation cancelled.' : (err instanceof Error && err.message) || 'Connection lost while generating questions.';
   }
 
-  throw new Error('All models are currently busy. Please wait 30 seconds and try again.');
+  if (questions.length === 0) {
+    throw new Error(streamError || 'No questions were generated. Please try again.');
+  }
+  if (streamError) {
+    console.warn(`Generation stopped early after ${questions.length} questions:`, streamError);
+  }
+  return { questions, metadata };
 }
 
-// --- Main generation function ---
-export async function generateQuestionsWithGemini(
+// --- Parallel batches ---
+// Batches in flight at once — more mostly just trips the free models' rate limits
+const MAX_PARALLEL_BATCHES = 3;
+
+export interface BatchedGenerationResult extends GenerationResult {
+  totalBatches: number;
+  /** Batches not generated — saved progress lets the next identical run finish them */
+  remainingBatches: number;
+  /** Questions restored from an earlier run that stopped part-way */
+  resumedCount: number;
+  /** Why the last failed batch failed, when any did */
+  error?: string;
+}
+
+/**
+ * Generate a large quiz as separate section-scoped batches, a few at a time,
+ * each streamed from /api/generate-questions-stream. Progress is saved after
+ * every batch: if some fail (usually a rate limit) the questions so far are
+ * returned, and calling again with the same material and config skips the
+ * batches already done. Aborting the signal stops it the same way.
+ */
+export async function generateQuestionsInBatches(
   extractedText: string,
-  _apiKey: string,
   config: GenerateConfig,
-  onProgress?: (msg: string) => void
-): Promise<Question[]> {
+  onQuestion: (question: Question) => void,
+  onProgress?: (msg: string) => void,
+  signal?: AbortSignal
+): Promise<BatchedGenerationResult> {
   if (extractedText.length < 100) {
     throw new Error('Not enough content to generate questions. Please upload more material.');
   }
 
-  const apiKey = await getApiKey();
-  const totalQuestions = config.questionCount;
-
-  const maxTextChars = Math.min(12000, 3000 + totalQuestions * 200);
-  const condensedText = condenseText(extractedText, maxTextChars);
-  console.log(`Text: ${extractedText.length} -> ${condensedText.length} chars`);
-
-  const MAX_PER_CALL = 50;
-  const numBatches = Math.ceil(totalQuestions / MAX_PER_CALL);
-  const allQuestions: any[] = [];
-
-  for (let batch = 0; batch < numBatches; batch++) {
-    const batchCount = batch === numBatches - 1
-      ? totalQuestions - (batch * MAX_PER_CALL)
-      : MAX_PER_CALL;
-
-    if (batchCount <= 0) continue;
-    if (batch > 0) await new Promise(r => setTimeout(r, 2000));
-
-    const previousQs = allQuestions.map((q: any) => q.question).filter(Boolean);
-
-    onProgress?.(`Generating questions${numBatches > 1 ? ` (batch ${batch + 1}/${numBatches})` : ''}...`);
-
-    const messages = [
-      { role: 'system', content: buildSystemPrompt(batchCount, config.questionTypes, config.difficulty) },
-      { role: 'user', content: buildUserPrompt(
-        condensedText,
-        batchCount,
-        [...(config.previousQuestions || []), ...previousQs]
-      )}
-    ];
-
-    const content = await callWithRetry(apiKey, messages, onProgress);
-
-    const parsed = tryRepairJSON(content);
-    if (parsed.questions && Array.isArray(parsed.questions)) {
-      allQuestions.push(...parsed.questions);
+  const totalBatches = Math.max(1, planMaterial(extractedText, config.questionCount, config.sectionWeights).batches.length);
+  const key = progressKey(extractedText, { ...config });
+  const saved = loadProgress(key);
+  const progress: GenerationProgress = saved ?? {
+    key, totalBatches, doneBatches: [], questions: [], dropped: [], coverage: [], model: '', verifierModel: '',
+  };
+
+  // Parallel batches can repeat each other or, rarely, an id
+  const isFresh = createNearDuplicateFilter(progress.questions.map(q => q.question));
+  const seenIds = new Set(progress.questions.map(q => q.id));
+  const accept = (question: Question, batch: number) => {
+    if (!isFresh(question.question)) return;
+    const unique = seenIds.has(question.id) ? { ...question, id: `${question.id}_b${batch}` } : question;
+    seenIds.add(unique.id);
+    progress.questions.push(unique);
+    onQuestion(unique);
+  };
+
+  // Questions from an interrupted run go out first, so practice can start right away
+  progress.questions.forEach(q => onQuestion(q));
+  if (saved) onProgress?.(`Resuming — ${saved.doneBatches.length} of ${totalBatches} batches already done...`);
+  else onProgress?.('Generating questions...');
+
+  const todo = Array.from({ length: totalBatches }, (_, i) => i).filter(i => !progress.doneBatches.includes(i));
+  let lastError: string | undefined;
+
+  const worker = async () => {
+    // After a failure, finish what's in flight but start nothing new
+    while (todo.length && !lastError && !signal?.aborted) {
+      const batch = todo.shift()!;
+      try {
+        const result = await generateQuestionsStream(extractedText, { ...config, batch }, q => accept(q, batch), undefined, signal);
+        // No metadata means the stream broke off — keep its questions but run the batch again next time
+        if (!result.metadata) throw new Error(signal?.aborted ? 'Generation cancelled.' : 'Connection lost while generating questions.');
+        progress.doneBatches.push(batch);
+        progress.dropped.push(...result.metadata.dropped.reasons);
+        if (result.metadata.coverage) progress.coverage.push(result.metadata.coverage);
+        progress.model = result.metadata.model || progress.model;
+        progress.verifierModel = result.metadata.verification?.model || progress.verifierModel;
+        saveProgress(progress);
+        onProgress?.(`Generating questions · ${progress.doneBatches.length}/${totalBatches} batches · ${progress.questions.length} ready...`);
+      } catch (err) {
+        lastError = (err instanceof Error && err.message) || 'Question generation failed.';
+        saveProgress(progress);
+      }
     }
-  }
+  };
+  await Promise.all(Array.from({ length: Math.min(MAX_PARALLEL_BATCHES, todo.length) }, worker));
 
-  if (allQuestions.length === 0) {
-    throw new Error('No questions were generated. Please try again.');
+  const remainingBatches = totalBatches - progress.doneBatches.length;
+  if (remainingBatches === 0) clearProgress();
+  if (progress.questions.length === 0) {
+    throw new Error(lastError || 'No questions were generated. Please try again.');
   }
 
-  // Deduplicate
-  const seen = new Set<string>();
-  const accepted: any[] = [];
-  const uniqueQuestions = allQuestions.filter((q: any) => {
-    const text = q.question || '';
-    const norm = normalizeQ(text).replace(/\s/g, '').slice(0, 120);
-    if (!norm || seen.has(norm)) return false;
-    for (const a of accepted) { if (isTooSimilar(text, a.question)) return false; }
-    seen.add(norm);
-    accepted.push(q);
-    return true;
-  });
+  const { questions } = progress;
+  return {
+    questions,
+    metadata: {
+      generatedCount: questions.length,
+      model: progress.model,
+      dropped: { count: progress.dropped.length, reasons: progress.dropped },
+      coverage: mergeCoverage(progress.coverage),
+      ...(config.verifyAnswers ? { verification: summarizeVerification(questions, progress.verifierModel) } : {}),
+    },
+    totalBatches,
+    remainingBatches,
+    resumedCount: saved?.questions.length ?? 0,
+    ...(lastError ? { error: lastError } : {}),
+  };
+}
 
-  // Shuffle MC options and normalize
-  return uniqueQuestions.map((q: any, i: number) => {
-    const type = q.type || 'multiple-choice';
-    let options = Array.isArray(q.options)
-      ? q.options.map((o: string) => String(o).replace(/^[A-Da-d][.)]\s*/, '').trim())
-      : [];
-    let correctAnswer = q.correctAnswer ?? 0;
-
-    if (type === 'multiple-choice' && options.length >= 2 && typeof correctAnswer === 'number') {
-      const indices = options.map((_: any, idx: number) => idx);
-      for (let j = options.length - 1; j > 0; j--) {
-        const k = Math.floor(Math.random() * (j + 1));
-        [options[j], options[k]] = [options[k], options[j]];
-        [indices[j], indices[k]] = [indices[k], indices[j]];
-      }
-      correctAnswer = indices.indexOf(q.correctAnswer);
-    }
+// --- Single-question regeneration ---
+// The section a question was written from. Source locations are tried first:
+// OCR'd scans are generated chunk by chunk, so their section ids only mean
+// something within the chunk they came from.
+function sectionOf(sections: MaterialSection[], question: Question): MaterialSection | undefined {
+  const { source } = question;
+  const located = source?.number !== undefined && sections.find(s =>
+    s.file === source.file && s.locator?.kind === source.kind &&
+    s.locator.from <= source.number! && source.number! <= s.locator.to
+  );
+  return located || sections.find(s => s.id === question.section);
+}
+
+/**
+ * Ask for one replacement for a question the student didn't like: same type,
+ * same section of the material, and different from every question in the quiz.
+ */
+export async function regenerateQuestion(
+  extractedText: string,
+  question: Question,
+  options: { difficulty: string; avoid: string[] },
+  signal?: AbortSignal
+): Promise<Question> {
+  const sections = splitIntoSections(extractedText);
+  const section = sectionOf(sections, question);
+  const { questions } = await generateQuestionsWithGemini(
+    extractedText,
+    {
+      questionTypes: [question.type],
+      questionCount: 1,
+      typeCounts: { [question.type]: 1 },
+      difficulty: options.difficulty,
+      previousQuestions: [...options.avoid, question.question].map(q => q.slice(0, 150)),
+      verifyAnswers: question.verified !== undefined,
+      includeHints: !!question.hints?.length,
+      mathTemplates: !!question.template,
+      ...(section ? { sectionWeights: Object.fromEntries(sections.map(s => [s.id, s.id === section.id ? 1 : 0])) } : {}),
+    },
+    undefined,
+    signal
+  );
+  return questions[0];
+}
 
-    return {
-      id: `q${Date.now()}_${i}`,
-      type,
-      question: q.question || '',
-      options,
-      correctAnswer,
-      explanation: q.explanation || '',
-      topic: q.topic || ''
-    };
+// --- Essay grading ---
+/** Have the model score an essay answer against the question's rubric */
+export async function gradeEssayAnswer(question: Question, answer: string): Promise<EssayGrade> {
+  const response = await fetch('/api/grade-essay', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      question: question.question,
+      modelAnswer: String(question.correctAnswer),
+      rubric: question.rubric,
+      answer,
+    }),
   });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.grade) {
+    throw new Error(data.error || `Grading failed (${response.status}). Please try again.`);
+  }
+  return data.grade;
 }
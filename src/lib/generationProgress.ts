@@ -0,0 +1,64 @@
+// Saved progress for large quizzes generated a few batches at a time, so a
+// run cut short by a rate limit can pick up where it stopped.
+
+import type { DroppedQuestion, Question } from './geminiClient';
+import type { SectionCoverage } from './sections';
+
+export interface GenerationProgress {
+  /** Material and settings the progress belongs to — see progressKey */
+  key: string;
+  totalBatches: number;
+  doneBatches: number[];
+  questions: Question[];
+  dropped: DroppedQuestion[];
+  /** One coverage report per finished batch */
+  coverage: SectionCoverage[][];
+  model: string;
+  verifierModel: string;
+}
+
+const STORAGE_KEY = 'studywiz_generation_progress';
+
+// FNV-1a, enough to tell one upload from another without storing the text
+const hash = (text: string) => {
+  let h = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return (h >>> 0).toString(36);
+};
+
+/**
+ * Same material and settings give the same key. The dedup lists are left
+ * out because they grow with every run, including the interrupted one.
+ */
+export function progressKey(extractedText: string, config: Record<string, unknown>): string {
+  const { previousTopics: _topics, previousQuestions: _questions, ...settings } = config;
+  return `${hash(extractedText)}:${extractedText.length}:${hash(JSON.stringify(settings))}`;
+}
+
+export function loadProgress(key: string): GenerationProgress | null {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    return saved?.key === key ? saved : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveProgress(progress: GenerationProgress): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(progress));
+  } catch {
+    // Storage full or unavailable — the run carries on, it just can't resume
+  }
+}
+
+export function clearProgress(): void {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Nothing saved to clear
+  }
+}
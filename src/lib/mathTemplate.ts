@@ -0,0 +1,232 @@
+// Parameterized math questions: a question with {placeholders}, random
+// ranges for its variables and a formula for the answer. Shared with api/,
+// which checks templates before sending them to the client.
+//
+// Formulas go through a small expression parser rather than eval, since they
+// come from model output.
+
+export interface TemplateVariable {
+  min: number;
+  max: number;
+  /** Values are multiples of this from min — defaults to 1 */
+  step?: number;
+}
+
+export interface MathTemplate {
+  variables: Record<string, TemplateVariable>;
+  /** Answer in terms of the variables, e.g. "v^2 / (2 * 9.81)" */
+  formula: string;
+  /** Worked solution with the same {placeholders}, which may hold expressions */
+  solution?: string;
+}
+
+export interface TemplateInstance {
+  values: Record<string, number>;
+  question: string;
+  answer: number;
+  solution?: string;
+}
+
+// --- Expression parsing ---
+type Token = { kind: 'num'; value: number } | { kind: 'id'; name: string } | { kind: 'op'; op: string };
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt, abs: Math.abs, exp: Math.exp,
+  ln: Math.log, log: Math.log10, log10: Math.log10, log2: Math.log2,
+  sin: Math.sin, cos: Math.cos, tan: Math.tan, asin: Math.asin, acos: Math.acos, atan: Math.atan,
+  round: Math.round, floor: Math.floor, ceil: Math.ceil,
+  min: Math.min, max: Math.max, pow: Math.pow,
+};
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  const source = expression.replace(/\*\*/g, '^').replace(/[×·]/g, '*').replace(/÷/g, '/').replace(/π/g, 'pi');
+  let i = 0;
+  while (i < source.length) {
+    const c = source[i];
+    if (/\s/.test(c)) { i++; continue; }
+    const num = source.slice(i).match(/^(\d*\.?\d+(?:e[-+]?\d+)?)/i);
+    if (num) { tokens.push({ kind: 'num', value: Number(num[1]) }); i += num[1].length; continue; }
+    const id = source.slice(i).match(/^[A-Za-z_]\w*/);
+    if (id) { tokens.push({ kind: 'id', name: id[0] }); i += id[0].length; continue; }
+    if ('+-*/^(),'.includes(c)) { tokens.push({ kind: 'op', op: c }); i++; continue; }
+    throw new Error(`Unexpected "${c}" in formula`);
+  }
+  return tokens;
+}
+
+/**
+ * Evaluate an arithmetic expression with + - * / ^, parentheses, the
+ * functions above, pi and e. Throws on anything else, including unknown
+ * variables.
+ */
+export function evaluate(expression: string, scope: Record<string, number> = {}): number {
+  const tokens = tokenize(expression);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const isOp = (op: string) => peek()?.kind === 'op' && (peek() as { op: string }).op === op;
+  const expect = (op: string) => {
+    if (!isOp(op)) throw new Error(`Expected "${op}" in formula`);
+    pos++;
+  };
+
+  // expression := term (("+" | "-") term)*
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    while (isOp('+') || isOp('-')) {
+      const op = (tokens[pos++] as { op: string }).op;
+      const right = parseTerm();
+      value = op === '+' ? value + right : value - right;
+    }
+    return value;
+  };
+
+  // term := unary (("*" | "/") unary | implicit multiplication)*
+  const parseTerm = (): number => {
+    let value = parseUnary();
+    for (;;) {
+      if (isOp('*') || isOp('/')) {
+        const op = (tokens[pos++] as { op: string }).op;
+        const right = parseUnary();
+        value = op === '*' ? value * right : value / right;
+      } else if (peek() && (peek().kind !== 'op' || isOp('('))) {
+        // "2pi", "2(x + 1)", "v t"
+        value *= parseUnary();
+      } else {
+        return value;
+      }
+    }
+  };
+
+  // unary := "-" unary | power
+  const parseUnary = (): number => {
+    if (isOp('-')) { pos++; return -parseUnary(); }
+    if (isOp('+')) { pos++; return parseUnary(); }
+    return parsePower();
+  };
+
+  // power := primary ("^" unary)?   — right-associative, so 2^3^2 = 2^9
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    if (isOp('^')) { pos++; return base ** parseUnary(); }
+    return base;
+  };
+
+  const parsePrimary = (): number => {
+    const token = tokens[pos++];
+    if (!token) throw new Error('Formula ends too early');
+    if (token.kind === 'num') return token.value;
+    if (token.kind === 'op') {
+      if (token.op !== '(') throw new Error(`Unexpected "${token.op}" in formula`);
+      const value = parseExpression();
+      expect(')');
+      return value;
+    }
+    if (FUNCTIONS[token.name] && isOp('(')) {
+      pos++;
+      const args = [parseExpression()];
+      while (isOp(',')) { pos++; args.push(parseExpression()); }
+      expect(')');
+      return FUNCTIONS[token.name](...args);
+    }
+    if (token.name in scope) return scope[token.name];
+    if (token.name in CONSTANTS) return CONSTANTS[token.name];
+    throw new Error(`Unknown variable "${token.name}" in formula`);
+  };
+
+  const result = parseExpression();
+  if (pos < tokens.length) throw new Error('Unexpected text at the end of the formula');
+  return result;
+}
+
+// --- Instances ---
+/** Readable number: whole numbers as-is, otherwise 4 significant figures */
+export function formatValue(value: number): string {
+  if (Number.isInteger(value)) return String(value);
+  return String(Number(value.toPrecision(4)));
+}
+
+const PLACEHOLDER = /\{([^{}]+)\}/g;
+
+/**
+ * Replace {expression} placeholders that use at least one variable. Anything
+ * else in braces — LaTeX like \frac{1}{2}, or text the parser rejects — is
+ * left alone.
+ */
+export function fillPlaceholders(text: string, values: Record<string, number>): string {
+  return text.replace(PLACEHOLDER, (whole, expression: string) => {
+    const names = expression.match(/[A-Za-z_]\w*/g) || [];
+    if (!names.some(n => n in values)) return whole;
+    try {
+      return formatValue(evaluate(expression, values));
+    } catch {
+      return whole;
+    }
+  });
+}
+
+function pick(variable: TemplateVariable, random: () => number): number {
+  const step = variable.step && variable.step > 0 ? variable.step : 1;
+  const steps = Math.floor((variable.max - variable.min) / step + 1e-9);
+  const value = variable.min + Math.floor(random() * (steps + 1)) * step;
+  // Strip float noise from the step arithmetic (0.1 * 3 = 0.30000000000000004)
+  return Number(value.toPrecision(12));
+}
+
+/**
+ * Draw fresh values for every variable and work out the question and answer.
+ * checkTemplate only tries the ends of each range, so a draw in between that
+ * has no answer (sqrt of a negative, division by zero) is redrawn.
+ */
+export function instantiateTemplate(question: string, template: MathTemplate, random: () => number = Math.random): TemplateInstance {
+  let values: Record<string, number> = {};
+  let answer = NaN;
+  for (let attempt = 0; attempt < 10 && !Number.isFinite(answer); attempt++) {
+    values = Object.fromEntries(
+      Object.entries(template.variables).map(([name, variable]) => [name, pick(variable, random)])
+    );
+    answer = evaluate(template.formula, values);
+  }
+  return {
+    values,
+    question: fillPlaceholders(question, values),
+    answer,
+    ...(template.solution ? { solution: fillPlaceholders(template.solution, values) } : {}),
+  };
+}
+
+/**
+ * Problems with a template, or [] if it's usable: every variable has a sane
+ * range, the question mentions at least one variable, and the formula gives a
+ * finite answer at both ends of every range.
+ */
+export function checkTemplate(question: string, template: MathTemplate): string[] {
+  const names = Object.keys(template.variables);
+  if (names.length === 0) return ['template has no variables'];
+
+  const problems: string[] = [];
+  for (const [name, v] of Object.entries(template.variables)) {
+    if (!/^[A-Za-z_]\w*$/.test(name) || name in CONSTANTS || name in FUNCTIONS) problems.push(`"${name}" can't be used as a variable name`);
+    if (!(Number.isFinite(v.min) && Number.isFinite(v.max)) || v.min > v.max) problems.push(`variable "${name}" needs min <= max`);
+  }
+  if (problems.length) return problems;
+
+  const placeholders = Array.from(question.matchAll(PLACEHOLDER)).map(m => m[1]);
+  if (!placeholders.some(p => names.some(n => new RegExp(`\\b${n}\\b`).test(p)))) {
+    problems.push('question text has no {placeholders} for its variables');
+  }
+
+  for (const end of ['min', 'max'] as const) {
+    const values = Object.fromEntries(Object.entries(template.variables).map(([n, v]) => [n, v[end]]));
+    try {
+      if (!Number.isFinite(evaluate(template.formula, values))) problems.push(`formula has no finite answer when variables are at their ${end}`);
+    } catch (error) {
+      problems.push(`formula: ${error instanceof Error ? error.message : String(error)}`);
+      break;
+    }
+  }
+  return problems;
+}
@@ -0,0 +1,44 @@
+// Scoring for "select all that apply" questions.
+
+export type MultiSelectScoring = 'all-or-nothing' | 'right-minus-wrong';
+
+export interface MultiSelectTally {
+  right: number;   // correct options the student ticked
+  wrong: number;   // incorrect options the student ticked
+  missed: number;  // correct options left unticked
+}
+
+const STORAGE_KEY = 'studywiz_multiselect_scoring';
+
+export function getMultiSelectScoring(): MultiSelectScoring {
+  try {
+    return localStorage.getItem(STORAGE_KEY) === 'right-minus-wrong' ? 'right-minus-wrong' : 'all-or-nothing';
+  } catch {
+    return 'all-or-nothing';
+  }
+}
+
+export function setMultiSelectScoring(rule: MultiSelectScoring): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, rule);
+  } catch {
+    // Private browsing — the choice just won't persist
+  }
+}
+
+export function tallyMultiSelect(correct: number[], selected: number[]): MultiSelectTally {
+  const key = new Set(correct);
+  const right = selected.filter(i => key.has(i)).length;
+  return { right, wrong: selected.length - right, missed: key.size - right };
+}
+
+/**
+ * Share of the question earned, from 0 to 1.
+ *  - all-or-nothing: 1 only for exactly the correct set
+ *  - right-minus-wrong: (right − wrong) / number of correct options, never below 0
+ */
+export function scoreMultiSelect(correct: number[], selected: number[], rule: MultiSelectScoring): number {
+  const { right, wrong, missed } = tallyMultiSelect(correct, selected);
+  if (rule === 'all-or-nothing') return wrong === 0 && missed === 0 ? 1 : 0;
+  return correct.length ? Math.max(0, (right - wrong) / correct.length) : 0;
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { createNearDuplicateFilter, shingles, signature, similarity } from './nearDuplicate';
+
+describe('shingles', () => {
+  it('keeps content words, singularised, and their adjacent pairs', () => {
+    expect(shingles('What are the functions of mitochondria cells?')).toEqual(
+      new Set(['function', 'mitochondria', 'cell', 'function mitochondria', 'mitochondria cell'])
+    );
+  });
+});
+
+describe('signature and similarity', () => {
+  it('is stable and matches identical text exactly', () => {
+    const text = 'Explain how ATP synthase uses the proton gradient';
+    expect(signature(text)).toEqual(signature(text));
+    expect(similarity(signature(text), signature(text.toUpperCase()))).toBe(1);
+  });
+
+  it('is empty for text with no content words', () => {
+    expect(signature('What is it?')).toEqual([]);
+    expect(similarity([], [])).toBe(0);
+  });
+
+  it('rates a rewording above an unrelated question', () => {
+    const a = signature('How does the proton gradient drive ATP synthase in mitochondria?');
+    const reworded = signature('In mitochondria, how does a proton gradient drive ATP synthase?');
+    const other = signature('Which enzyme fixes carbon dioxide in the Calvin cycle?');
+    expect(similarity(a, reworded)).toBeGreaterThan(similarity(a, other));
+    expect(similarity(a, other)).toBeLessThan(0.2);
+  });
+});
+
+describe('createNearDuplicateFilter', () => {
+  it('accepts a question once and turns away rewordings', () => {
+    const isFresh = createNearDuplicateFilter();
+    expect(isFresh('How does the proton gradient drive ATP synthase in mitochondria?')).toBe(true);
+    expect(isFresh('In mitochondria, how does a proton gradient drive ATP synthase?')).toBe(false);
+    expect(isFresh('Which enzyme fixes carbon dioxide in the Calvin cycle?')).toBe(true);
+  });
+
+  it('remembers questions from earlier quizzes', () => {
+    const isFresh = createNearDuplicateFilter(['Which enzyme fixes carbon dioxide in the Calvin cycle?']);
+    expect(isFresh('Which enzyme fixes carbon dioxide during the Calvin cycle?')).toBe(false);
+  });
+
+  it('lets through text it cannot fingerprint', () => {
+    const isFresh = createNearDuplicateFilter();
+    expect(isFresh('Why?')).toBe(true);
+    expect(isFresh('Why?')).toBe(true);
+  });
+});
@@ -0,0 +1,102 @@
+// Near-duplicate detection for questions via MinHash over word shingles.
+// Shared with api/, which filters repeats within and across generation runs.
+//
+// A question becomes the set of its content words and adjacent word pairs;
+// its signature keeps the smallest hash of that set under each of
+// SIGNATURE_SIZE hash functions. The share of positions where two signatures
+// agree estimates the Jaccard similarity of the sets, so a reworded question
+// still matches while one that merely shares a topic word does not.
+
+const SIGNATURE_SIZE = 64;
+
+// Estimated Jaccard similarity at which two questions count as the same one
+export const NEAR_DUPLICATE_THRESHOLD = 0.5;
+
+const STOP_WORDS = new Set([
+  'the', 'is', 'are', 'was', 'were', 'what', 'which', 'how', 'does', 'did', 'can', 'will', 'would', 'should',
+  'could', 'has', 'have', 'had', 'been', 'being', 'this', 'that', 'these', 'those', 'with', 'from', 'for',
+  'and', 'but', 'not', 'you', 'your', 'its', 'about', 'into', 'over', 'after', 'before', 'between',
+  'following', 'true', 'false', 'of', 'in', 'on', 'to', 'a', 'an', 'or', 'by', 'as', 'at', 'it', 'be',
+  'why', 'when', 'who', 'describe', 'explain',
+]);
+
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(w => w.length > 1 && !STOP_WORDS.has(w))
+    // Plural and singular are the same word here ("cells" / "cell")
+    .map(w => (w.length > 3 && w.endsWith('s') && !w.endsWith('ss') ? w.slice(0, -1) : w));
+}
+
+/** Content words plus each adjacent pair, so word order counts for something */
+export function shingles(text: string): Set<string> {
+  const w = words(text);
+  const set = new Set(w);
+  for (let i = 0; i + 1 < w.length; i++) set.add(`${w[i]} ${w[i + 1]}`);
+  return set;
+}
+
+// FNV-1a, 32-bit
+function hashString(text: string): number {
+  let h = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+}
+
+// Fixed odd multipliers and offsets for the hash family — signatures must be
+// comparable across sessions and between browser and server
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, i) => ({
+  a: (hashString(`a${i}`) | 1) >>> 0,
+  b: hashString(`b${i}`),
+}));
+
+// Final avalanche so a*x + b spreads over all 32 bits
+function mix(x: number): number {
+  x ^= x >>> 16;
+  x = Math.imul(x, 0x45d9f3b);
+  x ^= x >>> 16;
+  return x >>> 0;
+}
+
+/** MinHash signature of a question's text — empty if it has no content words */
+export function signature(text: string): number[] {
+  const hashes = Array.from(shingles(text), hashString);
+  if (hashes.length === 0) return [];
+  return SEEDS.map(({ a, b }) => {
+    let min = 0xffffffff;
+    for (const h of hashes) {
+      const v = mix((Math.imul(a, h) + b) >>> 0);
+      if (v < min) min = v;
+    }
+    return min;
+  });
+}
+
+/** Estimated Jaccard similarity of two signatures, from 0 to 1 */
+export function similarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let same = 0;
+  for (let i = 0; i < a.length; i++) if (a[i] === b[i]) same++;
+  return same / a.length;
+}
+
+/**
+ * Returns a predicate that accepts a question's text once, rejecting anything
+ * that is a near-duplicate of text it has already accepted or of `previous`
+ * — questions the student has already been given.
+ */
+export function createNearDuplicateFilter(previous: string[] = []): (text: string) => boolean {
+  const accepted = previous.map(signature).filter(s => s.length > 0);
+  return (text: string) => {
+    const sig = signature(text);
+    if (sig.length === 0) return true;
+    if (accepted.some(s => similarity(s, sig) >= NEAR_DUPLICATE_THRESHOLD)) return false;
+    accepted.push(sig);
+    return true;
+  };
+}
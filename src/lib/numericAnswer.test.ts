@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { formatNumericKey, gradeNumericAnswer, parseQuantity, parseUnit } from './numericAnswer';
+
+describe('parseQuantity', () => {
+  it.each([
+    ['9.8 m/s^2', 9.8, 'm/s^2'],
+    ['.5', 0.5, ''],
+    ['1.6e-19 C', 1.6e-19, 'C'],
+    ['3 x 10^8 m/s', 3e8, 'm/s'],
+    ['3×10^-8', 3e-8, ''],
+    ['1/2', 0.5, ''],
+    ['-3/4 kg', -0.75, 'kg'],
+    ['1 1/2 h', 1.5, 'h'],
+    ['−2', -2, ''],
+    ['1,500 J', 1500, 'J'],
+  ])('reads %s', (input, value, unit) => {
+    const parsed = parseQuantity(input);
+    // Relative, since 10^-8 arithmetic isn't exact
+    expect(Math.abs(parsed!.value - value)).toBeLessThanOrEqual(Math.abs(value) * 1e-12);
+    expect(parsed?.unit).toBe(unit);
+  });
+
+  it('gives up on answers without a number', () => {
+    expect(parseQuantity('about ten')).toBeNull();
+    expect(parseQuantity('1/0')).toBeNull();
+  });
+});
+
+describe('parseUnit', () => {
+  it('treats an empty unit as dimensionless', () => {
+    expect(parseUnit('')).toEqual({ factor: 1, dims: [0, 0, 0, 0, 0, 0] });
+  });
+
+  it('applies prefixes and powers', () => {
+    expect(parseUnit('km')?.factor).toBe(1000);
+    expect(parseUnit('cm^3')?.factor).toBeCloseTo(1e-6, 20);
+    expect(parseUnit('m/s²')?.dims).toEqual([1, 0, -2, 0, 0, 0]);
+  });
+
+  it('puts everything after the first slash in the denominator', () => {
+    expect(parseUnit('J/mol/K')?.dims).toEqual(parseUnit('J mol^-1 K^-1')?.dims);
+    expect(parseUnit('kJ/mol')?.factor).toBe(1000);
+  });
+
+  it('rejects units it does not know', () => {
+    expect(parseUnit('furlongs')).toBeNull();
+    expect(parseUnit('m^x')).toBeNull();
+  });
+});
+
+describe('gradeNumericAnswer', () => {
+  const g = { value: 9.81, unit: 'm/s^2', tolerance: 0.05, toleranceType: 'absolute' as const };
+
+  it('accepts answers within the tolerance', () => {
+    expect(gradeNumericAnswer('9.8 m/s^2', g).status).toBe('correct');
+    expect(gradeNumericAnswer('9.7 m/s^2', g).status).toBe('wrong-value');
+  });
+
+  it('defaults to a 1% relative tolerance', () => {
+    expect(gradeNumericAnswer('101', { value: 100 }).status).toBe('correct');
+    expect(gradeNumericAnswer('102', { value: 100 }).status).toBe('wrong-value');
+  });
+
+  it('never fails an exact answer on float noise', () => {
+    expect(gradeNumericAnswer(String(0.1 + 0.2), { value: 0.3, tolerance: 0 }).status).toBe('correct');
+  });
+
+  it('converts compatible units', () => {
+    const result = gradeNumericAnswer('150 cm', { value: 1.5, unit: 'm', tolerance: 0 });
+    expect(result).toMatchObject({ status: 'correct', credit: 1 });
+    expect(result.message).toBe("Correct — that's 1.5 m.");
+  });
+
+  it('gives half credit when only the unit is missing', () => {
+    expect(gradeNumericAnswer('9.81', g)).toMatchObject({ status: 'missing-unit', credit: 0.5 });
+  });
+
+  it('says which part of the answer is wrong', () => {
+    expect(gradeNumericAnswer('9.81 kg', g).status).toBe('wrong-unit');
+    expect(gradeNumericAnswer('9.81 cm/s^2', g).message).toMatch(/check your conversion/);
+    expect(gradeNumericAnswer('9.81 parsecs', g).message).toMatch(/isn't a unit we recognise/);
+    expect(gradeNumericAnswer('ten', g)).toMatchObject({ status: 'unparseable', credit: 0 });
+  });
+
+  it('spells out the key', () => {
+    expect(formatNumericKey(g)).toBe('9.81 m/s^2');
+    expect(formatNumericKey({ value: 42 })).toBe('42');
+  });
+});
@@ -0,0 +1,219 @@
+// Parsing and grading for numeric-answer questions. Shared with api/, which
+// uses parseUnit to reject answer keys whose unit the grader can't read.
+
+export interface NumericKey {
+  value: number;
+  /** Defaults to 1% relative */
+  tolerance?: number;
+  toleranceType?: 'absolute' | 'relative';
+  unit?: string;
+}
+
+export type NumericStatus = 'correct' | 'wrong-value' | 'wrong-unit' | 'missing-unit' | 'unparseable';
+
+export interface NumericResult {
+  status: NumericStatus;
+  /** Share of the question earned, from 0 to 1 */
+  credit: number;
+  message: string;
+}
+
+const DEFAULT_RELATIVE_TOLERANCE = 0.01;
+
+// --- Units ---
+// Dimension exponents: metre, kilogram, second, ampere, mole, kelvin
+type Dims = [number, number, number, number, number, number];
+
+interface UnitValue {
+  factor: number; // multiply by this to get SI base units
+  dims: Dims;
+}
+
+const D = (m = 0, kg = 0, s = 0, A = 0, mol = 0, K = 0): Dims => [m, kg, s, A, mol, K];
+
+// Units that take SI prefixes (km, mg, µs, kPa, ...)
+const PREFIXABLE: Record<string, UnitValue> = {
+  m: { factor: 1, dims: D(1) },
+  g: { factor: 1e-3, dims: D(0, 1) },
+  s: { factor: 1, dims: D(0, 0, 1) },
+  A: { factor: 1, dims: D(0, 0, 0, 1) },
+  mol: { factor: 1, dims: D(0, 0, 0, 0, 1) },
+  K: { factor: 1, dims: D(0, 0, 0, 0, 0, 1) },
+  L: { factor: 1e-3, dims: D(3) },
+  N: { factor: 1, dims: D(1, 1, -2) },
+  J: { factor: 1, dims: D(2, 1, -2) },
+  W: { factor: 1, dims: D(2, 1, -3) },
+  Pa: { factor: 1, dims: D(-1, 1, -2) },
+  Hz: { factor: 1, dims: D(0, 0, -1) },
+  C: { factor: 1, dims: D(0, 0, 1, 1) },
+  V: { factor: 1, dims: D(2, 1, -3, -1) },
+  Ω: { factor: 1, dims: D(2, 1, -3, -2) },
+  eV: { factor: 1.602176634e-19, dims: D(2, 1, -2) },
+};
+
+const PREFIXES: Record<string, number> = {
+  T: 1e12, G: 1e9, M: 1e6, k: 1e3, h: 1e2, d: 1e-1, c: 1e-2, m: 1e-3, µ: 1e-6, u: 1e-6, n: 1e-9, p: 1e-12,
+};
+
+// Units that don't take prefixes, plus common spellings
+const FIXED: Record<string, UnitValue> = {
+  min: { factor: 60, dims: D(0, 0, 1) },
+  h: { factor: 3600, dims: D(0, 0, 1) },
+  hr: { factor: 3600, dims: D(0, 0, 1) },
+  day: { factor: 86400, dims: D(0, 0, 1) },
+  in: { factor: 0.0254, dims: D(1) },
+  ft: { factor: 0.3048, dims: D(1) },
+  mi: { factor: 1609.344, dims: D(1) },
+  lb: { factor: 0.45359237, dims: D(0, 1) },
+  cal: { factor: 4.184, dims: D(2, 1, -2) },
+  kcal: { factor: 4184, dims: D(2, 1, -2) },
+  atm: { factor: 101325, dims: D(-1, 1, -2) },
+  bar: { factor: 1e5, dims: D(-1, 1, -2) },
+  mmHg: { factor: 133.322, dims: D(-1, 1, -2) },
+  ohm: { factor: 1, dims: D(2, 1, -3, -2) },
+  l: { factor: 1e-3, dims: D(3) },
+  ml: { factor: 1e-6, dims: D(3) },
+  M: { factor: 1000, dims: D(-3, 0, 0, 0, 1) }, // molar, mol/L
+  '%': { factor: 0.01, dims: D() },
+};
+
+function lookupSymbol(symbol: string): UnitValue | null {
+  if (FIXED[symbol]) return FIXED[symbol];
+  if (PREFIXABLE[symbol]) return PREFIXABLE[symbol];
+  for (const [prefix, scale] of Object.entries(PREFIXES)) {
+    const base = symbol.startsWith(prefix) ? PREFIXABLE[symbol.slice(prefix.length)] : undefined;
+    if (base) return { factor: base.factor * scale, dims: base.dims };
+  }
+  return null;
+}
+
+/**
+ * Parse a unit like "m/s^2", "kg·m/s²", "kJ/mol" or "N m" into a factor and
+ * dimensions. Returns null for anything it doesn't recognise. An empty unit is
+ * dimensionless.
+ */
+export function parseUnit(unit: string): UnitValue | null {
+  const cleaned = unit.trim()
+    .replace(/²/g, '^2').replace(/³/g, '^3').replace(/⁻¹/g, '^-1')
+    .replace(/\*\*/g, '^')
+    .replace(/[·⋅*]/g, ' ')
+    .replace(/\s*\^\s*/g, '^')
+    .replace(/\s*\/\s*/g, '/');
+  if (!cleaned) return { factor: 1, dims: D() };
+
+  let factor = 1;
+  const dims = D();
+  // Everything after the first "/" is in the denominator: "J/mol/K" = J mol⁻¹ K⁻¹
+  const [numerator, ...denominators] = cleaned.split('/');
+  const terms = [
+    ...numerator.split(/\s+/).map(t => ({ t, sign: 1 })),
+    ...denominators.flatMap(d => d.split(/\s+/).map(t => ({ t, sign: -1 }))),
+  ].filter(({ t }) => t && t !== '1');
+
+  for (const { t, sign } of terms) {
+    const match = t.match(/^([^^]+)(?:\^(-?\d+))?$/);
+    if (!match) return null;
+    const value = lookupSymbol(match[1]);
+    if (!value) return null;
+    const power = sign * Number(match[2] ?? 1);
+    factor *= value.factor ** power;
+    value.dims.forEach((d, i) => { dims[i] += d * power; });
+  }
+
+  return { factor, dims };
+}
+
+const sameDims = (a: Dims, b: Dims) => a.every((d, i) => d === b[i]);
+
+// --- Numbers ---
+/**
+ * Split an answer like "9.8 m/s^2", "1/2", "3 x 10^8 m/s" or "-1.6e-19 C"
+ * into its number and unit. Returns null if there is no readable number.
+ */
+export function parseQuantity(input: string): { value: number; unit: string } | null {
+  const text = input.trim().replace(/−/g, '-').replace(/,(?=\d{3}\b)/g, '');
+
+  const patterns: [RegExp, (m: RegExpMatchArray) => number][] = [
+    // Scientific notation: 3 x 10^8, 3×10^-8, 3*10**8
+    [/^(-?\d*\.?\d+)\s*(?:x|×|\*|·)\s*10\s*(?:\^|\*\*)\s*\(?(-?\d+)\)?/i, m => Number(m[1]) * 10 ** Number(m[2])],
+    // Mixed fraction: 1 1/2
+    [/^(-?)(\d+)\s+(\d+)\s*\/\s*(\d+)(?![\d.])/, m => (m[1] ? -1 : 1) * (Number(m[2]) + Number(m[3]) / Number(m[4]))],
+    // Fraction: 1/2, -3/4
+    [/^(-?\d*\.?\d+)\s*\/\s*(\d*\.?\d+)(?![\d.])/, m => Number(m[1]) / Number(m[2])],
+    // Plain or e-notation: 0.5, .5, 1.6e-19
+    [/^(-?\d*\.?\d+(?:e[-+]?\d+)?)/i, m => Number(m[1])],
+  ];
+
+  for (const [pattern, toValue] of patterns) {
+    const match = text.match(pattern);
+    if (!match) continue;
+    const value = toValue(match);
+    if (!Number.isFinite(value)) return null;
+    return { value, unit: text.slice(match[0].length).trim() };
+  }
+  return null;
+}
+
+function withinTolerance(actual: number, expected: number, key: NumericKey): boolean {
+  const tolerance = key.tolerance ?? DEFAULT_RELATIVE_TOLERANCE;
+  const type = key.tolerance === undefined ? 'relative' : key.toleranceType ?? 'absolute';
+  const allowed = type === 'relative' ? Math.abs(expected) * tolerance : tolerance;
+  // A tiny floor so 0.1 + 0.2 style float noise never fails an exact answer
+  return Math.abs(actual - expected) <= Math.max(allowed, Math.abs(expected) * 1e-9, 1e-12);
+}
+
+/** How the answer key reads to a student, e.g. "9.81 m/s^2" */
+export function formatNumericKey(key: NumericKey): string {
+  return key.unit ? `${key.value} ${key.unit}` : String(key.value);
+}
+
+/**
+ * Grade a typed answer against a numeric key. Values in a different but
+ * compatible unit are converted first (e.g. 150 cm for 1.5 m). The status
+ * says whether the value or the unit was at fault; a right value with the
+ * unit left off earns half credit.
+ */
+export function gradeNumericAnswer(input: string, key: NumericKey): NumericResult {
+  const parsed = parseQuantity(input);
+  if (!parsed) {
+    return { status: 'unparseable', credit: 0, message: 'Enter a number, e.g. 0.5, 1/2 or 3 x 10^8, followed by a unit if there is one.' };
+  }
+
+  const expectedUnit = key.unit ? parseUnit(key.unit) : null;
+  const expected = formatNumericKey(key);
+
+  // No unit in the key: only the number matters
+  if (!expectedUnit) {
+    return withinTolerance(parsed.value, key.value, key)
+      ? { status: 'correct', credit: 1, message: 'Correct.' }
+      : { status: 'wrong-value', credit: 0, message: `The value is off — the answer is ${expected}.` };
+  }
+
+  if (!parsed.unit) {
+    return withinTolerance(parsed.value, key.value, key)
+      ? { status: 'missing-unit', credit: 0.5, message: `Right value, but include the unit: ${expected}.` }
+      : { status: 'wrong-value', credit: 0, message: `The value is off, and the unit is missing — the answer is ${expected}.` };
+  }
+
+  const givenUnit = parseUnit(parsed.unit);
+  if (!givenUnit || !sameDims(givenUnit.dims, expectedUnit.dims)) {
+    const valueRight = withinTolerance(parsed.value, key.value, key);
+    return {
+      status: 'wrong-unit',
+      credit: 0,
+      message: givenUnit
+        ? `"${parsed.unit}" measures a different quantity than ${key.unit}${valueRight ? ' — the number is right' : ''}. The answer is ${expected}.`
+        : `"${parsed.unit}" isn't a unit we recognise. The answer is ${expected}.`,
+    };
+  }
+
+  const converted = parsed.value * givenUnit.factor / expectedUnit.factor;
+  if (withinTolerance(converted, key.value, key)) {
+    return { status: 'correct', credit: 1, message: parsed.unit === key.unit ? 'Correct.' : `Correct — that's ${expected}.` };
+  }
+  // Right digits, wrong scale: usually a unit conversion slip
+  if (withinTolerance(parsed.value, key.value, key)) {
+    return { status: 'wrong-unit', credit: 0, message: `The number matches ${key.unit}, not ${parsed.unit} — check your conversion. The answer is ${expected}.` };
+  }
+  return { status: 'wrong-value', credit: 0, message: `The unit is fine but the value is off — the answer is ${expected}.` };
+}
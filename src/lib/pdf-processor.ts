@@ -1,6 +1,7 @@
 import * as pdfjsLib from 'pdfjs-dist';
 import pdfjsWorker from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
 import { getNextWorker } from './ocr-pool';
+import { sha256, getCached, putCached, pdfPagesKey } from './contentCache';
 
 // Set up PDF.js worker (safe to set multiple times — same value)
 pdfjsLib.GlobalWorkerOptions.workerSrc = pdfjsWorker;
@@ -46,14 +47,27 @@ async function renderPageToJpeg(page: any): Promise<ImageData | HTMLCanvasElemen
  *   2. If fewer than 20 chars, render to canvas → OCR via the shared worker pool
  *
  * Up to BATCH_SIZE pages are processed concurrently so the 3 Tesseract workers
- * stay busy in parallel instead of running one page at a time.
+ * stay busy in parallel instead of running one page at a time. Aborting the
+ * signal stops it before the next batch; pages already being read finish first.
+ *
+ * A file read to the end is cached by its SHA-256, and replayed from there
+ * next time without touching pdf.js or Tesseract.
  */
-export async function* processPdfStream(file: File): AsyncGenerator<PageResult> {
+export async function* processPdfStream(file: File, signal?: AbortSignal): AsyncGenerator<PageResult> {
   const arrayBuffer = await file.arrayBuffer();
+  const cacheKey = pdfPagesKey(await sha256(arrayBuffer));
+  const cached = await getCached<PageResult[]>(cacheKey);
+  if (cached) {
+    yield* cached;
+    return;
+  }
+
   const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
   const numPages = pdf.numPages;
+  const pages: PageResult[] = [];
 
   for (let batchStart = 1; batchStart <= numPages; batchStart += BATCH_SIZE) {
+    signal?.throwIfAborted();
     // Memory safety breathing room every 20 pages
     if (batchStart > 1 && (batchStart - 1) % 20 === 0) {
       await new Promise<void>(r => setTimeout(r, 500));
@@ -93,7 +107,12 @@ export async function* processPdfStream(file: File): AsyncGenerator<PageResult>
 
     // Yield each page's result in order (batchStart → batchEnd)
     for (const result of results) {
-      if (result.text.trim()) yield result;
+      if (result.text.trim()) {
+        pages.push(result);
+        yield result;
+      }
     }
   }
+
+  await putCached(cacheKey, 'pdf-pages', file.name, pages);
 }
@@ -0,0 +1,203 @@
+// Every question the student has been given, kept so it can be found again
+// and practised without another generation call. Stored in localStorage and,
+// for signed-in users, under users/{uid}/questionBank — one document per
+// question, with tags and a running tally of how it has gone.
+
+import type { Question } from './geminiClient';
+
+export interface BankStats {
+  attempts: number;
+  /** Credit summed over attempts — essays, hints and multi-select earn part of a point */
+  correct: number;
+  lastAttemptAt?: string; // ISO date
+}
+
+export interface BankQuestion {
+  /** Same as question.id */
+  id: string;
+  question: Question;
+  sourceFiles: string[];
+  difficulty: string;
+  /** Lower-case labels the student adds, e.g. "exam 2" */
+  tags: string[];
+  stats: BankStats;
+  addedAt: string; // ISO date
+}
+
+export interface BankFilters {
+  /** Every word must appear in the question, topic, explanation, tags or file names */
+  text?: string;
+  tag?: string | null;
+  type?: string | null;
+  file?: string | null;
+}
+
+const STORAGE_KEY = 'studywiz_question_bank';
+// Oldest questions drop out of the local copy first; Firestore keeps them all
+const MAX_LOCAL_QUESTIONS = 500;
+
+const emptyStats = (): BankStats => ({ attempts: 0, correct: 0 });
+
+export function getQuestionBank(): BankQuestion[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    return JSON.parse(raw);
+  } catch {
+    return [];
+  }
+}
+
+function saveLocal(entries: BankQuestion[]): void {
+  const kept = [...entries].sort((a, b) => b.addedAt.localeCompare(a.addedAt)).slice(0, MAX_LOCAL_QUESTIONS);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(kept));
+  } catch {
+    // Storage full — the questions are still in Firestore for signed-in users
+  }
+}
+
+/**
+ * Add questions to the bank, or update the wording of ones already in it.
+ * Tags and stats of existing questions are kept. Returns the saved entries.
+ */
+export function saveToBank(questions: Question[], info: { sourceFiles: string[]; difficulty: string }): BankQuestion[] {
+  const bank = getQuestionBank();
+  const byId = new Map(bank.map(e => [e.id, e]));
+  const now = new Date().toISOString();
+  const saved = questions.map(question => {
+    const existing = byId.get(question.id);
+    const entry: BankQuestion = existing
+      ? { ...existing, question }
+      : { id: question.id, question, ...info, tags: [], stats: emptyStats(), addedAt: now };
+    byId.set(entry.id, entry);
+    return entry;
+  });
+  saveLocal(Array.from(byId.values()));
+  return saved;
+}
+
+/** Add one finished attempt to each question's tally */
+export function recordAttempts(results: { id: string; credit: number }[]): void {
+  const credits = new Map(results.map(r => [r.id, r.credit]));
+  const now = new Date().toISOString();
+  saveLocal(getQuestionBank().map(e => {
+    const credit = credits.get(e.id);
+    if (credit === undefined) return e;
+    return { ...e, stats: { attempts: e.stats.attempts + 1, correct: e.stats.correct + credit, lastAttemptAt: now } };
+  }));
+}
+
+export const normalizeTags = (tags: string[]) =>
+  Array.from(new Set(tags.map(t => t.trim().toLowerCase()).filter(Boolean))).sort();
+
+export function setBankTags(id: string, tags: string[]): void {
+  saveLocal(getQuestionBank().map(e => (e.id === id ? { ...e, tags: normalizeTags(tags) } : e)));
+}
+
+export function deleteFromBank(id: string): void {
+  saveLocal(getQuestionBank().filter(e => e.id !== id));
+}
+
+/** Share of credit earned over every attempt, or null if never attempted */
+export function accuracyOf(entry: BankQuestion): number | null {
+  return entry.stats.attempts > 0 ? entry.stats.correct / entry.stats.attempts : null;
+}
+
+export function searchBank(entries: BankQuestion[], filters: BankFilters): BankQuestion[] {
+  const words = (filters.text ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+  return entries.filter(e => {
+    if (filters.tag && !e.tags.includes(filters.tag)) return false;
+    if (filters.type && e.question.type !== filters.type) return false;
+    if (filters.file && !e.sourceFiles.includes(filters.file)) return false;
+    if (words.length === 0) return true;
+    const haystack = [e.question.question, e.question.topic, e.question.explanation, ...e.tags, ...e.sourceFiles]
+      .filter(Boolean)
+      .join(' ')
+      .toLowerCase();
+    return words.every(w => haystack.includes(w));
+  });
+}
+
+/** A quiz made of bank questions — no files and no generation call */
+export function quizFromBank(entries: BankQuestion[]) {
+  const difficulties = new Set(entries.map(e => e.difficulty));
+  return {
+    files: [] as File[],
+    sourceFiles: Array.from(new Set(entries.flatMap(e => e.sourceFiles))),
+    questionTypes: Array.from(new Set(entries.map(e => e.question.type))),
+    questionCount: entries.length,
+    difficulty: difficulties.size === 1 ? entries[0].difficulty : 'mixed',
+    questions: entries.map(e => e.question),
+  };
+}
+
+// ── Firestore-synced wrappers ──
+
+import {
+  saveBankQuestionsToFirestore,
+  getQuestionBankFromFirestore,
+  recordBankAttemptsInFirestore,
+  updateBankTagsInFirestore,
+  deleteBankQuestionFromFirestore,
+} from './firestoreService';
+
+export async function getQuestionBankWithSync(uid: string | null): Promise<BankQuestion[]> {
+  if (uid) {
+    try {
+      return await getQuestionBankFromFirestore(uid);
+    } catch (err) {
+      console.error('Failed to fetch question bank from Firestore, using local:', err);
+    }
+  }
+  return getQuestionBank();
+}
+
+export async function saveToBankWithSync(
+  questions: Question[],
+  info: { sourceFiles: string[]; difficulty: string },
+  uid: string | null
+): Promise<BankQuestion[]> {
+  const saved = saveToBank(questions, info);
+  if (uid && saved.length > 0) {
+    try {
+      await saveBankQuestionsToFirestore(uid, saved);
+    } catch (err) {
+      console.error('Failed to sync question bank to Firestore:', err);
+    }
+  }
+  return saved;
+}
+
+export async function recordAttemptsWithSync(results: { id: string; credit: number }[], uid: string | null): Promise<void> {
+  recordAttempts(results);
+  if (uid && results.length > 0) {
+    try {
+      await recordBankAttemptsInFirestore(uid, results);
+    } catch (err) {
+      console.error('Failed to sync question stats to Firestore:', err);
+    }
+  }
+}
+
+export async function setBankTagsWithSync(id: string, tags: string[], uid: string | null): Promise<void> {
+  setBankTags(id, tags);
+  if (uid) {
+    try {
+      await updateBankTagsInFirestore(uid, id, normalizeTags(tags));
+    } catch (err) {
+      console.error('Failed to sync tags to Firestore:', err);
+    }
+  }
+}
+
+export async function deleteFromBankWithSync(id: string, uid: string | null): Promise<void> {
+  deleteFromBank(id);
+  if (uid) {
+    try {
+      await deleteBankQuestionFromFirestore(uid, id);
+    } catch (err) {
+      console.error('Failed to delete question from Firestore:', err);
+    }
+  }
+}
@@ -1,5 +1,6 @@
 // Question generation utilities for lecturer-style questions
 
+// Relative .js import (not "@/") so the api/ functions can share this module
 import { 
   Question, 
   QuestionCategory, 
@@ -7,8 +8,9 @@ import {
   DifficultyLevel,
   lecturerStyleStems,
   QuestionGenerationConfig,
+  TypeMix,
   defaultGenerationConfig
-} from "@/types/questions";
+} from "../types/questions.js";
 
 // Utility to select weighted random category
 export const selectWeightedCategory = (
@@ -32,6 +34,68 @@ export const getRandomStem = (category: QuestionCategory): string => {
   return stems[Math.floor(Math.random() * stems.length)];
 };
 
+// Split a count across keys by weight (largest remainder, so it adds up exactly)
+export const allocateByWeight = <K extends string>(
+  weights: Partial<Record<K, number>>,
+  count: number
+): Partial<Record<K, number>> => {
+  const entries = (Object.entries(weights) as [K, number][]).filter(([, w]) => w > 0);
+  const total = entries.reduce((sum, [, w]) => sum + w, 0);
+  if (total === 0) return {};
+
+  const exact = entries.map(([key, w]) => ({ key, value: (w / total) * count }));
+  const counts = Object.fromEntries(exact.map(e => [e.key, Math.floor(e.value)])) as Partial<Record<K, number>>;
+  let remaining = count - (Object.values(counts) as number[]).reduce((sum, n) => sum + (n || 0), 0);
+
+  [...exact]
+    .sort((a, b) => (b.value % 1) - (a.value % 1))
+    .forEach(e => {
+      if (remaining <= 0) return;
+      counts[e.key] = (counts[e.key] || 0) + 1;
+      remaining--;
+    });
+
+  return counts;
+};
+
+// Split a question count across categories by weight
+export const allocateCategories = (
+  weights: Partial<Record<QuestionCategory, number>>,
+  count: number
+): Partial<Record<QuestionCategory, number>> => allocateByWeight(weights, count);
+
+// Exact number of questions per selected type: an even split, the user's
+// percentages of `count`, or the user's own counts (which set the total)
+export const resolveTypeCounts = (
+  types: string[],
+  count: number,
+  mix: TypeMix
+): Record<string, number> => {
+  const even = () => allocateByWeight(Object.fromEntries(types.map(t => [t, 1])), count) as Record<string, number>;
+  if (mix.mode === "count") {
+    return Object.fromEntries(types.map(t => [t, Math.max(0, Math.round(mix.values[t] ?? 0))]));
+  }
+  if (mix.mode === "percent") {
+    const counts = allocateByWeight(Object.fromEntries(types.map(t => [t, mix.values[t] ?? 0])), count) as Record<string, number>;
+    return Object.keys(counts).length ? Object.fromEntries(types.map(t => [t, counts[t] ?? 0])) : even();
+  }
+  return even();
+};
+
+// Category distribution and example stems, for inclusion in a generation prompt
+export const buildCategoryInstructions = (
+  counts: Partial<Record<QuestionCategory, number>>,
+  avoidSimpleRecall: boolean
+): string => {
+  const used = (Object.entries(counts) as [QuestionCategory, number][]).filter(([, n]) => n > 0);
+  return `QUESTION CATEGORIES (set "category" on every question):
+${used.map(([cat, n]) => `- ${cat}: ${n} question${n === 1 ? "" : "s"}`).join("\n")}
+
+EXAMPLE STEMS:
+${used.map(([cat]) => `${cat}: ${lecturerStyleStems[cat].slice(0, 2).map(s => `"${s}"`).join(" / ")}`).join("\n")}
+${avoidSimpleRecall ? `\nDO NOT write simple recall or definition questions ("What is...", "Define...", "List...").` : ""}`;
+};
+
 // Generate prompt instructions for AI to create lecturer-style questions
 export const generateQuestionPrompt = (
   content: string,
@@ -86,7 +150,7 @@ export const validateQuestion = (question: Partial<Question>): boolean => {
     /^where is\s/i,
   ];
 
-  const content = question.content || "";
+  const content = (question.content || "").trim();
   
   // Check if question starts with simple recall patterns
   const isSimpleRecall = recallPatterns.some(pattern => pattern.test(content));
@@ -100,8 +164,8 @@ export const validateQuestion = (question: Partial<Question>): boolean => {
     return false;
   }
 
-  // Ensure question ends with proper punctuation
-  if (!content.endsWith("?") && !content.endsWith(".")) {
+  // Ensure question ends with proper punctuation (a closing quote or bracket may follow it)
+  if (!/[?.:]["'”)\]]*$/.test(content)) {
     return false;
   }
 
@@ -1,3 +1,12 @@
+import type { QuestionCategory } from '../types/questions';
+import type { MultiSelectTally } from './multiSelect';
+
+/** Score per question category, for quizzes whose questions were tagged */
+export type CategoryBreakdown = Partial<Record<QuestionCategory, { correct: number; total: number }>>;
+
+/** Practice shows each answer straight away; an exam is timed and marked on submit */
+export type QuizMode = 'practice' | 'exam';
+
 export interface QuizHistoryEntry {
   id: string;
   completedAt: string; // ISO date
@@ -8,10 +17,28 @@ export interface QuizHistoryEntry {
   score: number;
   totalQuestions: number;
   percentage: number;
+  categoryBreakdown?: CategoryBreakdown;
+  /** Hints revealed across the whole quiz */
+  hintsUsed?: number;
+  /** Option-level results summed over the quiz's multi-select questions */
+  multiSelect?: MultiSelectTally;
+  /** Missing on entries saved before exam mode, which were all practice */
+  mode?: QuizMode;
+  /** From starting the quiz to the last answer, or to submitting the exam */
+  timeTakenSeconds?: number;
 }
 
 const STORAGE_KEY = 'studywiz_quiz_history';
 
+/** "4:05", or "1:02:09" past an hour */
+export function formatDuration(seconds: number): string {
+  const s = Math.max(0, Math.round(seconds));
+  const hours = Math.floor(s / 3600);
+  const mm = Math.floor((s % 3600) / 60);
+  const ss = String(s % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(mm).padStart(2, '0')}:${ss}` : `${mm}:${ss}`;
+}
+
 export function getQuizHistory(): QuizHistoryEntry[] {
   try {
     const raw = localStorage.getItem(STORAGE_KEY);
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type PlannedSection,
+  allocateQuestions,
+  createSourceCiter,
+  mergeCoverage,
+  planBatches,
+  planMaterial,
+  splitIntoSections,
+  summarizeCoverage,
+} from './sections';
+
+// Distinct words, so every window of a section's text can be told apart
+const prose = (chars: number, tag = 'w') =>
+  Array.from({ length: Math.ceil(chars / 10) }, (_, i) => `${tag}${i}`.padEnd(9, '.') + ' ').join('').slice(0, chars);
+
+const planned = (id: string, count: number, chars = 3000): PlannedSection =>
+  ({ id, label: id, text: prose(chars, id), count });
+
+const total = (batch: PlannedSection[]) => batch.reduce((sum, s) => sum + s.count, 0);
+
+describe('splitIntoSections', () => {
+  it('starts a section at each file, page and heading and labels it', () => {
+    const text = [
+      '=== notes.pdf ===',
+      '[Page 1]',
+      '# Cell structure',
+      prose(500, 'a'),
+      '[Page 2]',
+      '# Respiration',
+      prose(500, 'b'),
+    ].join('\n');
+    const sections = splitIntoSections(text);
+    expect(sections.map(s => s.id)).toEqual(['S1', 'S2']);
+    expect(sections[0]).toMatchObject({ file: 'notes.pdf', heading: 'Cell structure', locator: { kind: 'page', from: 1, to: 1 } });
+    expect(sections[1].label).toContain('Respiration');
+  });
+
+  it('folds short sections into their neighbour', () => {
+    const text = ['=== a.txt ===', '# One', prose(100), '# Two', prose(100)].join('\n');
+    expect(splitIntoSections(text)).toHaveLength(1);
+  });
+
+  it('cuts oversize sections into parts', () => {
+    const text = ['=== a.txt ===', ...Array.from({ length: 8 }, (_, i) => prose(1500, `p${i}`) + '\n')].join('\n');
+    const sections = splitIntoSections(text);
+    expect(sections.length).toBeGreaterThan(1);
+    sections.forEach(s => expect(s.text.length).toBeLessThanOrEqual(6000));
+  });
+
+  it('numbers from startId', () => {
+    expect(splitIntoSections(prose(800), { startId: 5 })[0].id).toBe('S5');
+  });
+});
+
+describe('allocateQuestions', () => {
+  it('splits by length and always adds up to the total', () => {
+    const sections = [planned('S1', 0, 1000), planned('S2', 0, 2000), planned('S3', 0, 3000)];
+    const counts = allocateQuestions(sections, 10).map(s => s.count);
+    expect(counts.reduce((a, b) => a + b, 0)).toBe(10);
+    expect(counts[0]).toBeLessThan(counts[2]);
+  });
+
+  it('scales shares by topic weight', () => {
+    const sections = [planned('S1', 0), planned('S2', 0)];
+    expect(allocateQuestions(sections, 9, { S1: 2 }).map(s => s.count)).toEqual([6, 3]);
+    expect(allocateQuestions(sections, 9, { S2: 0 }).map(s => s.count)).toEqual([9, 0]);
+  });
+});
+
+describe('planBatches', () => {
+  it('leaves out sections with no questions', () => {
+    expect(planBatches([planned('S1', 0), planned('S2', 3)]).flat().map(s => s.id)).toEqual(['S2']);
+  });
+
+  it('keeps every batch within the question cap', () => {
+    const batches = planBatches([planned('S1', 3), planned('S2', 60), planned('S3', 7)]);
+    batches.forEach(b => expect(total(b)).toBeLessThanOrEqual(25));
+    expect(batches.map(total).reduce((a, b) => a + b, 0)).toBe(70);
+  });
+
+  it('splits a large section into chunks over consecutive parts of its text', () => {
+    const section = planned('S1', 200, 6000);
+    const batches = planBatches([section]);
+    expect(batches).toHaveLength(8);
+    expect(batches.map(total)).toEqual(Array(8).fill(25));
+
+    const chunks = batches.map(b => b[0]);
+    chunks.forEach(c => expect(c.id).toBe('S1'));
+    // No chunk resends text another one already covered, and together they cover all of it
+    expect(new Set(chunks.map(c => c.text.slice(0, 20))).size).toBe(8);
+    expect(chunks.map(c => c.text).join('')).toBe(section.text);
+  });
+
+  it('trims a section to what its few questions need', () => {
+    expect(planBatches([planned('S1', 1, 6000)])[0][0].text).toHaveLength(2000);
+  });
+
+  it('starts a new batch when the material would run over budget', () => {
+    const batches = planBatches([planned('S1', 5, 6000), planned('S2', 5, 6000), planned('S3', 5, 6000)]);
+    expect(batches.map(b => b.map(s => s.id))).toEqual([['S1', 'S2'], ['S3']]);
+  });
+});
+
+describe('planMaterial', () => {
+  it('drops sections weighted 0 from the plan', () => {
+    const text = ['=== a.txt ===', '# One', prose(1000, 'a'), '# Two', prose(1000, 'b')].join('\n');
+    const { planned: plan, batches } = planMaterial(text, 6, { S2: 0 });
+    expect(plan.map(s => s.id)).toEqual(['S1']);
+    expect(batches.flat().map(s => s.count)).toEqual([6]);
+  });
+});
+
+describe('coverage', () => {
+  it('counts questions per planned section', () => {
+    const report = summarizeCoverage([planned('S1', 2), planned('S2', 1)], [{ section: 'S1' }, { section: 'S1' }, {}]);
+    expect(report.map(r => [r.id, r.allocated, r.generated])).toEqual([['S1', 2, 2], ['S2', 1, 0]]);
+  });
+
+  it('adds up reports from separate calls by section', () => {
+    const report = (generated: number) => [{ id: 'S1', label: 'S1', chars: 10, allocated: 4, generated }];
+    expect(mergeCoverage([report(1), report(2)])).toEqual([{ id: 'S1', label: 'S1', chars: 10, allocated: 4, generated: 3 }]);
+  });
+});
+
+describe('createSourceCiter', () => {
+  const material = [
+    '=== bio.pdf ===',
+    '[Page 3]',
+    'Chlorophyll absorbs mostly red and blue light.',
+    '[Page 4]',
+    'The Calvin cycle fixes carbon dioxide into sugar.',
+  ].join('\n');
+  const sections = [{ id: 'S1', label: 'bio.pdf · Pages 3–4', file: 'bio.pdf', locator: { kind: 'page' as const, from: 3, to: 4 }, text: '' }];
+  const cite = createSourceCiter(material, sections);
+
+  it('cites the page the excerpt was found on', () => {
+    expect(cite('S1', 'The Calvin cycle fixes carbon dioxide')).toMatchObject({ file: 'bio.pdf', kind: 'page', number: 4 });
+  });
+
+  it("falls back to the section's first page", () => {
+    expect(cite('S1', 'a passage that is nowhere in the notes')).toMatchObject({ number: 3 });
+  });
+
+  it('gives nothing without a section or excerpt', () => {
+    expect(cite()).toBeUndefined();
+  });
+});
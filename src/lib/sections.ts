@@ -0,0 +1,347 @@
+// Splits extracted study material into sections and spreads questions across them.
+//
+// Extraction keeps structural markers in the text — "=== file ===" headers,
+// [Page N] / [Slide N] / [Notes N] tags and "# Heading" lines — so questions can
+// be allocated to every part of a long document instead of just its start,
+// middle and end.
+
+// Sections shorter than this are merged into their neighbour
+const MIN_SECTION_CHARS = 400;
+// Sections longer than this are split at paragraph boundaries
+const MAX_SECTION_CHARS = 6000;
+// Material sent per generation call (free models slow down sharply above this)
+const MAX_BATCH_CHARS = 12000;
+// Questions requested per generation call — small enough to finish well
+// inside the function time limit, since large quizzes run several in parallel
+const MAX_BATCH_QUESTIONS = 25;
+// A section asked for one or two questions doesn't need all of its text sent
+const CHARS_PER_QUESTION = 2000;
+
+type LocatorKind = 'page' | 'slide' | 'notes';
+
+export interface MaterialSection {
+  /** Stable id used by the model to tag questions, e.g. "S4" */
+  id: string;
+  file?: string;
+  heading?: string;
+  locator?: { kind: LocatorKind; from: number; to: number };
+  /** Human-readable location, e.g. "notes.pdf · Pages 3–5 · Cell structure" */
+  label: string;
+  text: string;
+}
+
+/**
+ * Multiplier on each section's share of the questions, by section id — e.g.
+ * 2 for a topic the student wants drilled, 0 to leave it out. Sections not
+ * listed count as 1.
+ */
+export type SectionWeights = Record<string, number>;
+
+const weightOf = (weights: SectionWeights, id: string) => Math.max(0, Number(weights[id] ?? 1) || 0);
+
+/** A section plus how many questions it should produce */
+export interface PlannedSection extends MaterialSection {
+  count: number;
+}
+
+/** Where in the uploaded material a question comes from */
+export interface QuestionSource {
+  file?: string;
+  kind?: LocatorKind;
+  /** Page, slide or notes number the excerpt was found on */
+  number?: number;
+  /** e.g. "lecture.pptx · Slide 12" */
+  label: string;
+  /** Short passage from the material that supports the answer */
+  excerpt?: string;
+}
+
+export interface SectionCoverage {
+  id: string;
+  label: string;
+  chars: number;
+  allocated: number;
+  generated: number;
+}
+
+const FILE_HEADER = /^=== (.+) ===$/;
+const LOCATOR = /^\[(Page|Slide|Notes) (\d+)\]$/;
+const MARKDOWN_HEADING = /^#{1,4}\s+(.+)$/;
+const NUMBERED_HEADING = /^(\d+(?:\.\d+)*)\.?\s+([A-Z][^.!?]{2,80})$/;
+
+function isCapsHeading(line: string): boolean {
+  return line.length >= 4 && line.length <= 60 && /[A-Z]{3}/.test(line) && line === line.toUpperCase() && !/[.!?,;]$/.test(line);
+}
+
+function headingOf(line: string): string | null {
+  const md = line.match(MARKDOWN_HEADING);
+  if (md) return md[1].trim();
+  const numbered = line.match(NUMBERED_HEADING);
+  if (numbered) return `${numbered[1]} ${numbered[2]}`.trim();
+  if (isCapsHeading(line)) return line;
+  return null;
+}
+
+function buildLabel(s: Omit<MaterialSection, 'id' | 'label'>): string {
+  const parts: string[] = [];
+  if (s.file) parts.push(s.file);
+  if (s.locator) {
+    const { kind, from, to } = s.locator;
+    const noun = kind === 'notes' ? 'Notes' : kind === 'page' ? 'Page' : 'Slide';
+    parts.push(from === to ? `${noun} ${from}` : `${noun}s ${from}–${to}`);
+  }
+  if (s.heading) parts.push(s.heading);
+  return parts.join(' · ') || 'Material';
+}
+
+// Longest excerpt kept on a question
+const MAX_EXCERPT_CHARS = 300;
+
+const squash = (s: string) => s.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Split combined extracted text into labelled sections.
+ * Tiny sections are folded into the previous one from the same file and
+ * oversize sections are cut at paragraph boundaries.
+ */
+export function splitIntoSections(text: string, options: { startId?: number } = {}): MaterialSection[] {
+  type Draft = Omit<MaterialSection, 'id' | 'label'>;
+  const drafts: Draft[] = [];
+
+  let file: string | undefined;
+  let heading: string | undefined;
+  let locator: Draft['locator'];
+  let lines: string[] = [];
+
+  const flush = () => {
+    const body = lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+    if (body) drafts.push({ file, heading, locator: locator && { ...locator }, text: body });
+    lines = [];
+  };
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim();
+    if (line === '---') continue;
+
+    const fileMatch = line.match(FILE_HEADER);
+    if (fileMatch) {
+      flush();
+      file = fileMatch[1];
+      heading = undefined;
+      locator = undefined;
+      continue;
+    }
+
+    const locatorMatch = line.match(LOCATOR);
+    if (locatorMatch) {
+      flush();
+      const n = Number(locatorMatch[2]);
+      locator = { kind: locatorMatch[1].toLowerCase() as LocatorKind, from: n, to: n };
+      continue;
+    }
+
+    const h = line && headingOf(line);
+    if (h) {
+      flush();
+      heading = h;
+      continue;
+    }
+
+    lines.push(rawLine);
+  }
+  flush();
+
+  // Merge small neighbours from the same file so each section has enough to ask about
+  const merged: Draft[] = [];
+  for (const d of drafts) {
+    const prev = merged[merged.length - 1];
+    const sameSource = prev && prev.file === d.file && (!prev.locator || !d.locator || prev.locator.kind === d.locator.kind);
+    if (prev && sameSource && (prev.text.length < MIN_SECTION_CHARS || d.text.length < MIN_SECTION_CHARS)) {
+      prev.text += '\n\n' + d.text;
+      if (prev.locator && d.locator) prev.locator.to = Math.max(prev.locator.to, d.locator.to);
+      else prev.locator = prev.locator || d.locator;
+      prev.heading = prev.heading || d.heading;
+    } else {
+      merged.push({ ...d });
+    }
+  }
+
+  // Split oversize sections at paragraph boundaries
+  const sized: Draft[] = [];
+  for (const d of merged) {
+    if (d.text.length <= MAX_SECTION_CHARS) { sized.push(d); continue; }
+    const paragraphs = d.text.split(/\n\s*\n/);
+    let part = '';
+    let partNo = 1;
+    const push = () => {
+      if (!part.trim()) return;
+      const heading = d.heading ? `${d.heading} (part ${partNo})` : `Part ${partNo}`;
+      sized.push({ ...d, heading, text: part.trim() });
+      partNo++;
+      part = '';
+    };
+    for (const p of paragraphs) {
+      // A single giant paragraph still gets cut, just not mid-word
+      for (let i = 0; i < p.length; i += MAX_SECTION_CHARS) {
+        const piece = p.slice(i, i + MAX_SECTION_CHARS);
+        if (part.length + piece.length > MAX_SECTION_CHARS) push();
+        part += (part ? '\n\n' : '') + piece;
+      }
+    }
+    push();
+  }
+
+  const start = options.startId ?? 1;
+  return sized.map((d, i) => ({ ...d, id: `S${start + i}`, label: buildLabel(d) }));
+}
+
+/**
+ * Give each section a share of the questions proportional to its length times
+ * its weight (largest-remainder rounding, so the counts add up exactly).
+ */
+export function allocateQuestions(sections: MaterialSection[], total: number, weights: SectionWeights = {}): PlannedSection[] {
+  const size = (s: MaterialSection) => s.text.length * weightOf(weights, s.id);
+  const totalChars = sections.reduce((sum, s) => sum + size(s), 0) || 1;
+  const exact = sections.map(s => (size(s) / totalChars) * total);
+  const counts = exact.map(Math.floor);
+  let remaining = total - counts.reduce((a, b) => a + b, 0);
+
+  const byRemainder = exact
+    .map((e, i) => ({ i, r: e - Math.floor(e) }))
+    .sort((a, b) => b.r - a.r);
+  for (const { i } of byRemainder) {
+    if (remaining <= 0) break;
+    counts[i]++;
+    remaining--;
+  }
+
+  return sections.map((s, i) => ({ ...s, count: counts[i] }));
+}
+
+/**
+ * Group planned sections (in document order) into generation calls that stay
+ * under the per-call character and question budgets. Sections with no
+ * questions allocated are left out of the prompt entirely, sections with only
+ * a few are trimmed to what those questions need, and sections with more than
+ * one call's worth are split across calls.
+ */
+export function planBatches(planned: PlannedSection[]): PlannedSection[][] {
+  const batches: PlannedSection[][] = [];
+  let current: PlannedSection[] = [];
+  let chars = 0;
+  let questions = 0;
+
+  // A section asked for more questions than one call may hold goes out as
+  // several calls, each over its own consecutive share of the section's text
+  const chunks = planned.flatMap(section => {
+    const parts: PlannedSection[] = [];
+    let offset = 0;
+    for (let left = section.count; left > 0; left -= MAX_BATCH_QUESTIONS) {
+      const count = Math.min(left, MAX_BATCH_QUESTIONS);
+      const share = Math.ceil((section.text.length * count) / section.count);
+      parts.push({ ...section, count, text: section.text.slice(offset, offset + Math.min(share, count * CHARS_PER_QUESTION)) });
+      offset += share;
+    }
+    return parts;
+  });
+
+  for (const s of chunks) {
+    if (current.length && (chars + s.text.length > MAX_BATCH_CHARS || questions + s.count > MAX_BATCH_QUESTIONS)) {
+      batches.push(current);
+      current = [];
+      chars = 0;
+      questions = 0;
+    }
+    current.push(s);
+    chars += s.text.length;
+    questions += s.count;
+  }
+  if (current.length) batches.push(current);
+  return batches;
+}
+
+/**
+ * Sections with their share of `total` questions, grouped into generation
+ * calls. The server and the client both plan this way, so a client running
+ * batches in parallel can ask for them by index. Sections weighted 0 are
+ * dropped from the plan altogether, coverage report included.
+ */
+export function planMaterial(text: string, total: number, weights: SectionWeights = {}): { planned: PlannedSection[]; batches: PlannedSection[][] } {
+  const sections = splitIntoSections(text).filter(s => weightOf(weights, s.id) > 0);
+  const planned = allocateQuestions(sections, total, weights);
+  return { planned, batches: planBatches(planned) };
+}
+
+/** Combine coverage reports from separate generation calls over the same plan */
+export function mergeCoverage(reports: SectionCoverage[][]): SectionCoverage[] {
+  const merged = new Map<string, SectionCoverage>();
+  for (const report of reports) {
+    for (const s of report) {
+      const seen = merged.get(s.id);
+      merged.set(s.id, seen ? { ...seen, generated: seen.generated + s.generated } : { ...s });
+    }
+  }
+  return Array.from(merged.values());
+}
+
+/** How many questions each section was meant to get versus what came back */
+export function summarizeCoverage(planned: PlannedSection[], questions: { section?: string }[]): SectionCoverage[] {
+  const produced = new Map<string, number>();
+  questions.forEach(q => {
+    if (q.section) produced.set(q.section, (produced.get(q.section) || 0) + 1);
+  });
+  return planned.map(s => ({
+    id: s.id,
+    label: s.label,
+    chars: s.text.length,
+    allocated: s.count,
+    generated: produced.get(s.id) || 0,
+  }));
+}
+
+/**
+ * Returns a function that turns the model's section id and supporting excerpt
+ * into a source reference. The excerpt is looked up in the full material so
+ * the exact page or slide is cited even when a section spans several; if it
+ * can't be found the section's first page or slide is used instead.
+ */
+export function createSourceCiter(material: string, sections: MaterialSection[]) {
+  type Line = { text: string; file?: string; locator?: { kind: LocatorKind; n: number } };
+  const lines: Line[] = [];
+  let file: string | undefined;
+  let locator: Line['locator'];
+
+  for (const raw of material.split('\n')) {
+    const line = raw.trim();
+    const fileMatch = line.match(FILE_HEADER);
+    if (fileMatch) { file = fileMatch[1]; locator = undefined; continue; }
+    const locatorMatch = line.match(LOCATOR);
+    if (locatorMatch) { locator = { kind: locatorMatch[1].toLowerCase() as LocatorKind, n: Number(locatorMatch[2]) }; continue; }
+    if (line) lines.push({ text: squash(line), file, locator });
+  }
+
+  const byId = new Map(sections.map(s => [s.id, s]));
+
+  return (sectionId?: string, excerpt?: string): QuestionSource | undefined => {
+    const section = sectionId ? byId.get(sectionId) : undefined;
+    const cleanExcerpt = excerpt?.replace(/\s+/g, ' ').trim().slice(0, MAX_EXCERPT_CHARS) || undefined;
+
+    // Match on the opening of the excerpt; models rarely quote long runs exactly
+    const probe = cleanExcerpt ? squash(cleanExcerpt).slice(0, 60) : '';
+    const found = probe.length >= 15 ? lines.find(l => l.text.includes(probe)) : undefined;
+
+    const src: Omit<QuestionSource, 'label'> = found
+      ? { file: found.file, kind: found.locator?.kind, number: found.locator?.n }
+      : section
+        ? { file: section.file, kind: section.locator?.kind, number: section.locator?.from }
+        : {};
+    if (!src.file && !src.number && !cleanExcerpt) return undefined;
+
+    const label = buildLabel({
+      file: src.file,
+      locator: src.kind && src.number ? { kind: src.kind, from: src.number, to: src.number } : undefined,
+      text: '',
+    });
+    return { ...src, label, excerpt: cleanExcerpt };
+  };
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it, vi } from 'vitest';
+import { type RecallRating, type ReviewState, MAX_REVIEWS_PER_DAY, dueToday, formatInterval, schedule, suggestedRating } from './spacedRepetition';
+
+// Only the pure scheduling is under test — keep Firebase out of it
+vi.mock('./firestoreService', () => ({}));
+
+const NOW = new Date('2026-03-02T12:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rate the same question several times in a row, a day apart
+const review = (...ratings: RecallRating[]) => ratings.reduce<ReviewState | undefined>(
+  (state, rating, i) => schedule(state, 'q1', rating, new Date(NOW.getTime() + i * DAY_MS)),
+  undefined
+)!;
+
+describe('schedule', () => {
+  it('follows the SM-2 steps for good recalls', () => {
+    expect(review(3)).toMatchObject({ interval: 1, repetitions: 1, ease: 2.5 });
+    expect(review(3, 3).interval).toBe(6);
+    expect(review(3, 3, 3).interval).toBe(15);
+  });
+
+  it('moves the ease with hard and easy ratings', () => {
+    expect(review(2)).toMatchObject({ interval: 1, ease: 2.35 });
+    expect(review(4)).toMatchObject({ interval: 4, ease: 2.65 });
+    expect(review(3, 3, 4).interval).toBe(Math.round(6 * 2.5 * 1.3));
+  });
+
+  it('sends a lapse back to relearning ten minutes out', () => {
+    const lapsed = schedule(review(3, 3), 'q1', 1, NOW);
+    expect(lapsed).toMatchObject({ interval: 0, repetitions: 0, lapses: 1, ease: 2.3 });
+    expect(new Date(lapsed.due).getTime() - NOW.getTime()).toBe(10 * 60 * 1000);
+  });
+
+  it('keeps the ease above its floor and the interval under a year', () => {
+    expect(review(1, 1, 1, 1, 1, 1, 1, 1).ease).toBe(1.3);
+    expect(review(4, 4, 4, 4, 4, 4, 4, 4).interval).toBe(365);
+  });
+
+  it('dates the next review from now', () => {
+    const state = schedule(undefined, 'q1', 3, NOW);
+    expect(state.lastReviewedAt).toBe(NOW.toISOString());
+    expect(state.due).toBe(new Date(NOW.getTime() + DAY_MS).toISOString());
+  });
+});
+
+describe('suggestedRating', () => {
+  it('maps credit to a rating', () => {
+    expect(suggestedRating(1)).toBe(3);
+    expect(suggestedRating(0.5)).toBe(2);
+    expect(suggestedRating(0)).toBe(1);
+  });
+});
+
+describe('formatInterval', () => {
+  const dueIn = (ms: number) => ({ due: new Date(NOW.getTime() + ms).toISOString() }) as ReviewState;
+
+  it('picks the largest sensible unit', () => {
+    expect(formatInterval(dueIn(10 * 60 * 1000), NOW)).toBe('10m');
+    expect(formatInterval(dueIn(3 * 60 * 60 * 1000), NOW)).toBe('3h');
+    expect(formatInterval(dueIn(6 * DAY_MS), NOW)).toBe('6d');
+    expect(formatInterval(dueIn(60 * DAY_MS), NOW)).toBe('2mo');
+    expect(formatInterval(dueIn(365 * DAY_MS), NOW)).toBe('1y');
+  });
+});
+
+describe('dueToday', () => {
+  const state = (id: string, dueOffsetDays: number) =>
+    ({ id, due: new Date(NOW.getTime() + dueOffsetDays * DAY_MS).toISOString() }) as ReviewState;
+
+  it('takes everything due by the end of today and nothing later', () => {
+    const due = dueToday([state('late', -3), state('today', 0), state('tomorrow', 1.5)], NOW);
+    expect(due.map(s => s.id).sort()).toEqual(['late', 'today']);
+  });
+
+  it('caps the queue, keeping the most overdue', () => {
+    const states = Array.from({ length: MAX_REVIEWS_PER_DAY + 10 }, (_, i) => state(`q${i}`, -i));
+    const due = dueToday(states, NOW);
+    expect(due).toHaveLength(MAX_REVIEWS_PER_DAY);
+    expect(due.map(s => s.id)).not.toContain('q0');
+  });
+});
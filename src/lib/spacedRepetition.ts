@@ -0,0 +1,183 @@
+// Spaced-repetition scheduling for answered questions, after SM-2 with the
+// four recall grades Anki uses. Each question keeps an ease factor and an
+// interval; a good recall multiplies the interval by the ease, a lapse sends
+// the question back to the start. Due questions from every quiz make up the
+// daily review queue. Stored in localStorage and, for signed-in users, under
+// users/{uid}/reviewState so reviews follow them between devices.
+
+/** 1 Again · 2 Hard · 3 Good · 4 Easy */
+export type RecallRating = 1 | 2 | 3 | 4;
+
+export interface ReviewState {
+  /** Id of the question in the question bank */
+  id: string;
+  ease: number;
+  /** Days until the next review; 0 while relearning after a lapse */
+  interval: number;
+  /** Successful reviews in a row */
+  repetitions: number;
+  lapses: number;
+  due: string; // ISO date
+  lastReviewedAt: string; // ISO date
+}
+
+export const RECALL_LABELS: Record<RecallRating, string> = { 1: 'Again', 2: 'Hard', 3: 'Good', 4: 'Easy' };
+
+const STORAGE_KEY = 'studywiz_review_state';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+// A lapsed question comes back later the same session rather than tomorrow
+const RELEARN_MINUTES = 10;
+const EASY_BONUS = 1.3;
+// Days before the first review of a question that was easy straight away
+const EASY_FIRST_INTERVAL = 4;
+const HARD_FACTOR = 1.2;
+// Longest gap between reviews
+const MAX_INTERVAL_DAYS = 365;
+// Most reviews offered in one day, so a backlog doesn't become a wall
+export const MAX_REVIEWS_PER_DAY = 50;
+
+/** Review state after answering with the given rating */
+export function schedule(previous: ReviewState | undefined, id: string, rating: RecallRating, now = new Date()): ReviewState {
+  const ease = previous?.ease ?? INITIAL_EASE;
+  const interval = previous?.interval ?? 0;
+  const repetitions = previous?.repetitions ?? 0;
+  const lapses = previous?.lapses ?? 0;
+  const reviewed = { id, lastReviewedAt: now.toISOString() };
+
+  if (rating === 1) {
+    return {
+      ...reviewed,
+      ease: Math.max(MIN_EASE, ease - 0.2),
+      interval: 0,
+      repetitions: 0,
+      lapses: lapses + 1,
+      due: new Date(now.getTime() + RELEARN_MINUTES * 60 * 1000).toISOString(),
+    };
+  }
+
+  // SM-2's fixed first steps, then growth by the ease factor
+  let next = repetitions === 0 ? 1 : repetitions === 1 ? 6 : interval * ease;
+  if (rating === 2) next = repetitions === 0 ? 1 : Math.max(interval + 1, interval * HARD_FACTOR);
+  if (rating === 4) next = repetitions === 0 ? EASY_FIRST_INTERVAL : next * EASY_BONUS;
+  const days = Math.min(MAX_INTERVAL_DAYS, Math.max(1, Math.round(next)));
+
+  return {
+    ...reviewed,
+    ease: Math.max(MIN_EASE, ease + (rating === 2 ? -0.15 : rating === 4 ? 0.15 : 0)),
+    interval: days,
+    repetitions: repetitions + 1,
+    lapses,
+    due: new Date(now.getTime() + days * DAY_MS).toISOString(),
+  };
+}
+
+/** Rating to use when the student moves on without choosing one */
+export function suggestedRating(credit: number): RecallRating {
+  if (credit >= 1) return 3;
+  return credit >= 0.5 ? 2 : 1;
+}
+
+/** How long a rating would put the question away for, e.g. "10m", "6d", "2mo" */
+export function formatInterval(state: ReviewState, now = new Date()): string {
+  const minutes = Math.max(1, Math.round((new Date(state.due).getTime() - now.getTime()) / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 24 * 60) return `${Math.round(minutes / 60)}h`;
+  const days = Math.round(minutes / (24 * 60));
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${Math.round(days / 365)}y`;
+}
+
+/**
+ * Today's queue: everything due by the end of the day, most overdue first and
+ * capped at MAX_REVIEWS_PER_DAY, then shuffled so quizzes mix together.
+ */
+export function dueToday(states: ReviewState[], now = new Date()): ReviewState[] {
+  const endOfDay = new Date(now);
+  endOfDay.setHours(23, 59, 59, 999);
+  const due = states
+    .filter(s => new Date(s.due) <= endOfDay)
+    .sort((a, b) => a.due.localeCompare(b.due))
+    .slice(0, MAX_REVIEWS_PER_DAY);
+  for (let i = due.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [due[i], due[j]] = [due[j], due[i]];
+  }
+  return due;
+}
+
+export function getReviewStates(): Record<string, ReviewState> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function saveLocal(states: Record<string, ReviewState>): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(states));
+  } catch {
+    // Storage full — signed-in users still have the Firestore copy
+  }
+}
+
+/** Schedule a question from its rating and store the result */
+export function recordReview(id: string, rating: RecallRating): ReviewState {
+  const states = getReviewStates();
+  const state = schedule(states[id], id, rating);
+  saveLocal({ ...states, [id]: state });
+  return state;
+}
+
+export function forgetReview(id: string): void {
+  const { [id]: _removed, ...rest } = getReviewStates();
+  saveLocal(rest);
+}
+
+// ── Firestore-synced wrappers ──
+
+import { saveReviewStateToFirestore, getReviewStatesFromFirestore, deleteReviewStateFromFirestore } from './firestoreService';
+
+/** Local and remote states merged, the most recently reviewed copy of each winning */
+export async function getReviewStatesWithSync(uid: string | null): Promise<Record<string, ReviewState>> {
+  const local = getReviewStates();
+  if (!uid) return local;
+  try {
+    const merged = { ...local };
+    for (const remote of await getReviewStatesFromFirestore(uid)) {
+      const mine = merged[remote.id];
+      if (!mine || mine.lastReviewedAt < remote.lastReviewedAt) merged[remote.id] = remote;
+    }
+    saveLocal(merged);
+    return merged;
+  } catch (err) {
+    console.error('Failed to fetch review state from Firestore, using local:', err);
+    return local;
+  }
+}
+
+export async function recordReviewWithSync(id: string, rating: RecallRating, uid: string | null): Promise<ReviewState> {
+  const state = recordReview(id, rating);
+  if (uid) {
+    try {
+      await saveReviewStateToFirestore(uid, state);
+    } catch (err) {
+      console.error('Failed to sync review state to Firestore:', err);
+    }
+  }
+  return state;
+}
+
+export async function forgetReviewWithSync(id: string, uid: string | null): Promise<void> {
+  forgetReview(id);
+  if (uid) {
+    try {
+      await deleteReviewStateFromFirestore(uid, id);
+    } catch (err) {
+      console.error('Failed to delete review state from Firestore:', err);
+    }
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * Lenient check for fill-blank and short-answer responses: the answer matches
+ * the key, one contains the other, or it uses one of the key's longer words.
+ */
+export function matchesTextAnswer(correctAnswer: string, answer: string): boolean {
+  const key = correctAnswer.toLowerCase().trim();
+  const given = answer.trim().toLowerCase();
+  if (!given) return false;
+  return (
+    given === key ||
+    key.includes(given) ||
+    given.includes(key) ||
+    // Check if key words match
+    key.split(' ').filter(word => word.length > 3).some(word => given.includes(word))
+  );
+}
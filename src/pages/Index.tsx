@@ -1,15 +1,21 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Header } from "@/components/Header";
 import { WelcomeHero } from "@/components/WelcomeHero";
 import { GeneratorPanel, GeneratedQuizData, Question } from "@/components/GeneratorPanel";
+import type { GenerationMetadata } from "@/lib/geminiClient";
 import { PracticeView } from "@/components/PracticeView";
 import { ChatView } from "@/components/ChatView";
 import { HistoryView } from "@/components/HistoryView";
+import { QuestionBankView } from "@/components/QuestionBankView";
+import { ReviewView } from "@/components/ReviewView";
 import { useAuth } from "@/contexts/AuthContext";
 import { saveFileMetadata } from "@/lib/firestoreService";
+import { getCached, putCached } from "@/lib/contentCache";
+import { documentHash, rememberQuestionsWithSync } from "@/lib/dedupMemory";
+import { saveToBankWithSync } from "@/lib/questionBank";
 import { initOCRPool } from "@/lib/ocr-pool";
 
-type Tab = "generate" | "practice" | "chat" | "history";
+type Tab = "generate" | "practice" | "review" | "bank" | "chat" | "history";
 
 export interface SharedFileState {
   files: File[];
@@ -25,18 +31,58 @@ const Index = () => {
   const [sharedFiles, setSharedFiles] = useState<File[]>([]);
   const [extractedContent, setExtractedContent] = useState<string>("");
 
+  // Whether the current quiz is the generator's — a Bank or Review quiz takes it
+  // over, and the generation still streaming in the background must not write into it
+  const followGeneration = useRef(false);
+
   /** First batch of questions from generation: switch to Practice tab */
   const handleGenerate = (data: GeneratedQuizData) => {
+    followGeneration.current = true;
+    setQuizData(data);
+    setActiveTab("practice");
+  };
+
+  /** Quiz of saved questions from the Bank or Review tab */
+  const handleStartSavedQuiz = (data: GeneratedQuizData) => {
+    followGeneration.current = false;
     setQuizData(data);
     setActiveTab("practice");
   };
 
   /**
-   * Streaming updates: new questions arrived while OCR continues in background.
+   * Streaming updates: new questions arrived while generation or OCR continues in background.
    * Update quizData in-place without switching tabs — user stays where they are.
+   * The final call passes isStreaming=false (and the server metadata) so Practice knows the set is complete.
    */
-  const handleUpdateQuestions = (questions: Question[]) => {
-    setQuizData(prev => prev ? { ...prev, questions } : prev);
+  const handleUpdateQuestions = (questions: Question[], isStreaming = false, metadata?: GenerationMetadata) => {
+    if (!followGeneration.current) return;
+    setQuizData(prev => prev ? { ...prev, questions, isStreaming, ...(metadata ? { metadata } : {}) } : prev);
+  };
+
+  /** Quiz editor changes — kept in the cached copy of the quiz and the document's dedup memory too */
+  const handleEditQuestions = (questions: Question[]) => {
+    if (!quizData) return;
+    setQuizData({ ...quizData, questions });
+
+    // Reopening these files with the same settings brings back the edited quiz
+    const { cacheKey, files } = quizData;
+    if (cacheKey) {
+      getCached<{ questions: Question[]; metadata?: GenerationMetadata }>(cacheKey).then(entry => {
+        if (entry) putCached(cacheKey, 'questions', files.map(f => f.name).join(', '), { ...entry, questions });
+      });
+    }
+
+    // New and reworded questions count as asked, so the next quiz steers clear of them,
+    // and the bank keeps the edited wording
+    const added = questions.filter(q => !quizData.questions.includes(q));
+    if (added.length === 0) return;
+    const uid = user?.uid ?? null;
+    saveToBankWithSync(added, { sourceFiles: quizData.sourceFiles ?? files.map(f => f.name), difficulty: quizData.difficulty }, uid);
+    if (files.length > 0) {
+      documentHash(files)
+        .then(hash => rememberQuestionsWithSync(hash, added, uid))
+        .catch(err => console.error('Failed to remember edited questions:', err));
+    }
   };
 
   const handleFilesChange = (files: File[]) => {
@@ -88,7 +134,18 @@ const Index = () => {
           </div>
         );
       case "practice":
-        return <PracticeView quizData={quizData} onGoToGenerate={() => setActiveTab("generate")} />;
+        return (
+          <PracticeView
+            quizData={quizData}
+            onGoToGenerate={() => setActiveTab("generate")}
+            onQuestionsChange={handleEditQuestions}
+            material={quizData?.files.length ? extractedContent : undefined}
+          />
+        );
+      case "review":
+        return <ReviewView onStartQuiz={handleStartSavedQuiz} />;
+      case "bank":
+        return <QuestionBankView onStartQuiz={handleStartSavedQuiz} />;
       case "chat":
         return (
           <ChatView
@@ -68,6 +68,8 @@ export const lecturerStyleStems: Record<QuestionCategory, string[]> = {
   ],
 };
 
+export const questionCategories = Object.keys(lecturerStyleStems) as QuestionCategory[];
+
 export interface Question {
   id: string;
   content: string;
@@ -81,6 +83,38 @@ export interface Question {
   hint?: string;               // Optional hint for students
 }
 
+// Scoring guide for an essay question; points are awarded per criterion
+export interface RubricCriterion {
+  criterion: string;
+  points: number;
+  description?: string;
+}
+
+export interface CriterionGrade {
+  criterion: string;
+  points: number;
+  awarded: number;
+  feedback: string;
+}
+
+export interface EssayGrade {
+  criteria: CriterionGrade[];
+  score: number;
+  maxScore: number;
+  feedback: string;
+}
+
+// One row of a matching question, as written: left[i] belongs with right[i]
+export interface MatchingPair {
+  left: string;
+  right: string;
+}
+
+// One gap in a cloze passage: the term taken out first, then accepted synonyms
+export interface ClozeBlank {
+  answers: string[];
+}
+
 export interface GeneratedQuiz {
   id: string;
   title: string;
@@ -95,6 +129,15 @@ export interface GeneratedQuiz {
   };
 }
 
+// How the question count is split across the selected types in GeneratorSettings.
+// values are percentages in "percent" mode and question counts in "count" mode.
+export type TypeMixMode = "even" | "percent" | "count";
+
+export interface TypeMix {
+  mode: TypeMixMode;
+  values: Record<string, number>;
+}
+
 export interface QuestionGenerationConfig {
   // Content analysis
   extractKeyTopics: boolean;
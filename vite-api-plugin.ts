@@ -63,13 +63,19 @@ export function localApiPlugin(): Plugin {
         addVercelCompat(req, res);
 
         try {
-          if (url.startsWith('/api/generate-questions')) {
+          if (url.startsWith('/api/generate-questions-stream')) {
+            // Checked before /api/generate-questions, which is a prefix of this route
+            req.body = await parseJsonBody(req);
+            const mod = await server.ssrLoadModule('/api/generate-questions-stream.ts');
+            await mod.default(req, res);
+          } else if (url.startsWith('/api/generate-questions')) {
             // Parse JSON body before passing to handler
             req.body = await parseJsonBody(req);
             const mod = await server.ssrLoadModule('/api/generate-questions.ts');
             await mod.default(req, res);
-          } else if (url.startsWith('/api/get-key')) {
-            const mod = await server.ssrLoadModule('/api/get-key.ts');
+          } else if (url.startsWith('/api/grade-essay')) {
+            req.body = await parseJsonBody(req);
+            const mod = await server.ssrLoadModule('/api/grade-essay.ts');
             await mod.default(req, res);
           } else if (url.startsWith('/api/chat')) {
             req.body = await parseJsonBody(req);